@@ -8,8 +8,29 @@ import { createHash, randomBytes } from 'node:crypto'
 import { arch, cpus, hostname, platform, totalmem } from 'node:os'
 import { createClient } from '@supabase/supabase-js'
 import { logger } from '../utils/logger.js'
+import type { TaskExecutor } from './task-executor.js'
 import type { AgentConfig, AgentDestination, HeartbeatData } from './types.js'
 
+/**
+ * The tools a destination reports in supported_tools: the MCP tools and the names of its tool commands
+ */
+export function getSupportedTools(toolCommands: string[] = []): string[] {
+  // TODO: Dynamically get MCP tools from tools registry
+  const mcpTools = [
+    'list_my_projects',
+    'get_project',
+    'create_issue',
+    'update_issue',
+    'list_my_issues',
+    'get_issue',
+    'create_article',
+    'update_article',
+    'list_articles',
+    'get_article',
+  ]
+  return [...new Set([...mcpTools, ...toolCommands])]
+}
+
 export class AgentRegistry {
   private supabase: any
   private config: AgentConfig
@@ -17,6 +38,7 @@ export class AgentRegistry {
   private apiKeyHash: string | null = null
   private heartbeatInterval: NodeJS.Timeout | null = null
   private isRegistered = false
+  private taskExecutor: Pick<TaskExecutor, 'getActiveExecutionsCount' | 'getQueuedExecutionsCount'> | null = null
 
   constructor(config: AgentConfig) {
     this.config = config
@@ -67,6 +89,7 @@ export class AgentRegistry {
    */
   private getCapabilities(): Record<string, unknown> {
     return {
+      ...(this.config.taskTypes ? { taskTypes: this.config.taskTypes } : {}),
       platform: platform(),
       arch: arch(),
       cpus: cpus().length,
@@ -77,22 +100,17 @@ export class AgentRegistry {
   }
 
   /**
-   * Get supported MCP tools
+   * Get supported tools: the MCP tools and the agent's tool commands
    */
   private getSupportedTools(): string[] {
-    // TODO: Dynamically get from tools registry
-    return [
-      'list_my_projects',
-      'get_project',
-      'create_issue',
-      'update_issue',
-      'list_my_issues',
-      'get_issue',
-      'create_article',
-      'update_article',
-      'list_articles',
-      'get_article',
-    ]
+    return getSupportedTools(this.config.supportedTools)
+  }
+
+  /**
+   * Get the task types this agent accepts
+   */
+  private getAllowedTaskTypes(): string[] {
+    return this.config.taskTypes ? Object.keys(this.config.taskTypes) : ['workflow', 'single', 'batch']
   }
 
   /**
@@ -133,6 +151,7 @@ export class AgentRegistry {
             status: 'online',
             last_heartbeat_at: new Date().toISOString(),
             max_concurrent_tasks: this.config.maxConcurrentTasks || 1,
+            allowed_task_types: this.getAllowedTaskTypes(),
             is_active: true,
             updated_at: new Date().toISOString(),
           })
@@ -163,7 +182,7 @@ export class AgentRegistry {
             api_key_hash: this.apiKeyHash,
             status: 'online',
             max_concurrent_tasks: this.config.maxConcurrentTasks || 1,
-            allowed_task_types: ['workflow', 'single', 'batch'],
+            allowed_task_types: this.getAllowedTaskTypes(),
             metadata: this.config.capabilities || {},
             tags: [],
             is_active: true,
@@ -226,6 +245,13 @@ export class AgentRegistry {
     }
   }
 
+  /**
+   * Report the executor's running and queued executions in heartbeats
+   */
+  setTaskExecutor(taskExecutor: Pick<TaskExecutor, 'getActiveExecutionsCount' | 'getQueuedExecutionsCount'>): void {
+    this.taskExecutor = taskExecutor
+  }
+
   /**
    * Start sending heartbeats
    */
@@ -264,8 +290,8 @@ export class AgentRegistry {
         cpuUsagePercent: 0, // TODO: Calculate actual CPU usage
         memoryUsageMb: Math.floor(memUsage.heapUsed / 1024 / 1024),
         diskUsagePercent: 0, // TODO: Calculate disk usage
-        activeTasks: 0, // TODO: Get from task executor
-        queuedTasks: 0, // TODO: Get from task executor
+        activeTasks: this.taskExecutor?.getActiveExecutionsCount() ?? 0,
+        queuedTasks: this.taskExecutor?.getQueuedExecutionsCount() ?? 0,
         status: 'online',
       }
 
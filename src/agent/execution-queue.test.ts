@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { ExecutionQueue } from './execution-queue.js'
+import type { TaskExecution } from './types.js'
+
+const execution = (id: string, queuedAt: string): TaskExecution => ({
+  id,
+  taskId: 'task-1',
+  status: 'pending',
+  trigger: 'scheduled',
+  inputParams: {},
+  queuedAt,
+  executionLogs: [],
+  toolCalls: [],
+  retryCount: 0,
+  context: {},
+})
+
+describe('ExecutionQueue', () => {
+  it('should order executions by priority, then by queue time', () => {
+    const queue = new ExecutionQueue()
+    queue.enqueue(execution('late-normal', '2025-01-01T12:00:00.000Z'), 1)
+    queue.enqueue(execution('early-normal', '2025-01-01T10:00:00.000Z'), 1)
+    expect(queue.enqueue(execution('critical', '2025-01-01T13:00:00.000Z'), 3)).toBe(0)
+    queue.enqueue(execution('low', '2025-01-01T09:00:00.000Z'), 0)
+
+    const order: string[] = []
+    for (let next = queue.dequeue(); next; next = queue.dequeue()) {
+      order.push(next.id)
+    }
+    expect(order).toEqual(['critical', 'early-normal', 'late-normal', 'low'])
+  })
+
+  it('should trim the executions that would run last', () => {
+    const queue = new ExecutionQueue()
+    queue.enqueue(execution('a', '2025-01-01T10:00:00.000Z'), 2)
+    queue.enqueue(execution('b', '2025-01-01T10:00:00.000Z'), 1)
+    queue.enqueue(execution('c', '2025-01-01T11:00:00.000Z'), 1)
+
+    expect(queue.trim(1).map(entry => entry.id)).toEqual(['b', 'c'])
+    expect(queue.trim(1)).toEqual([])
+    expect(queue.size).toBe(1)
+  })
+
+  it('should remove queued executions', () => {
+    const queue = new ExecutionQueue()
+    queue.enqueue(execution('a', 'not a date'))
+
+    expect(queue.has('a')).toBe(true)
+    expect(queue.remove('a')).toBe(true)
+    expect(queue.remove('a')).toBe(false)
+    expect(queue.size).toBe(0)
+  })
+})
@@ -0,0 +1,95 @@
+/**
+ * Execution Queue
+ *
+ * Claimed executions waiting for a free slot on this agent. Executions are
+ * ordered by priority (highest first), then by the time they were queued on
+ * the platform, so equal-priority work runs in the order it arrived.
+ */
+
+import type { TaskExecution } from './types.js'
+
+/** Priority of executions without a schedule (schedules use 0=low, 1=normal, 2=high, 3=critical) */
+export const DEFAULT_EXECUTION_PRIORITY = 1
+
+export interface QueuedExecution {
+  execution: TaskExecution
+  priority: number
+  /** Platform queue time in ms, falling back to the time it was queued here */
+  queuedAt: number
+}
+
+/**
+ * Whether a should run before b
+ */
+function runsBefore(a: QueuedExecution, b: QueuedExecution): boolean {
+  return a.priority !== b.priority ? a.priority > b.priority : a.queuedAt < b.queuedAt
+}
+
+export class ExecutionQueue {
+  /** Kept sorted, next execution to run first */
+  private entries: QueuedExecution[] = []
+
+  get size(): number {
+    return this.entries.length
+  }
+
+  has(executionId: string): boolean {
+    return this.entries.some(entry => entry.execution.id === executionId)
+  }
+
+  /**
+   * Add an execution, returning its position in the queue (0 runs next)
+   */
+  enqueue(execution: TaskExecution, priority = DEFAULT_EXECUTION_PRIORITY): number {
+    const queuedAt = Date.parse(execution.queuedAt)
+    const entry: QueuedExecution = {
+      execution,
+      priority,
+      queuedAt: Number.isNaN(queuedAt) ? Date.now() : queuedAt,
+    }
+
+    // Insert after every entry that runs before it, keeping arrival order for ties
+    let low = 0
+    let high = this.entries.length
+    while (low < high) {
+      const middle = (low + high) >> 1
+      if (runsBefore(entry, this.entries[middle] as QueuedExecution)) {
+        high = middle
+      } else {
+        low = middle + 1
+      }
+    }
+
+    this.entries.splice(low, 0, entry)
+    return low
+  }
+
+  /**
+   * Take the next execution to run
+   */
+  dequeue(): TaskExecution | undefined {
+    return this.entries.shift()?.execution
+  }
+
+  /**
+   * Remove a queued execution, e.g. when it is cancelled before it starts
+   */
+  remove(executionId: string): boolean {
+    const index = this.entries.findIndex(entry => entry.execution.id === executionId)
+    if (index === -1) {
+      return false
+    }
+    this.entries.splice(index, 1)
+    return true
+  }
+
+  /**
+   * Drop the executions that would run last until at most `limit` remain
+   */
+  trim(limit: number): TaskExecution[] {
+    if (this.entries.length <= limit) {
+      return []
+    }
+    return this.entries.splice(Math.max(0, limit)).map(entry => entry.execution)
+  }
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest'
+import { ExpressionError, evaluateExpression, interpolate, parseExpression } from './expression.js'
+
+describe('expression', () => {
+  const scope = {
+    issue: { key: 'VEAS-12', status: 'in_progress', estimate: 3, labels: ['bug', 'urgent'] },
+    issues: [{ key: 'A' }, { key: 'B' }],
+    'step-1': { result: 'ok' },
+    name: '  Veas  ',
+    count: 0,
+  }
+
+  describe('evaluateExpression', () => {
+    it.each([
+      ['1 + 2 * 3', 7],
+      ['(1 + 2) * 3', 9],
+      ['10 % 4 - 1', 1],
+      ['-issue.estimate', -3],
+      ["'a' + 'b'", 'ab'],
+      ["'Issue ' + issue.key", 'Issue VEAS-12'],
+      ['issue.estimate >= 3 && issue.status == "in_progress"', true],
+      ['count > 0 || issue.estimate > 5', false],
+      ['!count', true],
+      ['not (count > 0) and true', true],
+      ["'urgent' in issue.labels", true],
+      ["'status' in issue", true],
+      ["'VEAS' in issue.key", true],
+      ['issue.labels[1]', 'urgent'],
+      ['issues[0].key', 'A'],
+      ["issue['key']", 'VEAS-12'],
+      ['issues.length', 2],
+      ['length(issues)', 2],
+      ['issue.key.length', 7],
+      ['upper(issue.status)', 'IN_PROGRESS'],
+      ['trim(name)', 'Veas'],
+      ["startsWith(issue.key, 'VEAS')", true],
+      ["join(issue.labels, '|')", 'bug|urgent'],
+      ["default(issue.missing, 'none')", 'none'],
+      ['count > 0 ? "some" : "none"', 'none'],
+      ['[1, 2, 3]', [1, 2, 3]],
+      ['missing.deeply.nested', undefined],
+      ['context.issue.key', 'VEAS-12'],
+      ['step-1.result', 'ok'],
+    ])('should evaluate %s', (expression, expected) => {
+      expect(evaluateExpression(expression, scope)).toEqual(expected)
+    })
+
+    it('should not expose the prototype chain', () => {
+      expect(evaluateExpression('issue.constructor', scope)).toBeUndefined()
+      expect(evaluateExpression('issue.__proto__', scope)).toBeUndefined()
+      expect(evaluateExpression("issue['toString']", scope)).toBeUndefined()
+    })
+
+    it('should reject calls to anything but built-in functions', () => {
+      expect(() => evaluateExpression('issue.key.toLowerCase()', scope)).toThrow(
+        'Only built-in functions can be called',
+      )
+      expect(() => evaluateExpression('process()', scope)).toThrow("Unknown function 'process'")
+    })
+
+    it('should report the position of syntax errors', () => {
+      try {
+        parseExpression('issue.estimate >> 3')
+        expect.fail('should have thrown')
+      } catch (error) {
+        expect(error).toBeInstanceOf(ExpressionError)
+        expect((error as ExpressionError).position).toBe(16)
+        expect((error as Error).message).toContain('at position 16')
+      }
+    })
+
+    it.each(['', '1 +', "'unterminated", 'a ? b', 'a @ b'])('should reject invalid syntax: %s', expression => {
+      expect(() => parseExpression(expression)).toThrow(ExpressionError)
+    })
+  })
+
+  describe('interpolate', () => {
+    it('should keep the type of a single template', () => {
+      expect(interpolate('{{issues}}', scope)).toBe(scope.issues)
+      expect(interpolate('{{ issue.estimate * 2 }}', scope)).toBe(6)
+    })
+
+    it('should interpolate templates inside text', () => {
+      expect(interpolate('Issue {{issue.key}} is {{issue.status}}', scope)).toBe('Issue VEAS-12 is in_progress')
+    })
+
+    it('should render missing values as empty and objects as JSON', () => {
+      expect(interpolate('[{{missing}}] {{issue.labels}}', scope)).toBe('[] ["bug","urgent"]')
+    })
+
+    it('should keep Go templates and escaped templates as text', () => {
+      expect(interpolate("docker ps --format '{{.Names}}'", scope)).toBe("docker ps --format '{{.Names}}'")
+      expect(interpolate('{{ .Values.image | quote }}', scope)).toBe('{{ .Values.image | quote }}')
+      expect(interpolate('{{- .Values.name }}', scope)).toBe('{{- .Values.name }}')
+      expect(interpolate('Hello \\{{ name }}, {{issue.key}}', scope)).toBe('Hello {{ name }}, VEAS-12')
+    })
+
+    it('should throw on templates that are not valid expressions', () => {
+      expect(() => interpolate('{{ issue.estimate + }}', scope)).toThrow(
+        '{{ issue.estimate + }}: Unexpected end of expression',
+      )
+      expect(() => interpolate('Issue {{ issue.key ) }}', scope)).toThrow(ExpressionError)
+    })
+  })
+})
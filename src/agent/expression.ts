@@ -0,0 +1,552 @@
+/**
+ * Workflow Expressions
+ *
+ * A small sandboxed expression language for workflow conditions and template
+ * strings. Expressions are parsed into a tree and evaluated against the workflow
+ * context; nothing is ever handed to eval or Function.
+ */
+
+export class ExpressionError extends Error {
+  position?: number
+  /** Workflow step the expression belongs to, once known */
+  stepId?: string
+
+  constructor(message: string, position?: number) {
+    super(position === undefined ? message : `${message} (at position ${position})`)
+    this.name = 'ExpressionError'
+    this.position = position
+  }
+}
+
+export type ExpressionNode =
+  | { type: 'literal'; value: unknown }
+  | { type: 'identifier'; name: string }
+  | { type: 'member'; object: ExpressionNode; property: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[] }
+  | { type: 'array'; elements: ExpressionNode[] }
+  | { type: 'unary'; operator: string; argument: ExpressionNode }
+  | { type: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode }
+
+interface Token {
+  type: 'number' | 'string' | 'identifier' | 'operator' | 'punctuation'
+  value: string
+  position: number
+}
+
+const OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '<', '>', '+', '-', '*', '/', '%', '!', '?', ':']
+const PUNCTUATION = ['(', ')', '[', ']', '.', ',']
+const KEYWORD_OPERATORS: Record<string, string> = { and: '&&', or: '||', not: '!', in: 'in' }
+
+/** Properties that would reach into the prototype chain are never readable */
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor'])
+
+/** A template consisting of a plain dotted path, such as {{step-1.result}} */
+export const PLAIN_PATH = /^[\w$][\w$-]*(\.[\w$-]+)*$/
+
+/** A {{ }} template, or one escaped as \{{ }} to keep it as literal text */
+export const TEMPLATE = /(\\?)\{\{([\s\S]+?)\}\}/g
+
+const FUNCTIONS: Record<string, (...args: any[]) => unknown> = {
+  length: value => lengthOf(value),
+  lower: value => String(value ?? '').toLowerCase(),
+  upper: value => String(value ?? '').toUpperCase(),
+  trim: value => String(value ?? '').trim(),
+  contains: (value, search) =>
+    Array.isArray(value) ? value.includes(search) : String(value ?? '').includes(String(search)),
+  startsWith: (value, search) => String(value ?? '').startsWith(String(search)),
+  endsWith: (value, search) => String(value ?? '').endsWith(String(search)),
+  replace: (value, search, replacement) =>
+    String(value ?? '')
+      .split(String(search))
+      .join(String(replacement ?? '')),
+  split: (value, separator) => String(value ?? '').split(String(separator ?? ',')),
+  join: (value, separator) =>
+    Array.isArray(value) ? value.join(separator === undefined ? ',' : String(separator)) : '',
+  substring: (value, start, end) =>
+    String(value ?? '').substring(Number(start), end === undefined ? undefined : Number(end)),
+  string: value => (value === undefined || value === null ? '' : String(value)),
+  number: value => Number(value),
+  boolean: value => Boolean(value),
+  round: (value, digits) => {
+    const factor = 10 ** Number(digits || 0)
+    return Math.round(Number(value) * factor) / factor
+  },
+  floor: value => Math.floor(Number(value)),
+  ceil: value => Math.ceil(Number(value)),
+  abs: value => Math.abs(Number(value)),
+  min: (...values) => Math.min(...values.flat().map(Number)),
+  max: (...values) => Math.max(...values.flat().map(Number)),
+  keys: value => (isPlainObject(value) ? Object.keys(value) : []),
+  values: value => (isPlainObject(value) ? Object.values(value) : []),
+  exists: value => value !== undefined && value !== null,
+  isEmpty: value => lengthOf(value) === 0,
+  default: (value, fallback) => (value === undefined || value === null || value === '' ? fallback : value),
+}
+
+/**
+ * Split an expression into tokens
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < source.length) {
+    const char = source[i] as string
+
+    if (/\s/.test(char)) {
+      i++
+      continue
+    }
+
+    if (/[0-9]/.test(char)) {
+      const match = /^[0-9]+(\.[0-9]+)?/.exec(source.slice(i)) as RegExpExecArray
+      tokens.push({ type: 'number', value: match[0], position: i })
+      i += match[0].length
+      continue
+    }
+
+    if (char === '"' || char === "'") {
+      let value = ''
+      let j = i + 1
+      while (j < source.length && source[j] !== char) {
+        if (source[j] === '\\' && j + 1 < source.length) {
+          const escaped = source[j + 1] as string
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped
+          j += 2
+        } else {
+          value += source[j]
+          j++
+        }
+      }
+      if (j >= source.length) {
+        throw new ExpressionError('Unterminated string literal', i)
+      }
+      tokens.push({ type: 'string', value, position: i })
+      i = j + 1
+      continue
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][\w$]*/.exec(source.slice(i)) as RegExpExecArray
+      const keyword = Object.hasOwn(KEYWORD_OPERATORS, match[0]) ? KEYWORD_OPERATORS[match[0]] : undefined
+      tokens.push(
+        keyword
+          ? { type: 'operator', value: keyword, position: i }
+          : { type: 'identifier', value: match[0], position: i },
+      )
+      i += match[0].length
+      continue
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, i))
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, position: i })
+      i += operator.length
+      continue
+    }
+
+    if (PUNCTUATION.includes(char)) {
+      tokens.push({ type: 'punctuation', value: char, position: i })
+      i++
+      continue
+    }
+
+    throw new ExpressionError(`Unexpected character '${char}'`, i)
+  }
+
+  return tokens
+}
+
+/**
+ * Recursive descent parser, lowest precedence first
+ */
+class Parser {
+  private tokens: Token[]
+  private index = 0
+  private sourceLength: number
+
+  constructor(source: string) {
+    this.tokens = tokenize(source)
+    this.sourceLength = source.length
+  }
+
+  parse(): ExpressionNode {
+    if (this.tokens.length === 0) {
+      throw new ExpressionError('Empty expression')
+    }
+
+    const node = this.parseConditional()
+    const extra = this.peek()
+    if (extra) {
+      throw new ExpressionError(`Unexpected '${extra.value}'`, extra.position)
+    }
+    return node
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index]
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index++]
+    if (!token) {
+      throw new ExpressionError('Unexpected end of expression', this.sourceLength)
+    }
+    return token
+  }
+
+  private match(type: Token['type'], ...values: string[]): Token | undefined {
+    const token = this.peek()
+    if (token && token.type === type && values.includes(token.value)) {
+      this.index++
+      return token
+    }
+    return undefined
+  }
+
+  private expect(type: Token['type'], value: string): Token {
+    const token = this.next()
+    if (token.type !== type || token.value !== value) {
+      throw new ExpressionError(`Expected '${value}' but found '${token.value}'`, token.position)
+    }
+    return token
+  }
+
+  private parseConditional(): ExpressionNode {
+    const test = this.parseBinary(0)
+    if (this.match('operator', '?')) {
+      const consequent = this.parseConditional()
+      this.expect('operator', ':')
+      const alternate = this.parseConditional()
+      return { type: 'conditional', test, consequent, alternate }
+    }
+    return test
+  }
+
+  private static PRECEDENCE: string[][] = [
+    ['||'],
+    ['&&'],
+    ['==', '!=', '===', '!=='],
+    ['<', '<=', '>', '>=', 'in'],
+    ['+', '-'],
+    ['*', '/', '%'],
+  ]
+
+  private parseBinary(level: number): ExpressionNode {
+    const operators = Parser.PRECEDENCE[level]
+    if (!operators) {
+      return this.parseUnary()
+    }
+
+    let left = this.parseBinary(level + 1)
+    let token = this.match('operator', ...operators)
+    while (token) {
+      const right = this.parseBinary(level + 1)
+      left = { type: 'binary', operator: token.value, left, right }
+      token = this.match('operator', ...operators)
+    }
+    return left
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.match('operator', '!', '-')
+    if (token) {
+      return { type: 'unary', operator: token.value, argument: this.parseUnary() }
+    }
+    return this.parsePostfix()
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let node = this.parsePrimary()
+
+    while (true) {
+      if (this.match('punctuation', '.')) {
+        const property = this.next()
+        if (property.type !== 'identifier' && property.type !== 'number') {
+          throw new ExpressionError(`Expected property name after '.'`, property.position)
+        }
+        node = { type: 'member', object: node, property: { type: 'literal', value: property.value } }
+      } else if (this.match('punctuation', '[')) {
+        const property = this.parseConditional()
+        this.expect('punctuation', ']')
+        node = { type: 'member', object: node, property }
+      } else if (this.peek()?.type === 'punctuation' && this.peek()?.value === '(') {
+        throw new ExpressionError('Only built-in functions can be called', this.peek()?.position)
+      } else {
+        return node
+      }
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next()
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'literal', value: Number(token.value) }
+
+      case 'string':
+        return { type: 'literal', value: token.value }
+
+      case 'identifier': {
+        if (token.value === 'true') return { type: 'literal', value: true }
+        if (token.value === 'false') return { type: 'literal', value: false }
+        if (token.value === 'null') return { type: 'literal', value: null }
+        if (token.value === 'undefined') return { type: 'literal', value: undefined }
+
+        if (this.match('punctuation', '(')) {
+          if (!Object.hasOwn(FUNCTIONS, token.value)) {
+            throw new ExpressionError(`Unknown function '${token.value}'`, token.position)
+          }
+          const args = this.parseList(')')
+          return { type: 'call', name: token.value, args }
+        }
+
+        return { type: 'identifier', name: token.value }
+      }
+
+      case 'punctuation':
+        if (token.value === '(') {
+          const node = this.parseConditional()
+          this.expect('punctuation', ')')
+          return node
+        }
+        if (token.value === '[') {
+          return { type: 'array', elements: this.parseList(']') }
+        }
+        break
+    }
+
+    throw new ExpressionError(`Unexpected '${token.value}'`, token.position)
+  }
+
+  private parseList(closing: string): ExpressionNode[] {
+    const elements: ExpressionNode[] = []
+    if (this.match('punctuation', closing)) {
+      return elements
+    }
+
+    do {
+      elements.push(this.parseConditional())
+    } while (this.match('punctuation', ','))
+
+    this.expect('punctuation', closing)
+    return elements
+  }
+}
+
+/**
+ * Whether a value is an object other than an array or null
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function lengthOf(value: unknown): number {
+  if (typeof value === 'string' || Array.isArray(value)) return value.length
+  if (isPlainObject(value)) return Object.keys(value).length
+  return 0
+}
+
+/**
+ * Read a property without walking the prototype chain
+ */
+function getMember(object: unknown, property: unknown): unknown {
+  if (object === null || object === undefined) {
+    return undefined
+  }
+
+  const key = String(property)
+  if (BLOCKED_PROPERTIES.has(key)) {
+    return undefined
+  }
+
+  if (typeof object === 'string') {
+    if (key === 'length') return object.length
+    return /^\d+$/.test(key) ? object[Number(key)] : undefined
+  }
+
+  if (Array.isArray(object) && key === 'length') {
+    return object.length
+  }
+
+  if (typeof object === 'object' && Object.hasOwn(object, key)) {
+    return (object as Record<string, unknown>)[key]
+  }
+
+  return undefined
+}
+
+function evaluateNode(node: ExpressionNode, scope: Record<string, unknown>): unknown {
+  switch (node.type) {
+    case 'literal':
+      return node.value
+
+    case 'identifier':
+      // 'context' refers to the whole scope, for compatibility with older expressions
+      if (node.name === 'context' && !Object.hasOwn(scope, 'context')) return scope
+      return getMember(scope, node.name)
+
+    case 'member':
+      return getMember(evaluateNode(node.object, scope), evaluateNode(node.property, scope))
+
+    case 'array':
+      return node.elements.map(element => evaluateNode(element, scope))
+
+    case 'call': {
+      const fn = FUNCTIONS[node.name] as (...args: unknown[]) => unknown
+      return fn(...node.args.map(arg => evaluateNode(arg, scope)))
+    }
+
+    case 'unary': {
+      const value = evaluateNode(node.argument, scope)
+      return node.operator === '!' ? !value : -Number(value)
+    }
+
+    case 'conditional':
+      return evaluateNode(node.test, scope) ? evaluateNode(node.consequent, scope) : evaluateNode(node.alternate, scope)
+
+    case 'binary': {
+      // Short-circuit logical operators
+      if (node.operator === '&&') {
+        const left = evaluateNode(node.left, scope)
+        return left ? evaluateNode(node.right, scope) : left
+      }
+      if (node.operator === '||') {
+        const left = evaluateNode(node.left, scope)
+        return left ? left : evaluateNode(node.right, scope)
+      }
+
+      const left = evaluateNode(node.left, scope) as any
+      const right = evaluateNode(node.right, scope) as any
+
+      switch (node.operator) {
+        case '==':
+        case '===':
+          return left === right
+        case '!=':
+        case '!==':
+          return left !== right
+        case '<':
+          return left < right
+        case '<=':
+          return left <= right
+        case '>':
+          return left > right
+        case '>=':
+          return left >= right
+        case 'in':
+          if (Array.isArray(right)) return right.includes(left)
+          if (typeof right === 'string') return right.includes(String(left))
+          if (isPlainObject(right)) return Object.hasOwn(right, String(left))
+          return false
+        case '+':
+          return typeof left === 'string' || typeof right === 'string'
+            ? `${left ?? ''}${right ?? ''}`
+            : Number(left) + Number(right)
+        case '-':
+          return Number(left) - Number(right)
+        case '*':
+          return Number(left) * Number(right)
+        case '/':
+          return Number(left) / Number(right)
+        case '%':
+          return Number(left) % Number(right)
+      }
+    }
+  }
+
+  throw new ExpressionError(`Unsupported expression node: ${(node as ExpressionNode).type}`)
+}
+
+/**
+ * Parse an expression, throwing an ExpressionError on invalid syntax
+ */
+export function parseExpression(source: string): ExpressionNode {
+  return new Parser(source).parse()
+}
+
+/**
+ * Evaluate an expression against a scope of variables
+ */
+export function evaluateExpression(source: string, scope: Record<string, unknown>): unknown {
+  const trimmed = source.trim()
+
+  // Plain paths keep working for step ids that are not valid identifiers (e.g. step-1.result)
+  if (PLAIN_PATH.test(trimmed) && trimmed.includes('-')) {
+    return trimmed.split('.').reduce<unknown>((current, part) => getMember(current, part), scope)
+  }
+
+  return evaluateNode(parseExpression(trimmed), scope)
+}
+
+/**
+ * Whether the text of a template belongs to another template language, such as Go or Helm
+ *
+ * Go templates start with a field (`{{.Names}}`), optionally after a whitespace trim marker (`{{- .Values }}`).
+ */
+export function isForeignTemplate(source: string): boolean {
+  return /^\s*(?:-\s+)?\./.test(source)
+}
+
+/**
+ * Evaluate the text of a template, naming the template in any ExpressionError
+ */
+function evaluateTemplate(source: string, scope: Record<string, unknown>): unknown {
+  try {
+    return evaluateExpression(source, scope)
+  } catch (error) {
+    if (!(error instanceof ExpressionError)) throw error
+    const templateError = new ExpressionError(`{{${source}}}: ${error.message}`)
+    templateError.position = error.position
+    throw templateError
+  }
+}
+
+/**
+ * Resolve {{ }} templates in a string
+ *
+ * A string that is a single template keeps the type of the expression result;
+ * otherwise every template is evaluated and interpolated into the string.
+ * Go and Helm templates are kept as they are, and `\{{ }}` is kept as literal
+ * `{{ }}` text. Any other template that isn't a valid expression throws an ExpressionError.
+ */
+export function interpolate(template: string, scope: Record<string, unknown>): unknown {
+  const whole = /^\{\{([\s\S]+?)\}\}$/.exec(template)
+  if (whole && !whole[1]?.includes('{{')) {
+    const source = whole[1] as string
+    return isForeignTemplate(source) ? template : evaluateTemplate(source, scope)
+  }
+
+  return template.replace(TEMPLATE, (match, escaped: string, expression: string) => {
+    if (escaped) return match.slice(1)
+    if (isForeignTemplate(expression)) return match
+    const value = evaluateTemplate(expression, scope)
+    if (value === undefined || value === null) return ''
+    return typeof value === 'object' ? JSON.stringify(value) : String(value)
+  })
+}
+
+/**
+ * Resolve templates in every string of a value, recursing into arrays and objects
+ */
+export function resolveTemplates(value: unknown, scope: Record<string, unknown>): unknown {
+  if (typeof value === 'string') {
+    return value.includes('{{') ? interpolate(value, scope) : value
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => resolveTemplates(item, scope))
+  }
+
+  if (isPlainObject(value)) {
+    const resolved: Record<string, unknown> = {}
+    for (const [key, item] of Object.entries(value)) {
+      resolved[key] = resolveTemplates(item, scope)
+    }
+    return resolved
+  }
+
+  return value
+}
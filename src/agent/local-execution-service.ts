@@ -0,0 +1,100 @@
+/**
+ * Local Execution Service
+ *
+ * Keeps executions in memory instead of the platform, so workflows can run
+ * without a backend (`veas task run`). Every log entry is passed to a listener
+ * as it is written, which is how the command prints its trace.
+ */
+
+import type { ExecutionService } from './task-executor.js'
+import type { ExecutionLog, TaskExecution, ToolCall } from './types.js'
+
+export type ExecutionLogListener = (executionId: string, log: ExecutionLog) => void
+
+export class LocalExecutionService implements ExecutionService {
+  /** `veas exec approve` decides approvals on the platform, which never sees local executions */
+  readonly supportsApprovals = false
+  private executions: Map<string, TaskExecution> = new Map()
+  private nextId = 1
+  private onLog?: ExecutionLogListener
+
+  constructor(onLog?: ExecutionLogListener) {
+    this.onLog = onLog
+  }
+
+  /**
+   * Create an execution in memory
+   */
+  async createExecution(execution: Partial<TaskExecution> & Pick<TaskExecution, 'taskId'>): Promise<TaskExecution> {
+    const created: TaskExecution = {
+      id: `local-${this.nextId++}`,
+      status: 'pending',
+      trigger: 'manual',
+      inputParams: {},
+      queuedAt: new Date().toISOString(),
+      executionLogs: [],
+      toolCalls: [],
+      retryCount: 0,
+      context: {},
+      ...execution,
+    }
+    this.executions.set(created.id, created)
+    return created
+  }
+
+  /**
+   * Get an execution created by this service
+   */
+  getExecution(executionId: string): TaskExecution | undefined {
+    return this.executions.get(executionId)
+  }
+
+  async updateExecutionStatus(
+    executionId: string,
+    status: TaskExecution['status'],
+    updates: Partial<TaskExecution> = {},
+  ): Promise<void> {
+    const execution = this.executions.get(executionId)
+    if (execution) {
+      Object.assign(execution, updates, { status })
+    }
+  }
+
+  async updateExecutionContext(executionId: string, context: Record<string, unknown>): Promise<void> {
+    const execution = this.executions.get(executionId)
+    if (execution) {
+      execution.context = context
+    }
+  }
+
+  async getExecutionContext(executionId: string): Promise<Record<string, unknown>> {
+    return this.executions.get(executionId)?.context || {}
+  }
+
+  /**
+   * Nothing is left running between local runs
+   */
+  async findOrphanedExecutions(): Promise<TaskExecution[]> {
+    return []
+  }
+
+  /**
+   * Local executions are never queued, so there is nothing to give back
+   */
+  async releaseExecution(_executionId: string): Promise<void> {}
+
+  async recordToolCall(executionId: string, toolCall: ToolCall): Promise<void> {
+    this.executions.get(executionId)?.toolCalls.push(toolCall)
+  }
+
+  async addExecutionLog(
+    executionId: string,
+    level: ExecutionLog['level'],
+    message: string,
+    data?: Record<string, unknown>,
+  ): Promise<void> {
+    const log: ExecutionLog = { timestamp: new Date().toISOString(), level, message, data }
+    this.executions.get(executionId)?.executionLogs.push(log)
+    this.onLog?.(executionId, log)
+  }
+}
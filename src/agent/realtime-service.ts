@@ -6,13 +6,19 @@
 
 import { createClient } from '@supabase/supabase-js'
 import { logger } from '../utils/logger.js'
-import type { AgentConfig, TaskExecution } from './types.js'
+import type { AgentConfig, TaskExecution, ToolCall } from './types.js'
+
+/** How long a released execution is left for other destinations before this one claims it again */
+const RELEASE_COOLDOWN_MS = 5 * 60 * 1000
 
 export class RealtimeService {
   private supabase: any
   private destinationId: string | null = null
   private onTaskAssigned: (execution: TaskExecution) => void
+  private onExecutionCancelled?: (executionId: string) => void
   private verbose: boolean = false
+  /** Executions this agent gave back, with the time they were released */
+  private releasedExecutions: Map<string, number> = new Map()
 
   constructor(config: AgentConfig, onTaskAssigned: (execution: TaskExecution) => void) {
     this.onTaskAssigned = onTaskAssigned
@@ -53,6 +59,13 @@ export class RealtimeService {
     }
   }
 
+  /**
+   * Set the handler called when an execution assigned to this agent is cancelled
+   */
+  setExecutionCancelledHandler(onExecutionCancelled: (executionId: string) => void) {
+    this.onExecutionCancelled = onExecutionCancelled
+  }
+
   /**
    * Start listening for task assignments
    */
@@ -131,6 +144,7 @@ export class RealtimeService {
                 const taskExecution: TaskExecution = {
                   id: execution.id,
                   taskId: execution.task_id,
+                  scheduleId: execution.schedule_id,
                   trigger: execution.trigger || 'manual',
                   status: execution.status,
                   queuedAt: execution.queued_at,
@@ -146,6 +160,9 @@ export class RealtimeService {
                 }
 
                 this.onTaskAssigned(taskExecution)
+              } else if (payload.eventType === 'UPDATE' && execution?.status === 'cancelled') {
+                logger.info(`⏹️ Realtime: Execution cancelled: ${execution.id}`)
+                this.onExecutionCancelled?.(execution.id)
               }
             }
           },
@@ -214,7 +231,7 @@ export class RealtimeService {
    */
   private async handlePendingTask(execution: TaskExecution) {
     const exec = execution as any
-    if (!exec || exec.destination_id) return
+    if (!exec || exec.destination_id || this.wasRecentlyReleased(exec.id)) return
 
     logger.debug(`Found pending task without destination: ${exec.id}`)
 
@@ -305,6 +322,10 @@ export class RealtimeService {
         if (agentExecutions?.length > 0) {
           logger.info(`Found ${agentExecutions.length} executions in agents schema`)
           for (const execution of agentExecutions) {
+            if (this.wasRecentlyReleased(execution.id)) {
+              continue
+            }
+
             if (this.verbose) {
               logger.info(`[VERBOSE] Processing execution:`)
               logger.info(`[VERBOSE]   ID: ${execution.id}`)
@@ -339,6 +360,7 @@ export class RealtimeService {
                   const taskExecution: TaskExecution = {
                     id: claimedExecution.id,
                     taskId: claimedExecution.task_id,
+                    scheduleId: claimedExecution.schedule_id,
                     trigger: claimedExecution.trigger || 'manual',
                     status: claimedExecution.status,
                     queuedAt: claimedExecution.queued_at,
@@ -368,6 +390,7 @@ export class RealtimeService {
                 const taskExecution: TaskExecution = {
                   id: execution.id,
                   taskId: execution.task_id,
+                  scheduleId: execution.schedule_id,
                   trigger: execution.trigger || 'manual',
                   status: execution.status,
                   queuedAt: execution.queued_at,
@@ -453,30 +476,28 @@ export class RealtimeService {
     status: TaskExecution['status'],
     updates: Partial<TaskExecution> = {},
   ): Promise<void> {
+    const row: Record<string, unknown> = {
+      status,
+      ...toExecutionRow(updates),
+    }
+    if (status === 'running' && !row.started_at) {
+      row.started_at = new Date().toISOString()
+    }
+    if (status === 'completed' || status === 'failed' || status === 'timeout' || status === 'cancelled') {
+      row.completed_at = new Date().toISOString()
+    }
+
     try {
       // Try to update in agents schema first
       const { error: agentsError } = await this.supabase
         .schema('agents')
         .from('executions')
-        .update({
-          status,
-          ...updates,
-          ...(status === 'running' && !(updates as any).started_at ? { started_at: new Date().toISOString() } : {}),
-          ...(status === 'completed' || status === 'failed' ? { completed_at: new Date().toISOString() } : {}),
-        })
+        .update(row)
         .eq('id', executionId)
 
       if (agentsError) {
         // Fallback to default schema
-        const { error } = await this.supabase
-          .from('executions')
-          .update({
-            status,
-            ...updates,
-            ...(status === 'running' && !(updates as any).started_at ? { started_at: new Date().toISOString() } : {}),
-            ...(status === 'completed' || status === 'failed' ? { completed_at: new Date().toISOString() } : {}),
-          })
-          .eq('id', executionId)
+        const { error } = await this.supabase.from('executions').update(row).eq('id', executionId)
 
         if (error) {
           logger.error(`Failed to update execution status: ${error.message}`)
@@ -489,6 +510,175 @@ export class RealtimeService {
     }
   }
 
+  /**
+   * Create a new execution on this destination, e.g. a retry or child of another execution
+   */
+  async createExecution(execution: Partial<TaskExecution> & Pick<TaskExecution, 'taskId'>): Promise<TaskExecution> {
+    const now = new Date().toISOString()
+    const row = {
+      status: 'pending',
+      trigger: 'manual',
+      input_params: {},
+      retry_count: 0,
+      destination_id: this.destinationId,
+      queued_at: now,
+      assigned_at: now,
+      claimed_at: now,
+      ...toExecutionRow(execution),
+    }
+
+    const { data, error } = await this.supabase.schema('agents').from('executions').insert(row).select().single()
+
+    if (error || !data) {
+      logger.error(`Failed to create execution: ${error?.message}`)
+      throw new Error(
+        `Failed to create execution for task ${execution.taskId}: ${error?.message || 'no data returned'}`,
+      )
+    }
+
+    return fromExecutionRow(data)
+  }
+
+  /**
+   * Save the execution's context, e.g. a workflow checkpoint
+   */
+  async updateExecutionContext(executionId: string, context: Record<string, unknown>): Promise<void> {
+    const { error: agentsError } = await this.supabase
+      .schema('agents')
+      .from('executions')
+      .update({ context })
+      .eq('id', executionId)
+
+    if (agentsError) {
+      // Fallback to default schema
+      const { error } = await this.supabase.from('executions').update({ context }).eq('id', executionId)
+
+      if (error) {
+        logger.error(`Failed to update execution context: ${error.message}`)
+        throw error
+      }
+    }
+  }
+
+  /**
+   * Read the execution's current context
+   */
+  async getExecutionContext(executionId: string): Promise<Record<string, unknown>> {
+    const { data, error } = await this.supabase
+      .schema('agents')
+      .from('executions')
+      .select('context')
+      .eq('id', executionId)
+      .single()
+
+    if (error) {
+      logger.error(`Failed to fetch execution context: ${error.message}`)
+      throw error
+    }
+
+    return data?.context || {}
+  }
+
+  /**
+   * Find executions this destination left running, e.g. because the agent was killed
+   *
+   * Only executions started before `startedBefore` are returned, so the ones
+   * this agent process has started itself are left alone.
+   */
+  async findOrphanedExecutions(startedBefore: Date): Promise<TaskExecution[]> {
+    const { data, error } = await this.supabase
+      .schema('agents')
+      .from('executions')
+      .select('*')
+      .eq('destination_id', this.destinationId)
+      .in('status', ['running', 'waiting', 'retrying'])
+      .lt('started_at', startedBefore.toISOString())
+      .order('started_at', { ascending: true })
+
+    if (error) {
+      logger.error(`Failed to find orphaned executions: ${error.message}`)
+      throw error
+    }
+
+    return (data || []).map(fromExecutionRow)
+  }
+
+  /**
+   * Give a claimed execution back to the pool so another destination can run it
+   *
+   * Only pending executions claimed by this destination are released. This agent
+   * won't claim the execution again for a while, so others get a chance to.
+   */
+  async releaseExecution(executionId: string): Promise<void> {
+    this.releasedExecutions.set(executionId, Date.now())
+
+    const { error } = await this.supabase
+      .schema('agents')
+      .from('executions')
+      .update({ destination_id: null, assigned_at: null, claimed_at: null })
+      .eq('id', executionId)
+      .eq('destination_id', this.destinationId)
+      .eq('status', 'pending')
+
+    if (error) {
+      logger.error(`Failed to release execution ${executionId}: ${error.message}`)
+    } else {
+      logger.info(`Released execution ${executionId}`)
+    }
+  }
+
+  /**
+   * Whether this agent released the execution within the cooldown
+   */
+  private wasRecentlyReleased(executionId: string): boolean {
+    const releasedAt = this.releasedExecutions.get(executionId)
+    if (releasedAt === undefined) {
+      return false
+    }
+    if (Date.now() - releasedAt > RELEASE_COOLDOWN_MS) {
+      this.releasedExecutions.delete(executionId)
+      return false
+    }
+    return true
+  }
+
+  /**
+   * Record a tool call on the execution
+   */
+  async recordToolCall(executionId: string, toolCall: ToolCall): Promise<void> {
+    try {
+      // Get current tool calls
+      const { data: execution, error: fetchError } = await this.supabase
+        .from('executions')
+        .select('tool_calls')
+        .eq('id', executionId)
+        .single()
+
+      if (fetchError) {
+        logger.error(`Failed to fetch execution: ${fetchError.message}`)
+        return
+      }
+
+      const toolCalls = execution?.tool_calls || []
+      toolCalls.push(toolCall)
+
+      // Update tool calls and count
+      const { error: updateError } = await this.supabase
+        .from('executions')
+        .update({
+          tool_calls: toolCalls,
+          tool_calls_count: toolCalls.length,
+        })
+        .eq('id', executionId)
+
+      if (updateError) {
+        logger.error(`Failed to record tool call: ${updateError.message}`)
+      }
+    } catch (error) {
+      logger.error('Error recording tool call:', error)
+    }
+  }
+
   /**
    * Add execution log
    */
@@ -563,3 +753,39 @@ export class RealtimeService {
     }
   }
 }
+
+/**
+ * Map an executions row to the TaskExecution shape
+ */
+function fromExecutionRow(row: any): TaskExecution {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    scheduleId: row.schedule_id,
+    destinationId: row.destination_id,
+    trigger: row.trigger || 'manual',
+    triggerSource: row.trigger_source,
+    status: row.status,
+    queuedAt: row.queued_at,
+    startedAt: row.started_at,
+    inputParams: row.input_params || {},
+    executionLogs: row.execution_logs || [],
+    toolCalls: row.tool_calls || [],
+    retryCount: row.retry_count || 0,
+    parentExecutionId: row.parent_execution_id,
+    context: row.context || {},
+  }
+}
+
+/**
+ * Convert TaskExecution fields to executions columns (camelCase to snake_case)
+ */
+function toExecutionRow(updates: Partial<TaskExecution>): Record<string, unknown> {
+  const row: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(updates)) {
+    if (value !== undefined) {
+      row[key.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`)] = value
+    }
+  }
+  return row
+}
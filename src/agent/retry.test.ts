@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { ExpressionError } from './expression.js'
+import {
+  getBackoffDelayMs,
+  getExecutionRetryPolicy,
+  getStepRetryPolicy,
+  isRetryableError,
+  nonRetryable,
+} from './retry.js'
+import type { Task } from './types.js'
+
+describe('retry', () => {
+  describe('getBackoffDelayMs', () => {
+    const policy = getStepRetryPolicy({
+      id: 's',
+      name: 'S',
+      type: 'tool',
+      retryPolicy: { maxAttempts: 5, backoffSeconds: 2, backoffMultiplier: 3, maxBackoffSeconds: 10, jitter: 0 },
+    })!
+
+    it('should grow exponentially up to the maximum', () => {
+      expect([1, 2, 3, 4].map(retry => getBackoffDelayMs(policy, retry))).toEqual([2000, 6000, 10000, 10000])
+    })
+
+    it('should apply jitter around the delay', () => {
+      const jittered = { ...policy, jitter: 0.5 }
+      expect(getBackoffDelayMs(jittered, 1, () => 0)).toBe(1000)
+      expect(getBackoffDelayMs(jittered, 1, () => 1)).toBe(3000)
+    })
+  })
+
+  describe('policies', () => {
+    it('should treat retryOnFailure as one immediate retry', () => {
+      expect(getStepRetryPolicy({ id: 's', name: 'S', type: 'tool', retryOnFailure: true })).toMatchObject({
+        maxAttempts: 2,
+        backoffSeconds: 0,
+      })
+      expect(getStepRetryPolicy({ id: 's', name: 'S', type: 'tool' })).toBeNull()
+    })
+
+    it('should fall back to maxRetries for executions', () => {
+      expect(getExecutionRetryPolicy({ maxRetries: 2, configuration: {} } as Task)).toMatchObject({ maxAttempts: 3 })
+      expect(getExecutionRetryPolicy({ maxRetries: 0, configuration: {} } as Task)).toBeNull()
+    })
+  })
+
+  describe('isRetryableError', () => {
+    it.each([
+      [new Error('socket hang up'), true],
+      [Object.assign(new Error('Too many requests'), { status: 429 }), true],
+      [Object.assign(new Error('Bad gateway'), { status: 502 }), true],
+      [Object.assign(new Error('Forbidden'), { statusCode: 403 }), false],
+      [new ExpressionError('Unexpected token'), false],
+      [nonRetryable(new Error('Unknown step type: x')), false],
+    ])('should classify %s', (error, expected) => {
+      expect(isRetryableError(error)).toBe(expected)
+    })
+
+    it('should honor the policy error lists', () => {
+      const timeout = Object.assign(new Error('Request timed out'), { code: 'ETIMEDOUT' })
+      expect(isRetryableError(timeout, { retryableErrors: ['ETIMEDOUT'] })).toBe(true)
+      expect(isRetryableError(new Error('boom'), { retryableErrors: ['ETIMEDOUT'] })).toBe(false)
+      expect(isRetryableError(timeout, { nonRetryableErrors: ['timed out'] })).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,148 @@
+/**
+ * Retry Policies
+ *
+ * Backoff and retryable-error classification shared by step retries and
+ * execution retries.
+ */
+
+import { ExpressionError } from './expression.js'
+import type { RetryPolicy, Task, WorkflowStep } from './types.js'
+
+const DEFAULT_BACKOFF_MULTIPLIER = 2
+const DEFAULT_MAX_BACKOFF_SECONDS = 300
+const DEFAULT_JITTER = 0.1
+
+export type ResolvedRetryPolicy = Required<Omit<RetryPolicy, 'retryableErrors' | 'nonRetryableErrors'>> &
+  Pick<RetryPolicy, 'retryableErrors' | 'nonRetryableErrors'>
+
+function normalizePolicy(policy: Partial<RetryPolicy>): ResolvedRetryPolicy {
+  return {
+    maxAttempts: Math.max(1, Math.floor(policy.maxAttempts ?? 1)),
+    backoffSeconds: Math.max(0, policy.backoffSeconds ?? 0),
+    backoffMultiplier: policy.backoffMultiplier ?? DEFAULT_BACKOFF_MULTIPLIER,
+    maxBackoffSeconds: policy.maxBackoffSeconds ?? DEFAULT_MAX_BACKOFF_SECONDS,
+    jitter: Math.min(1, Math.max(0, policy.jitter ?? DEFAULT_JITTER)),
+    retryableErrors: policy.retryableErrors,
+    nonRetryableErrors: policy.nonRetryableErrors,
+  }
+}
+
+/**
+ * Retry policy for a workflow step
+ *
+ * `retryOnFailure` without a policy keeps its old meaning: one immediate retry.
+ */
+export function getStepRetryPolicy(step: WorkflowStep): ResolvedRetryPolicy | null {
+  if (step.retryPolicy) {
+    return normalizePolicy(step.retryPolicy)
+  }
+  if (step.retryOnFailure) {
+    return normalizePolicy({ maxAttempts: 2, backoffSeconds: 0, jitter: 0 })
+  }
+  return null
+}
+
+/**
+ * Retry policy for a whole execution
+ *
+ * Uses `configuration.retryPolicy`, falling back to `maxRetries` with the default backoff.
+ */
+export function getExecutionRetryPolicy(task: Task): ResolvedRetryPolicy | null {
+  if (task.configuration?.retryPolicy) {
+    return normalizePolicy(task.configuration.retryPolicy)
+  }
+  if (task.maxRetries > 0) {
+    return normalizePolicy({ maxAttempts: task.maxRetries + 1, backoffSeconds: 1 })
+  }
+  return null
+}
+
+/**
+ * Delay before the given retry (1 for the first retry), in milliseconds
+ */
+export function getBackoffDelayMs(
+  policy: ResolvedRetryPolicy,
+  retry: number,
+  random: () => number = Math.random,
+): number {
+  const seconds = Math.min(
+    policy.backoffSeconds * policy.backoffMultiplier ** Math.max(0, retry - 1),
+    policy.maxBackoffSeconds,
+  )
+  // Spread retries by up to ±jitter so failing executions don't retry in lockstep
+  const jittered = seconds * (1 + policy.jitter * (2 * random() - 1))
+  return Math.max(0, Math.round(jittered * 1000))
+}
+
+function matchesAny(error: unknown, patterns: string[]): boolean {
+  const code = String((error as any)?.code ?? '')
+  const message = error instanceof Error ? error.message : String(error)
+  return patterns.some(pattern => pattern === code || message.toLowerCase().includes(pattern.toLowerCase()))
+}
+
+/**
+ * Decide whether an error is worth another attempt
+ *
+ * Errors can opt out explicitly with `retryable: false`. Otherwise the policy's
+ * lists win, then client errors (HTTP 4xx other than 408 and 429) are treated as
+ * permanent and anything else is retried.
+ */
+export function isRetryableError(
+  error: unknown,
+  policy?: Pick<RetryPolicy, 'retryableErrors' | 'nonRetryableErrors'>,
+): boolean {
+  const retryable = (error as any)?.retryable
+  if (typeof retryable === 'boolean') {
+    return retryable
+  }
+
+  // A broken expression fails the same way every time
+  if (error instanceof ExpressionError) {
+    return false
+  }
+
+  if (policy?.nonRetryableErrors && matchesAny(error, policy.nonRetryableErrors)) {
+    return false
+  }
+  if (policy?.retryableErrors) {
+    return matchesAny(error, policy.retryableErrors)
+  }
+
+  const status = Number((error as any)?.status ?? (error as any)?.statusCode)
+  if (status >= 400 && status < 500) {
+    return status === 408 || status === 429
+  }
+
+  // Network errors, timeouts and server errors are usually transient
+  return true
+}
+
+/**
+ * Mark an error as permanent so no retry policy retries it
+ */
+export function nonRetryable<T extends Error>(error: T): T {
+  ;(error as any).retryable = false
+  return error
+}
+
+/**
+ * Wait before a retry; rejects with the abort reason if the signal fires first
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
@@ -0,0 +1,1091 @@
+/**
+ * Tests for the agent Task Executor workflow engine
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { TaskExecutor } from './task-executor.js'
+import type { Task, TaskExecution, WorkflowStep } from './types.js'
+
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: vi.fn(() => mockSupabase),
+}))
+
+const mockSupabase: any = {
+  from: vi.fn(() => mockSupabase),
+  select: vi.fn(() => mockSupabase),
+  update: vi.fn(() => mockSupabase),
+  eq: vi.fn(() => mockSupabase),
+  limit: vi.fn(() => Promise.resolve({ data: [], error: null })),
+  single: vi.fn(() => Promise.resolve({ data: { tool_calls: [] }, error: null })),
+}
+
+describe('TaskExecutor (agent)', () => {
+  let realtimeService: any
+  let mcpClient: any
+  let executor: TaskExecutor
+
+  const execution: TaskExecution = {
+    id: 'exec-1',
+    taskId: 'task-1',
+    status: 'pending',
+    trigger: 'manual',
+    inputParams: {},
+    queuedAt: new Date().toISOString(),
+    executionLogs: [],
+    toolCalls: [],
+    retryCount: 0,
+    context: {},
+  }
+
+  const makeTask = (workflow: WorkflowStep[]): Task =>
+    ({
+      id: 'task-1',
+      name: 'Test Task',
+      workflow,
+      configuration: {},
+    }) as unknown as Task
+
+  const runWorkflow = (workflow: WorkflowStep[], inputParams: Record<string, unknown> = {}) =>
+    (executor as any).executeTaskWorkflow({ ...execution, inputParams }, makeTask(workflow))
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    realtimeService = {
+      addExecutionLog: vi.fn().mockResolvedValue(undefined),
+      updateExecutionStatus: vi.fn().mockResolvedValue(undefined),
+      createExecution: vi.fn(),
+      updateExecutionContext: vi.fn().mockResolvedValue(undefined),
+      findOrphanedExecutions: vi.fn().mockResolvedValue([]),
+      getExecutionContext: vi.fn().mockResolvedValue({}),
+      recordToolCall: vi.fn().mockResolvedValue(undefined),
+      releaseExecution: vi.fn().mockResolvedValue(undefined),
+    }
+    mcpClient = {
+      callTool: vi.fn(async (_tool: string, params: any) => ({ echoed: params })),
+    }
+
+    executor = new TaskExecutor(realtimeService, mcpClient, 'http://localhost:54321', 'anon-key')
+  })
+
+  describe('loop steps', () => {
+    it('should run nested steps once per item and collect results', async () => {
+      const result = await runWorkflow(
+        [
+          {
+            id: 'each_issue',
+            name: 'Each issue',
+            type: 'loop',
+            loop: {
+              items: '{{issues}}',
+              steps: [{ id: 'touch', name: 'Touch', type: 'tool', tool: 'get_issue', params: { id: '{{item.id}}' } }],
+            },
+          },
+        ],
+        { issues: [{ id: 'a' }, { id: 'b' }] },
+      )
+
+      expect(mcpClient.callTool).toHaveBeenCalledTimes(2)
+      expect(mcpClient.callTool).toHaveBeenNthCalledWith(1, 'get_issue', { id: 'a' }, expect.anything())
+      expect(mcpClient.callTool).toHaveBeenNthCalledWith(2, 'get_issue', { id: 'b' }, expect.anything())
+      expect(result).toEqual([{ echoed: { id: 'a' } }, { echoed: { id: 'b' } }])
+    })
+
+    it('should bind custom item and index variables', async () => {
+      await runWorkflow([
+        {
+          id: 'each',
+          name: 'Each',
+          type: 'loop',
+          loop: {
+            items: ['x', 'y'],
+            itemVariable: 'name',
+            indexVariable: 'position',
+            steps: [{ id: 's', name: 'S', type: 'tool', tool: 't', params: { n: '{{name}}', i: '{{position}}' } }],
+          },
+        },
+      ])
+
+      expect(mcpClient.callTool).toHaveBeenNthCalledWith(2, 't', { n: 'y', i: 1 }, expect.anything())
+    })
+
+    it('should fail when items exceed maxIterations', async () => {
+      await expect(
+        runWorkflow([
+          {
+            id: 'each',
+            name: 'Each',
+            type: 'loop',
+            loop: { items: [1, 2, 3], maxIterations: 2, steps: [{ id: 's', name: 'S', type: 'tool', tool: 't' }] },
+          },
+        ]),
+      ).rejects.toThrow('exceeding the limit of 2 iterations')
+      expect(mcpClient.callTool).not.toHaveBeenCalled()
+    })
+
+    it('should fail when items do not resolve to an array', async () => {
+      await expect(
+        runWorkflow([
+          {
+            id: 'each',
+            name: 'Each',
+            type: 'loop',
+            loop: { items: '{{missing}}', steps: [{ id: 's', name: 'S', type: 'tool', tool: 't' }] },
+          },
+        ]),
+      ).rejects.toThrow('did not resolve to an array')
+    })
+  })
+
+  describe('parallel steps', () => {
+    const branch = (id: string, tool: string, extra: Record<string, unknown> = {}) => ({
+      id,
+      steps: [{ id: `${id}_call`, name: `${id} call`, type: 'tool' as const, tool }],
+      ...extra,
+    })
+
+    it('should run branches and return results keyed by branch id', async () => {
+      const result = await runWorkflow([
+        {
+          id: 'fanout',
+          name: 'Fan out',
+          type: 'parallel',
+          parallel: { branches: [branch('projects', 'list_my_projects'), branch('issues', 'list_my_issues')] },
+        },
+      ])
+
+      expect(result).toEqual({ projects: { echoed: {} }, issues: { echoed: {} } })
+      expect(realtimeService.addExecutionLog).toHaveBeenCalledWith(
+        'exec-1',
+        'debug',
+        'Starting parallel branch: projects',
+        expect.objectContaining({ branchId: 'projects' }),
+      )
+    })
+
+    it('should not exceed the concurrency limit', async () => {
+      let running = 0
+      let maxRunning = 0
+      mcpClient.callTool.mockImplementation(async () => {
+        running++
+        maxRunning = Math.max(maxRunning, running)
+        await new Promise(resolve => setTimeout(resolve, 5))
+        running--
+        return 'ok'
+      })
+
+      await runWorkflow([
+        {
+          id: 'fanout',
+          name: 'Fan out',
+          type: 'parallel',
+          parallel: { concurrency: 2, branches: ['a', 'b', 'c', 'd', 'e'].map(id => branch(id, 't')) },
+        },
+      ])
+
+      expect(mcpClient.callTool).toHaveBeenCalledTimes(5)
+      expect(maxRunning).toBe(2)
+    })
+
+    it('should record errors of branches that continue on error', async () => {
+      mcpClient.callTool.mockImplementation(async (tool: string) => {
+        if (tool === 'broken') throw new Error('boom')
+        return 'ok'
+      })
+
+      const result = await runWorkflow([
+        {
+          id: 'fanout',
+          name: 'Fan out',
+          type: 'parallel',
+          parallel: { branches: [branch('good', 't'), branch('bad', 'broken', { continueOnError: true })] },
+        },
+      ])
+
+      expect(result).toEqual({ good: 'ok', bad: { error: 'boom' } })
+      expect(realtimeService.addExecutionLog).toHaveBeenCalledWith(
+        'exec-1',
+        'warning',
+        'Parallel branch failed: bad',
+        expect.objectContaining({ error: 'boom' }),
+      )
+    })
+
+    it('should fail the step when a branch fails', async () => {
+      mcpClient.callTool.mockImplementation(async (tool: string) => {
+        if (tool === 'broken') throw new Error('boom')
+        return 'ok'
+      })
+
+      await expect(
+        runWorkflow([
+          {
+            id: 'fanout',
+            name: 'Fan out',
+            type: 'parallel',
+            parallel: { branches: [branch('good', 't'), branch('bad', 'broken')] },
+          },
+        ]),
+      ).rejects.toThrow('Parallel step fanout failed: branch bad failed: boom')
+      expect(mcpClient.callTool).toHaveBeenCalledWith('t', {}, expect.anything())
+    })
+  })
+
+  describe('control flow', () => {
+    const tool = (id: string, extra: Partial<WorkflowStep> = {}): WorkflowStep => ({
+      id,
+      name: id,
+      type: 'tool',
+      tool: id,
+      ...extra,
+    })
+
+    const calledTools = () => mcpClient.callTool.mock.calls.map((call: any[]) => call[0])
+
+    it('should pick the branch from a condition result', async () => {
+      const workflow = (count: number): WorkflowStep[] => [
+        {
+          id: 'has_issues',
+          name: 'Has issues',
+          type: 'condition',
+          condition: { type: 'comparison', left: count, operator: '>', right: 0 },
+          onSuccess: 'triage',
+          onFailure: 'idle',
+        },
+        tool('triage', { onSuccess: 'end' }),
+        tool('idle'),
+      ]
+
+      await runWorkflow(workflow(3))
+      expect(calledTools()).toEqual(['triage'])
+
+      mcpClient.callTool.mockClear()
+      await runWorkflow(workflow(0))
+      expect(calledTools()).toEqual(['idle'])
+    })
+
+    it('should jump to the onFailure target and expose the error', async () => {
+      mcpClient.callTool.mockImplementation(async (name: string, params: any) => {
+        if (name === 'deploy') throw new Error('deploy failed')
+        return params
+      })
+
+      const result = await runWorkflow([
+        tool('deploy', { onFailure: 'notify' }),
+        tool('skipped'),
+        tool('notify', { params: { message: '{{deploy.error}}' } }),
+      ])
+
+      expect(calledTools()).toEqual(['deploy', 'notify'])
+      expect(result).toEqual({ message: 'deploy failed' })
+    })
+
+    it('should allow jumping backwards', async () => {
+      let attempts = 0
+      mcpClient.callTool.mockImplementation(async () => ({ done: ++attempts >= 3 }))
+
+      await runWorkflow([
+        tool('poll'),
+        {
+          id: 'check',
+          name: 'Check',
+          type: 'condition',
+          condition: { type: 'comparison', left: '{{poll.done}}', operator: '==', right: true },
+          onFailure: 'poll',
+        },
+      ])
+
+      expect(attempts).toBe(3)
+    })
+
+    it('should fail on unknown jump targets', async () => {
+      await expect(runWorkflow([tool('a', { onSuccess: 'missing' })])).rejects.toThrow(
+        'Workflow step a jumps to unknown step: missing',
+      )
+    })
+
+    it('should abort infinite cycles using the step budget', async () => {
+      const task = makeTask([tool('a', { onSuccess: 'b' }), tool('b', { onSuccess: 'a' })])
+      task.configuration = { maxStepExecutions: 10 }
+
+      await expect((executor as any).executeTaskWorkflow(execution, task)).rejects.toThrow(
+        'Workflow exceeded its budget of 10 step executions',
+      )
+      expect(mcpClient.callTool).toHaveBeenCalledTimes(10)
+    })
+  })
+
+  describe('expressions', () => {
+    it('should evaluate expression conditions against the context', async () => {
+      const result = await runWorkflow(
+        [
+          {
+            id: 'check',
+            name: 'Check',
+            type: 'condition',
+            condition: { type: 'expression', expression: "length(issues) > 1 && 'bug' in labels" },
+          },
+        ],
+        { issues: [1, 2], labels: ['bug'] },
+      )
+
+      expect(result).toBe(true)
+    })
+
+    it('should interpolate templates inside tool params', async () => {
+      await runWorkflow(
+        [
+          {
+            id: 'notify',
+            name: 'Notify',
+            type: 'tool',
+            tool: 'mcp-chat_send_message',
+            params: { content: 'Issue {{issue.key}} is {{issue.status}}', count: '{{issue.points + 1}}' },
+          },
+        ],
+        { issue: { key: 'VEAS-1', status: 'done', points: 2 } },
+      )
+
+      expect(mcpClient.callTool).toHaveBeenCalledWith(
+        'mcp-chat_send_message',
+        { content: 'Issue VEAS-1 is done', count: 3 },
+        expect.anything(),
+      )
+    })
+
+    it('should point syntax errors at the offending step', async () => {
+      await expect(
+        runWorkflow([
+          {
+            id: 'broken_check',
+            name: 'Broken',
+            type: 'condition',
+            condition: { type: 'expression', expression: 'issues.length >' },
+          },
+        ]),
+      ).rejects.toThrow('Invalid expression in step broken_check: Unexpected end of expression')
+    })
+
+    it('should fail the step on a malformed template in its params', async () => {
+      await expect(
+        runWorkflow([
+          {
+            id: 'notify',
+            name: 'Notify',
+            type: 'tool',
+            tool: 'mcp-chat_send_message',
+            params: { content: 'Issue {{issue.key +}} is done' },
+          },
+        ]),
+      ).rejects.toThrow('Invalid expression in step notify: {{issue.key +}}: Unexpected end of expression')
+      expect(mcpClient.callTool).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('transform steps', () => {
+    it('should turn a tool result into the payload of a later step', async () => {
+      mcpClient.callTool.mockImplementation(async (tool: string, params: any) =>
+        tool === 'mcp-project-manager_list_my_issues'
+          ? {
+              issues: [
+                { key: 'A-1', status: 'todo', priority: '1' },
+                { key: 'A-2', status: 'done', priority: '3' },
+                { key: 'A-3', status: 'todo', priority: '2' },
+              ],
+            }
+          : { echoed: params },
+      )
+
+      await runWorkflow([
+        { id: 'my_issues', name: 'List', type: 'tool', tool: 'mcp-project-manager_list_my_issues' },
+        {
+          id: 'message',
+          name: 'Build message',
+          type: 'transform',
+          params: {
+            source: '{{my_issues.issues}}',
+            operations: [
+              { filter: "item.status == 'todo'" },
+              { coerce: { priority: 'number' } },
+              { sortBy: { field: 'priority', order: 'desc' } },
+              { map: '{{item.key}}' },
+            ],
+            output: { content: "Open: {{join(result, ', ')}}" },
+          },
+        },
+        {
+          id: 'notify',
+          name: 'Notify',
+          type: 'tool',
+          tool: 'mcp-chat_send_message',
+          params: { content: '{{message.content}}' },
+        },
+      ])
+
+      expect(mcpClient.callTool).toHaveBeenLastCalledWith(
+        'mcp-chat_send_message',
+        { content: 'Open: A-3, A-1' },
+        expect.anything(),
+      )
+    })
+  })
+
+  describe('retries', () => {
+    const failingTool = (failures: number, error: () => Error = () => new Error('Service unavailable')) => {
+      let calls = 0
+      mcpClient.callTool.mockImplementation(async () => {
+        calls++
+        if (calls <= failures) throw error()
+        return { ok: true }
+      })
+    }
+
+    it('should retry a step according to its retry policy', async () => {
+      failingTool(2)
+
+      const result = await runWorkflow([
+        {
+          id: 'flaky',
+          name: 'Flaky',
+          type: 'tool',
+          tool: 'flaky_tool',
+          retryPolicy: { maxAttempts: 3, backoffSeconds: 0.001, jitter: 0 },
+        },
+      ])
+
+      expect(result).toEqual({ ok: true })
+      expect(mcpClient.callTool).toHaveBeenCalledTimes(3)
+      expect(realtimeService.addExecutionLog).toHaveBeenCalledWith(
+        'exec-1',
+        'warning',
+        'Retrying workflow step: Flaky',
+        expect.objectContaining({ attempt: 3, maxAttempts: 3 }),
+      )
+    })
+
+    it('should not retry errors classified as permanent', async () => {
+      failingTool(1, () => Object.assign(new Error('Not found'), { status: 404 }))
+
+      await expect(
+        runWorkflow([
+          { id: 'lookup', name: 'Lookup', type: 'tool', tool: 'get_issue', retryPolicy: { maxAttempts: 3 } },
+        ]),
+      ).rejects.toThrow('Not found')
+      expect(mcpClient.callTool).toHaveBeenCalledTimes(1)
+    })
+
+    it('should retry a failed execution as a child execution', async () => {
+      failingTool(Number.POSITIVE_INFINITY)
+      vi.spyOn(executor as any, 'fetchTask').mockResolvedValue({
+        ...makeTask([{ id: 'call', name: 'Call', type: 'tool', tool: 'flaky_tool' }]),
+        configuration: { retryPolicy: { maxAttempts: 2, backoffSeconds: 0, backoffMultiplier: 2 } },
+      })
+      realtimeService.createExecution.mockImplementation(async (child: Partial<TaskExecution>) => ({
+        ...execution,
+        ...child,
+        id: 'exec-2',
+      }))
+
+      await executor.executeTask({ ...execution, inputParams: { project: 'p1' } })
+
+      expect(realtimeService.createExecution).toHaveBeenCalledTimes(1)
+      expect(realtimeService.createExecution).toHaveBeenCalledWith(
+        expect.objectContaining({
+          taskId: 'task-1',
+          inputParams: { project: 'p1' },
+          retryCount: 1,
+          parentExecutionId: 'exec-1',
+          status: 'running',
+          startedAt: expect.any(String),
+        }),
+      )
+
+      const statuses = realtimeService.updateExecutionStatus.mock.calls.map((call: any[]) => [call[0], call[1]])
+      expect(statuses).toEqual([
+        ['exec-1', 'running'],
+        ['exec-1', 'retrying'],
+        ['exec-1', 'failed'],
+        ['exec-2', 'running'],
+        ['exec-2', 'failed'],
+      ])
+      expect(realtimeService.updateExecutionStatus.mock.calls[2][2].errorDetails.retryExecutionId).toBe('exec-2')
+      expect(mcpClient.callTool).toHaveBeenCalledTimes(2)
+    })
+
+    it('should keep the slot of a failed execution through its retry delay', async () => {
+      failingTool(1)
+      vi.spyOn(executor as any, 'fetchTask').mockResolvedValue({
+        ...makeTask([{ id: 'call', name: 'Call', type: 'tool', tool: 'flaky_tool' }]),
+        configuration: { retryPolicy: { maxAttempts: 2, backoffSeconds: 0.05, backoffMultiplier: 1, jitter: 0 } },
+      })
+      realtimeService.createExecution.mockImplementation(async (child: Partial<TaskExecution>) => ({
+        ...execution,
+        ...child,
+        id: 'exec-2',
+      }))
+
+      const running = executor.executeTask(execution)
+      await vi.waitFor(() =>
+        expect(realtimeService.updateExecutionStatus).toHaveBeenCalledWith('exec-1', 'retrying', expect.anything()),
+      )
+
+      // Arrives during the retry delay, so it waits for the retry to finish
+      await executor.executeTask({ ...execution, id: 'exec-3' })
+      expect(executor.getQueuedExecutionsCount()).toBe(1)
+
+      await running
+      await vi.waitFor(() => expect(executor.getActiveExecutionsCount()).toBe(0))
+      const started = realtimeService.updateExecutionStatus.mock.calls
+        .filter((call: any[]) => call[1] === 'running')
+        .map((call: any[]) => call[0])
+      expect(started).toEqual(['exec-1', 'exec-2', 'exec-3'])
+    })
+  })
+
+  describe('timeouts and cancellation', () => {
+    // A tool call that only settles when the execution's signal aborts
+    const hangingTool = () => {
+      mcpClient.callTool.mockImplementation(
+        (_tool: string, _params: any, options: { signal?: AbortSignal }) =>
+          new Promise((_resolve, reject) => {
+            options.signal?.addEventListener('abort', () => reject(options.signal?.reason))
+          }),
+      )
+    }
+
+    const mockTask = (task: Partial<Task>) =>
+      vi.spyOn(executor as any, 'fetchTask').mockResolvedValue({
+        ...makeTask([
+          { id: 'wait', name: 'Wait', type: 'tool', tool: 'slow_tool', continueOnError: true },
+          { id: 'after', name: 'After', type: 'tool', tool: 'next_tool' },
+        ]),
+        ...task,
+      })
+
+    it('should time out executions that run longer than timeoutSeconds', async () => {
+      hangingTool()
+      mockTask({ timeoutSeconds: 0.01 })
+
+      await executor.executeTask(execution)
+
+      expect(realtimeService.updateExecutionStatus).toHaveBeenLastCalledWith(
+        'exec-1',
+        'timeout',
+        expect.objectContaining({ errorMessage: 'Execution timed out after 0.01s' }),
+      )
+      // continueOnError does not swallow the timeout
+      expect(mcpClient.callTool).toHaveBeenCalledTimes(1)
+    })
+
+    it('should cancel a running execution', async () => {
+      hangingTool()
+      mockTask({ configuration: { retryPolicy: { maxAttempts: 3, backoffSeconds: 0, backoffMultiplier: 1 } } })
+
+      const running = executor.executeTask(execution)
+      await vi.waitFor(() => expect(mcpClient.callTool).toHaveBeenCalled())
+
+      expect(executor.cancelExecution('exec-1')).toBe(true)
+      await running
+
+      expect(realtimeService.updateExecutionStatus).toHaveBeenLastCalledWith(
+        'exec-1',
+        'cancelled',
+        expect.objectContaining({ errorMessage: 'Execution cancelled' }),
+      )
+      expect(realtimeService.createExecution).not.toHaveBeenCalled()
+      expect(executor.cancelExecution('exec-1')).toBe(false)
+    })
+  })
+
+  describe('queueing', () => {
+    // Every tool call waits until it is finished by hand
+    const pendingCalls: Array<() => void> = []
+
+    beforeEach(() => {
+      pendingCalls.length = 0
+      mcpClient.callTool.mockImplementation(() => new Promise(resolve => pendingCalls.push(() => resolve({}))))
+      vi.spyOn(executor as any, 'fetchTask').mockResolvedValue(
+        makeTask([{ id: 'work', name: 'Work', type: 'tool', tool: 'slow_tool' }]),
+      )
+    })
+
+    const queued = (id: string, overrides: Partial<TaskExecution> = {}): TaskExecution => ({
+      ...execution,
+      id,
+      ...overrides,
+    })
+
+    const startedExecutions = () =>
+      realtimeService.updateExecutionStatus.mock.calls
+        .filter((call: any[]) => call[1] === 'running')
+        .map((call: any[]) => call[0])
+
+    it('should queue executions at capacity and start them by priority', async () => {
+      const running = executor.executeTask(execution)
+      await vi.waitFor(() => expect(pendingCalls).toHaveLength(1))
+
+      await executor.executeTask(queued('exec-2', { queuedAt: '2025-01-01T10:00:00.000Z' }))
+      mockSupabase.single.mockResolvedValueOnce({ data: { priority: 3 }, error: null })
+      await executor.executeTask(queued('exec-3', { queuedAt: '2025-01-01T11:00:00.000Z', scheduleId: 'sched-1' }))
+
+      expect(executor.getQueuedExecutionsCount()).toBe(2)
+      expect(realtimeService.addExecutionLog).toHaveBeenCalledWith('exec-3', 'info', 'Execution queued on agent', {
+        priority: 3,
+        position: 1,
+      })
+
+      pendingCalls[0]?.()
+      await running
+      await vi.waitFor(() => expect(pendingCalls).toHaveLength(2))
+      pendingCalls[1]?.()
+      await vi.waitFor(() => expect(pendingCalls).toHaveLength(3))
+      pendingCalls[2]?.()
+
+      await vi.waitFor(() => expect(executor.getActiveExecutionsCount()).toBe(0))
+      expect(startedExecutions()).toEqual(['exec-1', 'exec-3', 'exec-2'])
+      expect(executor.getQueuedExecutionsCount()).toBe(0)
+    })
+
+    it('should hand admitted executions to the execution runner within the limit', async () => {
+      const runner = vi.fn(() => new Promise<void>(resolve => pendingCalls.push(resolve)))
+      executor.setExecutionRunner(runner)
+
+      const running = executor.executeTask(execution)
+      await executor.executeTask(queued('exec-2'))
+
+      expect(runner).toHaveBeenCalledTimes(1)
+      expect(runner).toHaveBeenCalledWith(execution)
+      expect(executor.getActiveExecutionsCount()).toBe(1)
+      expect(executor.getQueuedExecutionsCount()).toBe(1)
+      expect(mcpClient.callTool).not.toHaveBeenCalled()
+
+      pendingCalls[0]?.()
+      await running
+      await vi.waitFor(() => expect(runner).toHaveBeenCalledTimes(2))
+      expect(executor.getQueuedExecutionsCount()).toBe(0)
+      pendingCalls[1]?.()
+      await vi.waitFor(() => expect(executor.getActiveExecutionsCount()).toBe(0))
+    })
+
+    it('should release the executions that would run last when the queue is full', async () => {
+      executor = new TaskExecutor(realtimeService, mcpClient, 'http://localhost:54321', 'anon-key', 1, 1)
+      vi.spyOn(executor as any, 'fetchTask').mockResolvedValue(
+        makeTask([{ id: 'work', name: 'Work', type: 'tool', tool: 'slow_tool' }]),
+      )
+
+      const running = executor.executeTask(execution)
+      await vi.waitFor(() => expect(pendingCalls).toHaveLength(1))
+
+      await executor.executeTask(queued('exec-2'))
+      mockSupabase.single.mockResolvedValueOnce({ data: { priority: 2 }, error: null })
+      await executor.executeTask(queued('exec-3', { scheduleId: 'sched-1' }))
+
+      expect(realtimeService.releaseExecution).toHaveBeenCalledWith('exec-2')
+      expect(executor.getQueuedExecutionsCount()).toBe(1)
+
+      // A queued execution can be cancelled before it starts
+      expect(executor.cancelExecution('exec-3')).toBe(true)
+      expect(executor.getQueuedExecutionsCount()).toBe(0)
+
+      pendingCalls[0]?.()
+      await running
+      expect(startedExecutions()).toEqual(['exec-1'])
+    })
+  })
+
+  describe('schema validation', () => {
+    const mockTask = (task: Partial<Task>) =>
+      vi.spyOn(executor as any, 'fetchTask').mockResolvedValue({
+        ...makeTask([{ id: 'list', name: 'List', type: 'tool', tool: 'list_issues', params: { limit: '{{limit}}' } }]),
+        ...task,
+      })
+
+    it('should apply input defaults and coercions before the workflow starts', async () => {
+      mockTask({
+        inputSchema: {
+          type: 'object',
+          properties: { limit: { type: 'integer', default: 10 }, all: { type: 'boolean' } },
+        },
+      })
+
+      await executor.executeTask({ ...execution, inputParams: { all: 'true' } })
+
+      expect(mcpClient.callTool).toHaveBeenCalledWith('list_issues', { limit: 10 }, expect.anything())
+      expect(realtimeService.updateExecutionStatus).toHaveBeenLastCalledWith('exec-1', 'completed', expect.anything())
+    })
+
+    it('should fail fast with the path of invalid input', async () => {
+      mockTask({
+        inputSchema: { type: 'object', required: ['project'], properties: { limit: { type: 'integer', maximum: 50 } } },
+        configuration: { retryPolicy: { maxAttempts: 3, backoffSeconds: 0, backoffMultiplier: 1 } },
+      })
+
+      await executor.executeTask({ ...execution, inputParams: { limit: 100, project: 'p1' } })
+
+      expect(mcpClient.callTool).not.toHaveBeenCalled()
+      expect(realtimeService.createExecution).not.toHaveBeenCalled()
+      expect(realtimeService.updateExecutionStatus).toHaveBeenLastCalledWith(
+        'exec-1',
+        'failed',
+        expect.objectContaining({
+          errorMessage: 'Input validation failed at /limit: must be <= 50',
+          errorDetails: expect.objectContaining({
+            path: '/limit',
+            validationErrors: [{ path: '/limit', keyword: 'maximum', message: 'must be <= 50' }],
+          }),
+        }),
+      )
+    })
+
+    it('should validate the result against the output schema', async () => {
+      mockTask({ outputSchema: { type: 'object', required: ['issues'] } })
+
+      await executor.executeTask(execution)
+
+      expect(realtimeService.updateExecutionStatus).toHaveBeenLastCalledWith(
+        'exec-1',
+        'failed',
+        expect.objectContaining({ errorMessage: 'Output validation failed at /issues: is required' }),
+      )
+    })
+  })
+
+  describe('sub-workflows', () => {
+    const childTaskId = '7d9f6c1e-2b4a-4c8e-9f3d-5a6b7c8d9e0f'
+
+    const mockTasks = (parentWorkflow: WorkflowStep[], childWorkflow: WorkflowStep[], configuration = {}) =>
+      vi
+        .spyOn(executor as any, 'fetchTask')
+        .mockImplementation(async (taskId: any) =>
+          taskId === childTaskId
+            ? { ...makeTask(childWorkflow), id: childTaskId, name: 'Child Task' }
+            : { ...makeTask(parentWorkflow), configuration },
+        )
+
+    beforeEach(() => {
+      let created = 0
+      realtimeService.createExecution.mockImplementation(async (child: Partial<TaskExecution>) => ({
+        ...execution,
+        status: 'pending',
+        ...child,
+        id: `child-${++created}`,
+      }))
+    })
+
+    it('should run the child execution and return its output', async () => {
+      mockTasks(
+        [
+          {
+            id: 'summary',
+            name: 'Summarize',
+            type: 'subworkflow',
+            subworkflow: { task: childTaskId, params: { project: '{{project}}' } },
+          },
+          { id: 'post', name: 'Post', type: 'tool', tool: 'send_message', params: { text: '{{summary.echoed.id}}' } },
+        ],
+        [{ id: 'load', name: 'Load', type: 'tool', tool: 'get_project', params: { id: '{{project}}' } }],
+      )
+
+      await executor.executeTask({ ...execution, inputParams: { project: 'p1' } })
+
+      expect(realtimeService.createExecution).toHaveBeenCalledWith(
+        expect.objectContaining({
+          taskId: childTaskId,
+          inputParams: { project: 'p1' },
+          parentExecutionId: 'exec-1',
+          context: { workflowDepth: 1 },
+          status: 'running',
+        }),
+      )
+      expect(mcpClient.callTool).toHaveBeenLastCalledWith('send_message', { text: 'p1' }, expect.anything())
+
+      const statuses = realtimeService.updateExecutionStatus.mock.calls.map((call: any[]) => [call[0], call[1]])
+      expect(statuses).toEqual([
+        ['exec-1', 'running'],
+        ['child-1', 'running'],
+        ['child-1', 'completed'],
+        ['exec-1', 'completed'],
+      ])
+
+      const treeLog = realtimeService.addExecutionLog.mock.calls.find(
+        (call: any[]) => call[2] === 'Sub-workflow execution tree',
+      )
+      expect(treeLog?.[0]).toBe('exec-1')
+      expect(treeLog?.[3].tree).toMatch(/^Test Task \[exec-1\] completed in \d+ms\n└─ Child Task \[child-1\] completed/)
+    })
+
+    it("should run children inside their parent's slot", async () => {
+      executor = new TaskExecutor(realtimeService, mcpClient, 'http://localhost:54321', 'anon-key', 2)
+      mockTasks(
+        [{ id: 'summary', name: 'Summarize', type: 'subworkflow', subworkflow: { task: childTaskId } }],
+        [{ id: 'load', name: 'Load', type: 'tool', tool: 'get_project' }],
+      )
+      const pendingCalls: Array<() => void> = []
+      mcpClient.callTool.mockImplementation(() => new Promise(resolve => pendingCalls.push(() => resolve({}))))
+
+      const parent = executor.executeTask(execution)
+      await vi.waitFor(() => expect(pendingCalls).toHaveLength(1))
+      expect(executor.canAcceptTask()).toBe(true)
+
+      const other = executor.executeTask({ ...execution, id: 'exec-2', taskId: childTaskId })
+      await vi.waitFor(() => expect(pendingCalls).toHaveLength(2))
+      expect(executor.getQueuedExecutionsCount()).toBe(0)
+      expect(executor.canAcceptTask()).toBe(false)
+
+      for (const finish of pendingCalls) finish()
+      await Promise.all([parent, other])
+    })
+
+    it('should look tasks up by name and leave fire-and-forget children pending', async () => {
+      mockTasks(
+        [{ id: 'kick_off', name: 'Kick off', type: 'subworkflow', subworkflow: { task: 'Nightly sync', wait: false } }],
+        [],
+      )
+      mockSupabase.limit.mockResolvedValueOnce({ data: [{ id: childTaskId, name: 'Nightly sync' }], error: null })
+
+      await executor.executeTask(execution)
+
+      expect(mockSupabase.eq).toHaveBeenCalledWith('name', 'Nightly sync')
+      expect(realtimeService.createExecution.mock.calls[0][0].status).toBeUndefined()
+      expect(realtimeService.updateExecutionStatus).toHaveBeenLastCalledWith(
+        'exec-1',
+        'completed',
+        expect.objectContaining({ outputResult: { executionId: 'child-1', status: 'pending' } }),
+      )
+    })
+
+    it('should fail the step when the child fails', async () => {
+      mcpClient.callTool.mockRejectedValue(new Error('Project not found'))
+      mockTasks(
+        [{ id: 'summary', name: 'Summarize', type: 'subworkflow', subworkflow: { task: childTaskId } }],
+        [{ id: 'load', name: 'Load', type: 'tool', tool: 'get_project' }],
+      )
+
+      await executor.executeTask(execution)
+
+      expect(realtimeService.updateExecutionStatus).toHaveBeenLastCalledWith(
+        'exec-1',
+        'failed',
+        expect.objectContaining({
+          errorMessage: 'Sub-workflow Child Task failed (execution child-1): Project not found',
+        }),
+      )
+    })
+
+    it('should refuse to nest deeper than maxWorkflowDepth', async () => {
+      mockTasks([{ id: 'again', name: 'Recurse', type: 'subworkflow', subworkflow: { task: childTaskId } }], [], {
+        maxWorkflowDepth: 2,
+      })
+
+      await executor.executeTask({ ...execution, context: { workflowDepth: 2 } })
+
+      expect(realtimeService.createExecution).not.toHaveBeenCalled()
+      expect(realtimeService.updateExecutionStatus).toHaveBeenLastCalledWith(
+        'exec-1',
+        'failed',
+        expect.objectContaining({ errorMessage: 'Sub-workflow step again exceeds the maximum workflow depth of 2' }),
+      )
+    })
+  })
+
+  describe('checkpoints', () => {
+    const workflow: WorkflowStep[] = [
+      { id: 'first', name: 'First', type: 'tool', tool: 'list_issues', params: { q: '{{q}}' }, idempotent: true },
+      { id: 'check', name: 'Check', type: 'condition', condition: { type: 'expression', expression: 'true' } },
+      { id: 'post', name: 'Post', type: 'tool', tool: 'send_message', params: { text: '{{first.echoed.q}}' } },
+    ]
+
+    const orphan = (checkpoint?: Record<string, unknown>): TaskExecution => ({
+      ...execution,
+      status: 'running',
+      context: checkpoint ? { checkpoint } : {},
+    })
+
+    beforeEach(() => {
+      vi.spyOn(executor as any, 'fetchTask').mockResolvedValue(makeTask(workflow))
+    })
+
+    it('should save a checkpoint into the execution context before each step', async () => {
+      await executor.executeTask({ ...execution, inputParams: { q: 'open' } })
+
+      const checkpoints = realtimeService.updateExecutionContext.mock.calls.map((call: any[]) => call[1].checkpoint)
+      expect(checkpoints.map((checkpoint: any) => [checkpoint.stepId, checkpoint.inProgress])).toEqual([
+        ['first', false],
+        ['check', false],
+        ['post', true],
+      ])
+      expect(checkpoints[2]).toMatchObject({
+        completedSteps: ['first', 'check'],
+        context: { q: 'open', first: { echoed: { q: 'open' } }, check: true },
+      })
+    })
+
+    it('should resume an orphaned execution from its last checkpoint', async () => {
+      realtimeService.findOrphanedExecutions.mockResolvedValue([
+        orphan({
+          stepId: 'check',
+          inProgress: false,
+          completedSteps: ['first'],
+          context: { executionId: 'exec-1', first: { echoed: { q: 'saved' } } },
+        }),
+      ])
+
+      await executor.resumeOrphanedExecutions()
+
+      await vi.waitFor(() =>
+        expect(realtimeService.updateExecutionStatus).toHaveBeenLastCalledWith(
+          'exec-1',
+          'completed',
+          expect.anything(),
+        ),
+      )
+      expect(mcpClient.callTool).toHaveBeenCalledTimes(1)
+      expect(mcpClient.callTool).toHaveBeenCalledWith('send_message', { text: 'saved' }, expect.anything())
+    })
+
+    it('should leave executions started by this agent alone and queue resumed ones at capacity', async () => {
+      const pendingCalls: Array<() => void> = []
+      mcpClient.callTool.mockImplementation(() => new Promise(resolve => pendingCalls.push(() => resolve({}))))
+      const checkpoint = {
+        stepId: 'post',
+        inProgress: false,
+        completedSteps: ['first', 'check'],
+        context: { first: { echoed: { q: 'saved' } } },
+      }
+      realtimeService.findOrphanedExecutions.mockResolvedValue([
+        orphan(checkpoint),
+        { ...orphan(checkpoint), id: 'exec-2' },
+      ])
+
+      await executor.resumeOrphanedExecutions()
+
+      const [startedBefore] = realtimeService.findOrphanedExecutions.mock.calls[0]
+      expect(startedBefore).toBeInstanceOf(Date)
+      expect(startedBefore.getTime()).toBeLessThanOrEqual(Date.now())
+      await vi.waitFor(() => expect(pendingCalls).toHaveLength(1))
+      expect(executor.getActiveExecutionsCount()).toBe(1)
+      expect(executor.getQueuedExecutionsCount()).toBe(1)
+
+      pendingCalls[0]?.()
+      await vi.waitFor(() => expect(pendingCalls).toHaveLength(2))
+      pendingCalls[1]?.()
+      await vi.waitFor(() => expect(executor.getActiveExecutionsCount()).toBe(0))
+    })
+
+    it('should flag executions interrupted during a non-idempotent step for manual review', async () => {
+      realtimeService.findOrphanedExecutions.mockResolvedValue([
+        orphan({ stepId: 'post', inProgress: true, completedSteps: ['first', 'check'], context: {} }),
+        orphan(),
+      ])
+
+      await executor.resumeOrphanedExecutions()
+
+      expect(mcpClient.callTool).not.toHaveBeenCalled()
+      const failures = realtimeService.updateExecutionStatus.mock.calls.map((call: any[]) => call[2].errorDetails)
+      expect(failures).toEqual([
+        { code: 'MANUAL_REVIEW_REQUIRED', stepId: 'post', completedSteps: ['first', 'check'] },
+        { code: 'INTERRUPTED' },
+      ])
+    })
+
+    it('should flag executions the execution runner ran for manual review and resume checkpointed ones', async () => {
+      const runner = vi.fn().mockResolvedValue(undefined)
+      executor.setExecutionRunner(runner)
+      realtimeService.findOrphanedExecutions.mockResolvedValue([
+        orphan(),
+        {
+          ...orphan({ stepId: 'post', inProgress: false, completedSteps: ['first', 'check'], context: {} }),
+          id: 'exec-2',
+        },
+      ])
+
+      await executor.resumeOrphanedExecutions()
+      await vi.waitFor(() => expect(mcpClient.callTool).toHaveBeenCalledTimes(1))
+
+      expect(runner).not.toHaveBeenCalled()
+      expect(realtimeService.updateExecutionStatus).toHaveBeenCalledWith(
+        'exec-1',
+        'failed',
+        expect.objectContaining({ errorDetails: { code: 'MANUAL_REVIEW_REQUIRED' } }),
+      )
+      expect(mcpClient.callTool).toHaveBeenCalledWith('send_message', expect.anything(), expect.anything())
+    })
+  })
+
+  describe('approval steps', () => {
+    const deploy: WorkflowStep[] = [
+      {
+        id: 'confirm',
+        name: 'Confirm deploy',
+        type: 'approval',
+        approval: { message: 'Deploy {{version}}?', channelId: 'ops' },
+        onFailure: 'end',
+      },
+      { id: 'deploy', name: 'Deploy', type: 'tool', tool: 'deploy', params: { version: '{{version}}' } },
+    ]
+
+    // Decide the pending request the way the platform or `veas exec approve` would
+    const decide = (status: 'approved' | 'rejected', comment?: string) =>
+      realtimeService.getExecutionContext.mockImplementation(async () => {
+        const saved = realtimeService.updateExecutionContext.mock.calls.at(-1)[1]
+        return { ...saved, approval: { ...saved.approval, status, decidedBy: 'ana@example.com', comment } }
+      })
+
+    it('should wait in the waiting state and continue once approved', async () => {
+      decide('approved')
+
+      const result = await runWorkflow(deploy, { version: '1.2.0' })
+
+      expect(result).toEqual({ echoed: { version: '1.2.0' } })
+      expect(realtimeService.updateExecutionContext).toHaveBeenCalledWith(
+        'exec-1',
+        expect.objectContaining({
+          approval: expect.objectContaining({ stepId: 'confirm', message: 'Deploy 1.2.0?', status: 'pending' }),
+        }),
+      )
+      expect(mcpClient.callTool).toHaveBeenCalledWith(
+        'mcp-chat_send_message',
+        { channel_id: 'ops', content: expect.stringContaining('veas exec approve exec-1') },
+        expect.anything(),
+      )
+      const statuses = realtimeService.updateExecutionStatus.mock.calls.map((call: any[]) => call[1])
+      expect(statuses).toEqual(['waiting', 'running'])
+    })
+
+    it('should fail the step when rejected', async () => {
+      decide('rejected', 'Not during the freeze')
+
+      await runWorkflow(deploy, { version: '1.2.0' })
+
+      // onFailure ends the workflow before the deploy step
+      expect(mcpClient.callTool).not.toHaveBeenCalledWith('deploy', expect.anything(), expect.anything())
+      expect(realtimeService.addExecutionLog).toHaveBeenCalledWith(
+        'exec-1',
+        'error',
+        'Workflow step failed: Confirm deploy',
+        {
+          error: 'Approval rejected for step confirm by ana@example.com: Not during the freeze',
+        },
+      )
+    })
+
+    it('should apply the default outcome when nobody decides in time', async () => {
+      const result = await runWorkflow([
+        {
+          id: 'confirm',
+          name: 'Confirm',
+          type: 'approval',
+          approval: { timeoutSeconds: 0.01, defaultOutcome: 'approve' },
+        },
+      ])
+
+      expect(result).toMatchObject({ approved: true, decidedBy: 'timeout' })
+      expect(realtimeService.updateExecutionContext).toHaveBeenLastCalledWith(
+        'exec-1',
+        expect.objectContaining({ approval: expect.objectContaining({ status: 'approved', decidedBy: 'timeout' }) }),
+      )
+    })
+  })
+})
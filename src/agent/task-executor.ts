@@ -6,27 +6,188 @@
 
 import { createClient } from '@supabase/supabase-js'
 import type { MCPClient } from '../mcp/mcp-client.js'
+import { SchemaValidationError, validateSchema } from '../utils/json-schema.js'
 import { logger } from '../utils/logger.js'
+import { DEFAULT_EXECUTION_PRIORITY, ExecutionQueue } from './execution-queue.js'
+import { ExpressionError, evaluateExpression, resolveTemplates } from './expression.js'
 import type { RealtimeService } from './realtime-service.js'
-import type { Task, TaskExecution, ToolCall, WorkflowStep } from './types.js'
+import {
+  getBackoffDelayMs,
+  getExecutionRetryPolicy,
+  getStepRetryPolicy,
+  isRetryableError,
+  nonRetryable,
+  sleep,
+} from './retry.js'
+import { applyTransform } from './transform.js'
+import type {
+  ApprovalRequest,
+  ParallelBranch,
+  Task,
+  TaskExecution,
+  ToolCall,
+  WorkflowCheckpoint,
+  WorkflowStep,
+} from './types.js'
+
+const DEFAULT_MAX_LOOP_ITERATIONS = 1000
+const DEFAULT_MAX_STEP_EXECUTIONS = 10000
+const DEFAULT_MAX_WORKFLOW_DEPTH = 5
+const DEFAULT_APPROVAL_TIMEOUT_SECONDS = 24 * 60 * 60
+const APPROVAL_POLL_INTERVAL_MS = 5000
+const DEFAULT_MAX_QUEUED_TASKS = 20
+
+const UUID_PATTERN = /^[\da-f]{8}-[\da-f]{4}-[\da-f]{4}-[\da-f]{4}-[\da-f]{12}$/i
+
+/** Jump target that stops the current step list */
+const END_STEP = 'end'
+
+interface WorkflowRunState {
+  stepsExecuted: number
+  maxStepExecutions: number
+  /** Aborted when the execution times out or is cancelled */
+  signal?: AbortSignal
+  organizationId?: string
+  maxWorkflowDepth: number
+  /** The execution's context as last saved, so partial updates don't drop other keys */
+  savedContext: Record<string, unknown>
+}
+
+/**
+ * Outcome of an execution, with the sub-workflow executions it started
+ */
+export interface ExecutionNode {
+  executionId: string
+  taskName: string
+  status: TaskExecution['status']
+  durationMs?: number
+  result?: unknown
+  error?: string
+  /** Workflow context when the workflow stopped */
+  context?: Record<string, unknown>
+  children: ExecutionNode[]
+}
+
+/**
+ * Where executions are recorded: the platform via RealtimeService, or memory for local runs
+ */
+export type ExecutionService = Pick<
+  RealtimeService,
+  | 'updateExecutionStatus'
+  | 'createExecution'
+  | 'updateExecutionContext'
+  | 'getExecutionContext'
+  | 'findOrphanedExecutions'
+  | 'addExecutionLog'
+  | 'recordToolCall'
+  | 'releaseExecution'
+> & {
+  /** False when nobody can decide approval requests, as in local runs */
+  readonly supportsApprovals?: boolean
+}
+
+/**
+ * Client tool steps call: the MCP endpoint, or standalone mock tools for local runs
+ */
+export type ToolClient = Pick<MCPClient, 'callTool'>
+
+/**
+ * Error used as the abort reason when an execution times out or is cancelled
+ */
+function abortError(code: 'TIMEOUT' | 'CANCELLED', message: string): Error {
+  return nonRetryable(Object.assign(new Error(message), { code }))
+}
+
+/**
+ * Nesting level of an execution; 0 unless it was started by a sub-workflow step
+ */
+function getWorkflowDepth(execution: TaskExecution): number {
+  return Number(execution.context?.workflowDepth) || 0
+}
+
+/**
+ * Whether a step can safely run again after the agent died while running it
+ */
+function isIdempotent(step: WorkflowStep): boolean {
+  return step.idempotent ?? (step.type === 'condition' || step.type === 'transform' || step.type === 'approval')
+}
+
+/**
+ * The workflow checkpoint saved in an execution's context, if any
+ */
+function getCheckpoint(execution: TaskExecution): WorkflowCheckpoint | null {
+  const checkpoint = execution.context?.checkpoint as WorkflowCheckpoint | undefined
+  return checkpoint?.stepId ? checkpoint : null
+}
+
+/**
+ * Render an execution and its sub-workflows as an indented tree
+ */
+function renderExecutionTree(root: ExecutionNode): string {
+  const describe = (node: ExecutionNode) =>
+    `${node.taskName} [${node.executionId}] ${node.status}${node.durationMs === undefined ? '' : ` in ${node.durationMs}ms`}`
+
+  const lines = [describe(root)]
+  const visit = (children: ExecutionNode[], prefix: string) => {
+    children.forEach((child, index) => {
+      const last = index === children.length - 1
+      lines.push(`${prefix}${last ? '└─ ' : '├─ '}${describe(child)}`)
+      visit(child.children, `${prefix}${last ? '   ' : '│  '}`)
+    })
+  }
+  visit(root.children, '')
+  return lines.join('\n')
+}
+
+/**
+ * Map a tasks row to the Task shape; rows come back with snake_case columns
+ */
+export function mapTaskRow(row: any): Task {
+  return {
+    ...row,
+    organizationId: row.organizationId ?? row.organization_id,
+    taskType: row.taskType ?? row.task_type,
+    inputSchema: row.inputSchema ?? row.input_schema,
+    outputSchema: row.outputSchema ?? row.output_schema,
+    maxRetries: row.maxRetries ?? row.max_retries ?? 0,
+    timeoutSeconds: row.timeoutSeconds ?? row.timeout_seconds,
+  }
+}
 
 export class TaskExecutor {
-  private realtimeService: RealtimeService
-  private mcpClient: MCPClient
+  private realtimeService: ExecutionService
+  private mcpClient: ToolClient
   private supabase: any
+  /** Task definitions registered locally, looked up before the platform */
+  private localTasks: Map<string, Task> = new Map()
   private activeExecutions: Map<string, TaskExecution> = new Map()
+  private workflowRuns: Map<string, WorkflowRunState> = new Map()
+  private abortControllers: Map<string, AbortController> = new Map()
+  /** Sub-workflow executions started by each running execution */
+  private childExecutions: Map<string, ExecutionNode[]> = new Map()
+  /** Claimed executions waiting for a free slot */
+  private queue = new ExecutionQueue()
+  /** Runs admitted executions in place of the workflow engine, see setExecutionRunner */
+  private executionRunner?: (execution: TaskExecution) => Promise<void>
+  /** Orphaned executions resuming from a checkpoint, which only the workflow engine can do */
+  private resumingExecutions: Set<string> = new Set()
   private maxConcurrentTasks: number
+  private maxQueuedTasks: number
+  /** When this executor was created; executions started since then aren't orphans */
+  private readonly createdAt = new Date()
 
   constructor(
-    realtimeService: RealtimeService,
-    mcpClient: MCPClient,
+    realtimeService: ExecutionService,
+    mcpClient: ToolClient,
     supabaseUrl: string,
     supabaseAnonKey: string,
     maxConcurrentTasks = 1,
+    maxQueuedTasks = DEFAULT_MAX_QUEUED_TASKS,
   ) {
     this.realtimeService = realtimeService
     this.mcpClient = mcpClient
     this.maxConcurrentTasks = maxConcurrentTasks
+    this.maxQueuedTasks = maxQueuedTasks
 
     this.supabase = createClient(supabaseUrl, supabaseAnonKey, {
       auth: {
@@ -38,83 +199,476 @@ export class TaskExecutor {
 
   /**
    * Check if we can accept more tasks
+   *
+   * Sub-workflow children run inside their parent's slot, so only top-level executions count.
    */
   canAcceptTask(): boolean {
-    return this.activeExecutions.size < this.maxConcurrentTasks
+    let used = 0
+    for (const execution of this.activeExecutions.values()) {
+      if (getWorkflowDepth(execution) === 0) used++
+    }
+    return used < this.maxConcurrentTasks
   }
 
   /**
    * Execute a task
+   *
+   * At capacity the execution is queued instead, and starts once a running
+   * execution finishes. The returned promise then resolves once it is queued.
    */
   async executeTask(execution: TaskExecution): Promise<void> {
+    if (this.activeExecutions.has(execution.id) || this.queue.has(execution.id)) {
+      logger.debug(`Execution ${execution.id} is already running or queued`)
+      return
+    }
+
     if (!this.canAcceptTask()) {
-      logger.warn(`Cannot accept task ${execution.id}, at capacity`)
+      await this.enqueueExecution(execution)
       return
     }
 
+    try {
+      if (this.executionRunner && !this.resumingExecutions.has(execution.id)) {
+        await this.runWithRunner(execution, this.executionRunner)
+      } else {
+        await this.runExecution(execution)
+      }
+    } finally {
+      this.resumingExecutions.delete(execution.id)
+      this.startQueuedExecutions()
+    }
+  }
+
+  /**
+   * Hand admitted executions to another executor, such as the one running task commands
+   *
+   * Executions still take a slot or wait in the queue, so maxConcurrentTasks and
+   * the counts reported in heartbeats cover the work the runner does.
+   */
+  setExecutionRunner(runner: (execution: TaskExecution) => Promise<void>): void {
+    this.executionRunner = runner
+  }
+
+  /**
+   * Run an execution with the execution runner, holding a slot until it is done
+   */
+  private async runWithRunner(
+    execution: TaskExecution,
+    runner: (execution: TaskExecution) => Promise<void>,
+  ): Promise<void> {
+    this.activeExecutions.set(execution.id, execution)
+    try {
+      await runner(execution)
+    } finally {
+      this.activeExecutions.delete(execution.id)
+    }
+  }
+
+  /**
+   * Queue an execution until a slot is free
+   *
+   * When the queue grows beyond maxQueuedTasks, the executions that would run
+   * last are released back to the platform for other destinations to claim.
+   */
+  private async enqueueExecution(execution: TaskExecution): Promise<void> {
+    const priority = await this.getExecutionPriority(execution)
+    const position = this.queue.enqueue(execution, priority)
+    logger.info(`At capacity, queued execution ${execution.id} (priority ${priority}, position ${position + 1})`)
+
+    const released = this.queue.trim(this.maxQueuedTasks)
+    for (const releasedExecution of released) {
+      logger.warn(`Queue is full, releasing execution ${releasedExecution.id}`)
+      await this.realtimeService.releaseExecution(releasedExecution.id)
+    }
+
+    if (!released.some(releasedExecution => releasedExecution.id === execution.id)) {
+      await this.realtimeService.addExecutionLog(execution.id, 'info', 'Execution queued on agent', {
+        priority,
+        position: position + 1,
+      })
+    }
+
+    // A slot may have freed up while the priority was looked up
+    this.startQueuedExecutions()
+  }
+
+  /**
+   * Start queued executions while there are free slots
+   */
+  private startQueuedExecutions(): void {
+    while (this.canAcceptTask()) {
+      const next = this.queue.dequeue()
+      if (!next) {
+        return
+      }
+
+      logger.info(`Starting queued execution ${next.id}`)
+      this.executeTask(next).catch(error => {
+        logger.error(`Queued execution ${next.id} failed:`, error)
+      })
+    }
+  }
+
+  /**
+   * Priority of an execution's schedule, or the default for unscheduled executions
+   */
+  private async getExecutionPriority(execution: TaskExecution): Promise<number> {
+    if (!execution.scheduleId) {
+      return DEFAULT_EXECUTION_PRIORITY
+    }
+
+    try {
+      const { data, error } = await this.supabase
+        .from('schedules')
+        .select('priority')
+        .eq('id', execution.scheduleId)
+        .single()
+
+      if (error) {
+        logger.debug(`Failed to fetch priority of schedule ${execution.scheduleId}:`, error)
+      }
+      return typeof data?.priority === 'number' ? data.priority : DEFAULT_EXECUTION_PRIORITY
+    } catch (error) {
+      logger.debug(`Error fetching priority of schedule ${execution.scheduleId}:`, error)
+      return DEFAULT_EXECUTION_PRIORITY
+    }
+  }
+
+  /**
+   * Run an execution of a task definition that doesn't come from the platform,
+   * e.g. one loaded from a local workflow file
+   */
+  async runTaskDefinition(task: Task, execution: TaskExecution): Promise<ExecutionNode> {
+    this.registerTask(task)
+    return this.runExecution({ ...execution, taskId: task.id })
+  }
+
+  /**
+   * Make a task definition available to executions and sub-workflow steps
+   */
+  registerTask(task: Task): void {
+    this.localTasks.set(task.id, task)
+  }
+
+  /**
+   * Run an execution to completion and record its outcome
+   *
+   * Sub-workflow children run through here directly, inside their parent's slot
+   * (see canAcceptTask), and are aborted together with the parent via parentSignal.
+   */
+  private async runExecution(execution: TaskExecution, parentSignal?: AbortSignal): Promise<ExecutionNode> {
     logger.info(`Starting execution of task ${execution.id}`)
     this.activeExecutions.set(execution.id, execution)
 
+    const node: ExecutionNode = {
+      executionId: execution.id,
+      taskName: execution.taskId,
+      status: 'running',
+      children: [],
+    }
+    this.childExecutions.set(execution.id, node.children)
+
+    const startedAt = new Date()
+    const controller = new AbortController()
+    this.abortControllers.set(execution.id, controller)
+    const onParentAbort = () => controller.abort(parentSignal?.reason)
+    if (parentSignal?.aborted) {
+      onParentAbort()
+    } else {
+      parentSignal?.addEventListener('abort', onParentAbort, { once: true })
+    }
+    let timeoutTimer: ReturnType<typeof setTimeout> | undefined
+    let retry: { delayMs: number; error: unknown } | null = null
+
     try {
       // Update status to running
       await this.realtimeService.updateExecutionStatus(execution.id, 'running', {
-        startedAt: new Date().toISOString(),
+        startedAt: startedAt.toISOString(),
       } as any)
 
       // Log execution start
       await this.realtimeService.addExecutionLog(execution.id, 'info', 'Task execution started', {
         taskId: execution.taskId,
+        retryCount: execution.retryCount || 0,
       })
 
       // Fetch the full task details
       const task = await this.fetchTask(execution.taskId)
       if (!task) {
-        throw new Error(`Task ${execution.taskId} not found`)
+        throw nonRetryable(new Error(`Task ${execution.taskId} not found`))
+      }
+      node.taskName = task.name
+
+      // Enforce the task timeout by aborting the execution
+      const timeoutSeconds = task.timeoutSeconds || task.configuration?.timeout
+      if (timeoutSeconds && timeoutSeconds > 0) {
+        timeoutTimer = setTimeout(() => {
+          controller.abort(abortError('TIMEOUT', `Execution timed out after ${timeoutSeconds}s`))
+        }, timeoutSeconds * 1000)
       }
 
-      // Execute the task based on its type
-      const result = await this.executeTaskWorkflow(execution, task)
+      // Apply defaults and coercions from the input schema, failing fast on invalid input
+      const inputParams = this.validateAgainstSchema('Input', task.inputSchema, execution.inputParams || {})
 
-      // Update execution with success
-      await this.realtimeService.updateExecutionStatus(execution.id, 'completed', {
-        outputResult: result,
-        completedAt: new Date().toISOString(),
-        durationMs: Date.now() - new Date(execution.startedAt || execution.queuedAt).getTime(),
-      } as any)
+      try {
+        // Execute the task based on its type
+        const workflowResult = await this.executeTaskWorkflow(
+          { ...execution, startedAt: startedAt.toISOString(), inputParams: inputParams as Record<string, unknown> },
+          task,
+          controller.signal,
+          node,
+        )
+        const result = this.validateAgainstSchema('Output', task.outputSchema, workflowResult)
+
+        // Update execution with success
+        await this.realtimeService.updateExecutionStatus(execution.id, 'completed', {
+          outputResult: result,
+          completedAt: new Date().toISOString(),
+          durationMs: Date.now() - new Date(execution.startedAt || execution.queuedAt).getTime(),
+        } as any)
+
+        // Log execution completion
+        await this.realtimeService.addExecutionLog(execution.id, 'info', 'Task execution completed successfully', {
+          result,
+        })
 
-      // Log execution completion
-      await this.realtimeService.addExecutionLog(execution.id, 'info', 'Task execution completed successfully', {
-        result,
-      })
+        logger.info(`Task ${execution.id} completed successfully`)
+        node.status = 'completed'
+        node.result = result
+      } catch (error: unknown) {
+        // Retry the whole execution if the task's retry policy allows another attempt
+        if (controller.signal.aborted) {
+          throw error
+        }
+        const retryPolicy = getExecutionRetryPolicy(task)
+        const attempt = (execution.retryCount || 0) + 1
+        if (!retryPolicy || attempt >= retryPolicy.maxAttempts || !isRetryableError(error, retryPolicy)) {
+          throw error
+        }
 
-      logger.info(`Task ${execution.id} completed successfully`)
+        retry = { delayMs: getBackoffDelayMs(retryPolicy, attempt), error }
+        logger.warn(`Task ${execution.id} failed, retrying in ${retry.delayMs}ms (attempt ${attempt + 1})`)
+
+        await this.realtimeService.updateExecutionStatus(execution.id, 'retrying', {
+          errorMessage: error instanceof Error ? error.message : String(error),
+        } as any)
+
+        await this.realtimeService.addExecutionLog(execution.id, 'warning', 'Task execution failed, retrying', {
+          error: error instanceof Error ? error.message : String(error),
+          attempt: attempt + 1,
+          maxAttempts: retryPolicy.maxAttempts,
+          delayMs: retry.delayMs,
+        })
+        node.status = 'retrying'
+        node.error = error instanceof Error ? error.message : String(error)
+      }
     } catch (error: unknown) {
-      logger.error(`Task ${execution.id} failed:`, error)
+      node.error = error instanceof Error ? error.message : String(error)
+
+      if (controller.signal.aborted) {
+        node.status = await this.recordAbort(execution, controller.signal.reason)
+      } else {
+        logger.error(`Task ${execution.id} failed:`, error)
+        node.status = 'failed'
+
+        // Update execution with failure
+        await this.realtimeService.updateExecutionStatus(execution.id, 'failed', {
+          errorMessage: node.error,
+          errorDetails: {
+            stack: error instanceof Error ? error.stack : undefined,
+            code: error instanceof Error ? (error as any).code : undefined,
+            ...(error instanceof SchemaValidationError
+              ? { path: error.errors[0]?.path, validationErrors: error.errors }
+              : {}),
+          },
+          completedAt: new Date().toISOString(),
+          durationMs: Date.now() - new Date(execution.startedAt || execution.queuedAt).getTime(),
+        } as any)
+
+        // Log execution failure
+        await this.realtimeService.addExecutionLog(execution.id, 'error', 'Task execution failed', {
+          error: node.error,
+        })
+      }
+    } finally {
+      clearTimeout(timeoutTimer)
+      parentSignal?.removeEventListener('abort', onParentAbort)
+      this.abortControllers.delete(execution.id)
+      // An execution that will be retried keeps its slot through the retry delay
+      if (!retry) {
+        this.activeExecutions.delete(execution.id)
+      }
+      this.childExecutions.delete(execution.id)
+    }
+
+    node.durationMs = Date.now() - startedAt.getTime()
+
+    // The top-level execution logs the whole tree of sub-workflows it started
+    if (node.children.length > 0 && getWorkflowDepth(execution) === 0) {
+      await this.realtimeService.addExecutionLog(execution.id, 'info', 'Sub-workflow execution tree', {
+        tree: renderExecutionTree(node),
+      })
+    }
+
+    // The retry takes over this execution's slot, so queued work can't claim it during the delay
+    if (retry) {
+      return (await this.retryExecution(execution, retry.delayMs, retry.error, parentSignal)) || node
+    }
+    return node
+  }
+
+  /**
+   * Cancel a running or queued execution
+   *
+   * Cancellation is cooperative: the running step's tool call is aborted and no
+   * further steps start. A queued execution is dropped from the queue. Returns
+   * false if the execution isn't running or queued here.
+   */
+  cancelExecution(executionId: string, reason = 'Execution cancelled'): boolean {
+    if (this.queue.remove(executionId)) {
+      logger.info(`Removed cancelled execution ${executionId} from the queue`)
+      return true
+    }
+
+    const controller = this.abortControllers.get(executionId)
+    if (!controller) {
+      return false
+    }
+
+    logger.info(`Cancelling execution ${executionId}`)
+    controller.abort(abortError('CANCELLED', reason))
+    return true
+  }
+
+  /**
+   * Record the timeout or cancellation of an aborted execution
+   */
+  private async recordAbort(execution: TaskExecution, reason: unknown): Promise<'timeout' | 'cancelled'> {
+    const timedOut = (reason as any)?.code === 'TIMEOUT'
+    const message = reason instanceof Error ? reason.message : String(reason)
+    logger.warn(`Task ${execution.id} ${timedOut ? 'timed out' : 'was cancelled'}: ${message}`)
+
+    await this.realtimeService.updateExecutionStatus(execution.id, timedOut ? 'timeout' : 'cancelled', {
+      errorMessage: message,
+      completedAt: new Date().toISOString(),
+      durationMs: Date.now() - new Date(execution.startedAt || execution.queuedAt).getTime(),
+    } as any)
+
+    await this.realtimeService.addExecutionLog(
+      execution.id,
+      'warning',
+      timedOut ? 'Task execution timed out' : 'Task execution cancelled',
+      { reason: message },
+    )
+    return timedOut ? 'timeout' : 'cancelled'
+  }
 
-      // Update execution with failure
+  /**
+   * Retry a failed execution as a child execution
+   *
+   * The failed execution stays in 'retrying' until the child has been created,
+   * then it is marked failed with a pointer to the child. It holds its slot
+   * until then, and the child starts in the same tick the slot is given up.
+   */
+  private async retryExecution(
+    execution: TaskExecution,
+    delayMs: number,
+    error: unknown,
+    parentSignal?: AbortSignal,
+  ): Promise<ExecutionNode | null> {
+    let child: TaskExecution | null = null
+    try {
+      await sleep(delayMs)
+      child = await this.createRetryExecution(execution)
       await this.realtimeService.updateExecutionStatus(execution.id, 'failed', {
         errorMessage: error instanceof Error ? error.message : String(error),
         errorDetails: {
           stack: error instanceof Error ? error.stack : undefined,
           code: error instanceof Error ? (error as any).code : undefined,
+          retryExecutionId: child?.id,
         },
         completedAt: new Date().toISOString(),
         durationMs: Date.now() - new Date(execution.startedAt || execution.queuedAt).getTime(),
       } as any)
 
-      // Log execution failure
-      await this.realtimeService.addExecutionLog(execution.id, 'error', 'Task execution failed', {
-        error: error instanceof Error ? error.message : String(error),
-      })
+      if (child) {
+        await this.realtimeService.addExecutionLog(execution.id, 'info', `Retrying as execution ${child.id}`, {
+          retryExecutionId: child.id,
+          retryCount: child.retryCount,
+        })
+      }
     } finally {
       this.activeExecutions.delete(execution.id)
     }
+
+    if (!child) return null
+    return this.runExecution(child, parentSignal)
+  }
+
+  /**
+   * Create the child execution that retries a failed one, or null if it can't be created
+   */
+  private async createRetryExecution(execution: TaskExecution): Promise<TaskExecution | null> {
+    try {
+      return await this.realtimeService.createExecution({
+        taskId: execution.taskId,
+        scheduleId: execution.scheduleId,
+        trigger: execution.trigger,
+        triggerSource: 'retry',
+        inputParams: execution.inputParams,
+        retryCount: (execution.retryCount || 0) + 1,
+        parentExecutionId: execution.id,
+        context: { workflowDepth: getWorkflowDepth(execution) },
+        // The child runs right here, so don't leave it pending for the agent to pick up
+        status: 'running',
+        startedAt: new Date().toISOString(),
+      })
+    } catch (createError: unknown) {
+      logger.error(`Failed to create retry execution for ${execution.id}:`, createError)
+      return null
+    }
+  }
+
+  /**
+   * Find a task by id, or by name within the organization
+   */
+  private async findTask(reference: string, organizationId?: string): Promise<Task | null> {
+    const localTask = [...this.localTasks.values()].find(task => task.id === reference || task.name === reference)
+    if (localTask) {
+      return localTask
+    }
+    if (UUID_PATTERN.test(reference)) {
+      return this.fetchTask(reference)
+    }
+
+    try {
+      let query = this.supabase.from('tasks').select('*').eq('name', reference)
+      if (organizationId) {
+        query = query.eq('organization_id', organizationId)
+      }
+      const { data, error } = await query.limit(1)
+
+      if (error) {
+        logger.error(`Failed to find task ${reference}:`, error)
+        return null
+      }
+
+      return data?.[0] ? mapTaskRow(data[0]) : null
+    } catch (error) {
+      logger.error(`Error finding task ${reference}:`, error)
+      return null
+    }
   }
 
   /**
    * Fetch task details
    */
   private async fetchTask(taskId: string): Promise<Task | null> {
+    const localTask = this.localTasks.get(taskId)
+    if (localTask) {
+      return localTask
+    }
+
     try {
       const { data, error } = await this.supabase.from('tasks').select('*').eq('id', taskId).single()
 
@@ -123,7 +677,7 @@ export class TaskExecutor {
         return null
       }
 
-      return data as Task
+      return mapTaskRow(data)
     } catch (error) {
       logger.error(`Error fetching task ${taskId}:`, error)
       return null
@@ -131,19 +685,115 @@ export class TaskExecutor {
   }
 
   /**
-   * Execute task workflow
+   * Validate a value against one of the task's schemas, returning it with defaults applied
+   */
+  private validateAgainstSchema(
+    label: 'Input' | 'Output',
+    schema: Record<string, unknown> | undefined,
+    value: unknown,
+  ): unknown {
+    if (!schema) {
+      return value
+    }
+
+    const result = validateSchema(schema, value, { applyDefaults: true, coerceTypes: true })
+    if (!result.valid) {
+      throw nonRetryable(new SchemaValidationError(label, result.errors))
+    }
+    return result.value
+  }
+
+  /**
+   * Execute task workflow, leaving the final context on the outcome if one is given
    */
-  private async executeTaskWorkflow(execution: TaskExecution, task: Task): Promise<any> {
+  private async executeTaskWorkflow(
+    execution: TaskExecution,
+    task: Task,
+    signal?: AbortSignal,
+    outcome?: ExecutionNode,
+  ): Promise<any> {
     const workflow = task.workflow || []
-    const context: Record<string, unknown> = {
-      ...execution.inputParams,
-      executionId: execution.id,
-      taskId: task.id,
+    const checkpoint = getCheckpoint(execution)
+    const context: Record<string, unknown> = checkpoint
+      ? { ...checkpoint.context }
+      : {
+          ...execution.inputParams,
+          executionId: execution.id,
+          taskId: task.id,
+        }
+    const startAt = checkpoint
+      ? Math.max(
+          0,
+          workflow.findIndex(step => step.id === checkpoint.stepId),
+        )
+      : 0
+
+    if (checkpoint) {
+      logger.info(`Resuming execution ${execution.id} at step ${checkpoint.stepId}`)
+      await this.realtimeService.addExecutionLog(execution.id, 'info', 'Resuming from checkpoint', {
+        stepId: checkpoint.stepId,
+        completedSteps: checkpoint.completedSteps,
+      })
     }
 
+    this.workflowRuns.set(execution.id, {
+      stepsExecuted: 0,
+      maxStepExecutions: task.configuration?.maxStepExecutions || DEFAULT_MAX_STEP_EXECUTIONS,
+      signal,
+      organizationId: task.organizationId,
+      maxWorkflowDepth: task.configuration?.maxWorkflowDepth ?? DEFAULT_MAX_WORKFLOW_DEPTH,
+      savedContext: execution.context || {},
+    })
+
+    try {
+      return await this.executeSteps(execution, workflow, context, {
+        startAt,
+        checkpoint: { completedSteps: [...(checkpoint?.completedSteps || [])] },
+      })
+    } finally {
+      if (outcome) {
+        outcome.context = context
+      }
+      this.workflowRuns.delete(execution.id)
+    }
+  }
+
+  /**
+   * Execute a list of workflow steps, storing each result in the context
+   *
+   * Steps run in order unless a step jumps with onSuccess/onFailure. Jump targets
+   * are step ids within the same list, or 'end' to stop the list early. Every
+   * step execution counts against the run's step budget, so cycles abort instead
+   * of running forever.
+   *
+   * The top-level list passes options.checkpoint to save a checkpoint before each
+   * step, so the execution can resume there after an agent restart.
+   */
+  private async executeSteps(
+    execution: TaskExecution,
+    steps: WorkflowStep[],
+    context: Record<string, unknown>,
+    options: { startAt?: number; checkpoint?: { completedSteps: string[] } } = {},
+  ): Promise<any> {
     let result: any = null
+    let pc = options.startAt || 0
+
+    while (pc < steps.length) {
+      const step = steps[pc] as WorkflowStep
+      this.throwIfAborted(execution.id)
+      this.consumeStepBudget(execution.id, step)
+
+      if (options.checkpoint) {
+        await this.saveCheckpoint(execution, {
+          stepId: step.id,
+          inProgress: !isIdempotent(step),
+          completedSteps: options.checkpoint.completedSteps,
+          context,
+        })
+      }
+
+      let target: string | undefined
 
-    for (const step of workflow) {
       try {
         logger.debug(`Executing workflow step: ${step.name}`)
 
@@ -162,14 +812,16 @@ export class TaskExecutor {
           result,
         })
 
-        // Handle step success
-        if (step.onSuccess) {
-          // Jump to specified step
-          const nextStepIndex = workflow.findIndex(s => s.id === step.onSuccess)
-          if (nextStepIndex >= 0) {
-          }
+        // A condition's boolean result picks the branch; other steps follow onSuccess
+        if (step.type === 'condition') {
+          target = result ? step.onSuccess : step.onFailure
+        } else {
+          target = step.onSuccess
         }
       } catch (error: unknown) {
+        // Timeouts and cancellation stop the workflow, whatever the step's error handling says
+        this.throwIfAborted(execution.id)
+
         logger.error(`Workflow step ${step.name} failed:`, error)
 
         // Log step failure
@@ -177,34 +829,195 @@ export class TaskExecutor {
           error: error instanceof Error ? error.message : String(error),
         })
 
-        // Handle step failure
-        if (step.retryOnFailure) {
-          // Retry the step
-          logger.info(`Retrying step ${step.name}`)
+        let finalError: unknown = error
+        let recovered = false
+
+        // Retry the step according to its retry policy
+        const retryPolicy = getStepRetryPolicy(step)
+        for (let attempt = 2; retryPolicy && attempt <= retryPolicy.maxAttempts; attempt++) {
+          if (!isRetryableError(finalError, retryPolicy)) {
+            break
+          }
+
+          const delayMs = getBackoffDelayMs(retryPolicy, attempt - 1)
+          logger.info(`Retrying step ${step.name} (attempt ${attempt}/${retryPolicy.maxAttempts}) in ${delayMs}ms`)
+          await this.realtimeService.addExecutionLog(execution.id, 'warning', `Retrying workflow step: ${step.name}`, {
+            attempt,
+            maxAttempts: retryPolicy.maxAttempts,
+            delayMs,
+          })
+          await sleep(delayMs, this.workflowRuns.get(execution.id)?.signal)
+
           try {
             result = await this.executeWorkflowStep(execution, step, context)
             context[step.id] = result
+            recovered = true
+            break
           } catch (retryError) {
-            if (!step.continueOnError) {
-              throw retryError
-            }
+            finalError = retryError
           }
+        }
+
+        if (recovered) {
+          target = step.onSuccess
+        } else if (step.onFailure) {
+          // The failure is handled by the onFailure target
+          context[step.id] = { error: finalError instanceof Error ? finalError.message : String(finalError) }
+          target = step.onFailure
         } else if (!step.continueOnError) {
-          throw error
+          throw finalError
         }
+      }
 
-        // Handle failure jump
-        if (step.onFailure) {
-          const nextStepIndex = workflow.findIndex(s => s.id === step.onFailure)
-          if (nextStepIndex >= 0) {
-          }
+      options.checkpoint?.completedSteps.push(step.id)
+
+      if (!target) {
+        pc++
+      } else if (target === END_STEP) {
+        logger.debug(`Workflow step ${step.name} ended the workflow`)
+        break
+      } else {
+        const nextStepIndex = steps.findIndex(s => s.id === target)
+        if (nextStepIndex < 0) {
+          throw nonRetryable(new Error(`Workflow step ${step.id} jumps to unknown step: ${target}`))
         }
+
+        logger.debug(`Workflow step ${step.name} jumps to ${target}`)
+        pc = nextStepIndex
       }
     }
 
     return result
   }
 
+  /**
+   * Persist a workflow checkpoint into the execution's context
+   *
+   * A failed write is logged but doesn't fail the workflow; the execution just
+   * resumes from an older checkpoint if the agent dies.
+   */
+  private async saveCheckpoint(
+    execution: TaskExecution,
+    checkpoint: Omit<WorkflowCheckpoint, 'savedAt'>,
+  ): Promise<void> {
+    try {
+      await this.updateSavedContext(execution, {
+        checkpoint: {
+          ...checkpoint,
+          completedSteps: [...checkpoint.completedSteps],
+          context: { ...checkpoint.context },
+          savedAt: new Date().toISOString(),
+        },
+      })
+    } catch (error: unknown) {
+      logger.warn(`Failed to save checkpoint for execution ${execution.id}:`, error)
+    }
+  }
+
+  /**
+   * Update keys of the execution's saved context, keeping the others
+   */
+  private async updateSavedContext(execution: TaskExecution, updates: Record<string, unknown>): Promise<void> {
+    const run = this.workflowRuns.get(execution.id)
+    const context = { ...(run?.savedContext ?? execution.context), ...updates }
+    if (run) {
+      run.savedContext = context
+    }
+    await this.realtimeService.updateExecutionContext(execution.id, context)
+  }
+
+  /**
+   * Resume executions this agent left running before it was restarted
+   *
+   * Executions resume at their last checkpoint. If the agent died in the middle
+   * of a step that isn't idempotent, the execution is failed for manual review
+   * instead of running the step twice. Executions the execution runner ran have
+   * no checkpoints, so they are failed for manual review too. Resumed executions
+   * take a slot like any other execution, or are queued when the agent is at capacity.
+   */
+  async resumeOrphanedExecutions(): Promise<void> {
+    const orphans = await this.realtimeService.findOrphanedExecutions(this.createdAt)
+
+    for (const execution of orphans) {
+      if (this.activeExecutions.has(execution.id) || this.queue.has(execution.id)) continue
+
+      const checkpoint = getCheckpoint(execution)
+      const task = checkpoint ? await this.fetchTask(execution.taskId) : null
+      const step = task?.workflow?.find(s => s.id === checkpoint?.stepId)
+
+      if (!checkpoint && this.executionRunner) {
+        // The execution runner keeps no checkpoints, so there's no telling which of its commands had their effect
+        await this.failOrphan(
+          execution,
+          'MANUAL_REVIEW_REQUIRED',
+          'Execution was interrupted by an agent restart and its commands keep no checkpoints; review it before re-running',
+        )
+      } else if (!checkpoint || !step) {
+        await this.failOrphan(execution, 'INTERRUPTED', 'Execution was interrupted by an agent restart')
+      } else if (checkpoint.inProgress && !isIdempotent(step)) {
+        await this.failOrphan(
+          execution,
+          'MANUAL_REVIEW_REQUIRED',
+          `Execution was interrupted during step ${step.id}, which is not idempotent; review it before re-running`,
+          { stepId: step.id, completedSteps: checkpoint.completedSteps },
+        )
+      } else {
+        logger.info(`Resuming orphaned execution ${execution.id}`)
+        this.resumingExecutions.add(execution.id)
+        this.executeTask(execution).catch(error => {
+          logger.error(`Resumed execution ${execution.id} failed:`, error)
+        })
+      }
+    }
+  }
+
+  /**
+   * Fail an orphaned execution that can't be resumed
+   */
+  private async failOrphan(
+    execution: TaskExecution,
+    code: string,
+    message: string,
+    details: Record<string, unknown> = {},
+  ): Promise<void> {
+    logger.warn(`Cannot resume execution ${execution.id}: ${message}`)
+
+    await this.realtimeService.updateExecutionStatus(execution.id, 'failed', {
+      errorMessage: message,
+      errorDetails: { code, ...details },
+      completedAt: new Date().toISOString(),
+    } as any)
+
+    await this.realtimeService.addExecutionLog(execution.id, 'warning', 'Execution could not be resumed', {
+      code,
+      reason: message,
+    })
+  }
+
+  /**
+   * Throw the abort reason if the execution has timed out or been cancelled
+   */
+  private throwIfAborted(executionId: string): void {
+    this.workflowRuns.get(executionId)?.signal?.throwIfAborted()
+  }
+
+  /**
+   * Count a step execution against the run's step budget
+   */
+  private consumeStepBudget(executionId: string, step: WorkflowStep): void {
+    const run = this.workflowRuns.get(executionId)
+    if (!run) return
+
+    run.stepsExecuted++
+    if (run.stepsExecuted > run.maxStepExecutions) {
+      throw nonRetryable(
+        new Error(
+          `Workflow exceeded its budget of ${run.maxStepExecutions} step executions at step ${step.id}, aborting (possible cycle)`,
+        ),
+      )
+    }
+  }
+
   /**
    * Execute a single workflow step
    */
@@ -213,24 +1026,41 @@ export class TaskExecutor {
     step: WorkflowStep,
     context: Record<string, unknown>,
   ): Promise<any> {
-    switch (step.type) {
-      case 'tool':
-        return await this.executeToolStep(execution, step, context)
+    try {
+      switch (step.type) {
+        case 'tool':
+          return await this.executeToolStep(execution, step, context)
+
+        case 'condition':
+          return await this.executeConditionStep(step, context)
+
+        case 'loop':
+          return await this.executeLoopStep(execution, step, context)
 
-      case 'condition':
-        return await this.executeConditionStep(step, context)
+        case 'parallel':
+          return await this.executeParallelStep(execution, step, context)
 
-      case 'loop':
-        return await this.executeLoopStep(execution, step, context)
+        case 'transform':
+          return await this.executeTransformStep(step, context)
 
-      case 'parallel':
-        return await this.executeParallelStep(execution, step, context)
+        case 'subworkflow':
+          return await this.executeSubworkflowStep(execution, step, context)
 
-      case 'transform':
-        return await this.executeTransformStep(step, context)
+        case 'approval':
+          return await this.executeApprovalStep(execution, step, context)
 
-      default:
-        throw new Error(`Unknown step type: ${step.type}`)
+        default:
+          throw nonRetryable(new Error(`Unknown step type: ${step.type}`))
+      }
+    } catch (error: unknown) {
+      // Point expression errors at the step that contains them
+      if (error instanceof ExpressionError && !error.stepId) {
+        const stepError = new ExpressionError(`Invalid expression in step ${step.id}: ${error.message}`)
+        stepError.stepId = step.id
+        stepError.position = error.position
+        throw stepError
+      }
+      throw error
     }
   }
 
@@ -258,7 +1088,9 @@ export class TaskExecutor {
 
     try {
       // Execute the MCP tool
-      const result = await this.mcpClient.callTool(step.tool, params)
+      const result = await this.mcpClient.callTool(step.tool, params, {
+        signal: this.workflowRuns.get(execution.id)?.signal,
+      })
 
       // Update tool call with result
       toolCall.completedAt = new Date().toISOString()
@@ -266,7 +1098,7 @@ export class TaskExecutor {
       toolCall.result = result
 
       // Save tool call to execution
-      await this.recordToolCall(execution.id, toolCall)
+      await this.realtimeService.recordToolCall(execution.id, toolCall)
 
       return result
     } catch (error: unknown) {
@@ -276,7 +1108,7 @@ export class TaskExecutor {
       toolCall.error = error instanceof Error ? error.message : String(error)
 
       // Save tool call to execution
-      await this.recordToolCall(execution.id, toolCall)
+      await this.realtimeService.recordToolCall(execution.id, toolCall)
 
       throw error
     }
@@ -293,14 +1125,10 @@ export class TaskExecutor {
     const { type, expression, left, operator, right } = step.condition
 
     if (type === 'expression') {
-      // Evaluate JavaScript expression (be careful with this!)
-      // In production, use a safe expression evaluator
-      try {
-        const func = new Function('context', `return ${expression}`)
-        return func(context)
-      } catch (_error) {
-        throw new Error(`Invalid condition expression: ${expression}`)
+      if (!expression) {
+        throw new Error('Expression condition missing expression')
       }
+      return Boolean(evaluateExpression(expression, context))
     } else if (type === 'comparison') {
       const leftValue = this.resolveValue(left, context)
       const rightValue = this.resolveValue(right, context)
@@ -336,130 +1164,353 @@ export class TaskExecutor {
 
   /**
    * Execute a loop step
+   *
+   * Runs the nested steps once per item. Each iteration gets its own copy of the
+   * context with the item and index bound, and the iteration result (the result
+   * of its last step) is collected into the returned array.
    */
   private async executeLoopStep(
-    _execution: TaskExecution,
-    _step: WorkflowStep,
-    _context: Record<string, unknown>,
+    execution: TaskExecution,
+    step: WorkflowStep,
+    context: Record<string, unknown>,
   ): Promise<any[]> {
-    // TODO: Implement loop execution
-    logger.warn('Loop steps not yet implemented')
-    return []
+    if (!step.loop) {
+      throw new Error('Loop step missing loop configuration')
+    }
+
+    const {
+      items,
+      steps,
+      itemVariable = 'item',
+      indexVariable = 'index',
+      maxIterations = DEFAULT_MAX_LOOP_ITERATIONS,
+    } = step.loop
+
+    if (!Array.isArray(steps) || steps.length === 0) {
+      throw new Error(`Loop step ${step.id} has no steps`)
+    }
+
+    const resolvedItems = this.resolveValue(items, context)
+    if (!Array.isArray(resolvedItems)) {
+      throw new Error(`Loop step ${step.id} items did not resolve to an array`)
+    }
+
+    if (resolvedItems.length > maxIterations) {
+      throw new Error(
+        `Loop step ${step.id} has ${resolvedItems.length} items, exceeding the limit of ${maxIterations} iterations`,
+      )
+    }
+
+    const results: any[] = []
+
+    for (const [index, item] of resolvedItems.entries()) {
+      logger.debug(`Loop ${step.name}: iteration ${index + 1}/${resolvedItems.length}`)
+
+      const iterationContext: Record<string, unknown> = {
+        ...context,
+        [itemVariable]: item,
+        [indexVariable]: index,
+      }
+
+      results.push(await this.executeSteps(execution, steps, iterationContext))
+    }
+
+    await this.realtimeService.addExecutionLog(execution.id, 'debug', `Loop ${step.name} finished`, {
+      iterations: results.length,
+    })
+
+    return results
   }
 
   /**
    * Execute a parallel step
+   *
+   * Runs each branch on its own copy of the context, at most `concurrency` at a
+   * time. The branch results are returned keyed by branch id. A failing branch
+   * fails the step once all started branches have settled, unless the branch
+   * sets continueOnError, in which case its error is recorded in the results.
    */
   private async executeParallelStep(
-    _execution: TaskExecution,
-    _step: WorkflowStep,
-    _context: Record<string, unknown>,
-  ): Promise<any[]> {
-    // TODO: Implement parallel execution
-    logger.warn('Parallel steps not yet implemented')
-    return []
+    execution: TaskExecution,
+    step: WorkflowStep,
+    context: Record<string, unknown>,
+  ): Promise<Record<string, unknown>> {
+    if (!step.parallel) {
+      throw new Error('Parallel step missing parallel configuration')
+    }
+
+    const { branches, concurrency } = step.parallel
+
+    if (!Array.isArray(branches) || branches.length === 0) {
+      throw new Error(`Parallel step ${step.id} has no branches`)
+    }
+
+    const limit = Math.max(1, Math.min(concurrency || branches.length, branches.length))
+    const results: Record<string, unknown> = {}
+    const failures: Array<{ branch: ParallelBranch; error: unknown }> = []
+    let nextBranch = 0
+
+    const runBranch = async (branch: ParallelBranch): Promise<void> => {
+      const branchName = branch.name || branch.id
+
+      await this.realtimeService.addExecutionLog(execution.id, 'debug', `Starting parallel branch: ${branchName}`, {
+        stepId: step.id,
+        branchId: branch.id,
+      })
+
+      try {
+        results[branch.id] = await this.executeSteps(execution, branch.steps, { ...context })
+
+        await this.realtimeService.addExecutionLog(execution.id, 'debug', `Completed parallel branch: ${branchName}`, {
+          stepId: step.id,
+          branchId: branch.id,
+        })
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error)
+
+        await this.realtimeService.addExecutionLog(
+          execution.id,
+          branch.continueOnError ? 'warning' : 'error',
+          `Parallel branch failed: ${branchName}`,
+          {
+            stepId: step.id,
+            branchId: branch.id,
+            error: message,
+          },
+        )
+
+        if (branch.continueOnError) {
+          results[branch.id] = { error: message }
+        } else {
+          failures.push({ branch, error })
+        }
+      }
+    }
+
+    // Each worker keeps pulling the next branch until none are left
+    const workers = Array.from({ length: limit }, async () => {
+      while (nextBranch < branches.length && !this.workflowRuns.get(execution.id)?.signal?.aborted) {
+        const branch = branches[nextBranch++]
+        if (branch) {
+          await runBranch(branch)
+        }
+      }
+    })
+
+    await Promise.all(workers)
+    this.throwIfAborted(execution.id)
+
+    const firstFailure = failures[0]
+    if (firstFailure) {
+      const message = firstFailure.error instanceof Error ? firstFailure.error.message : String(firstFailure.error)
+      throw new Error(
+        `Parallel step ${step.id} failed: branch ${firstFailure.branch.id} failed: ${message}` +
+          (failures.length > 1 ? ` (${failures.length} branches failed)` : ''),
+      )
+    }
+
+    return results
   }
 
   /**
    * Execute a transform step
    */
   private async executeTransformStep(step: WorkflowStep, context: Record<string, unknown>): Promise<any> {
-    const params = this.resolveParams(step.params || {}, context)
-
-    // Simple JSON transformation
-    // In production, use a proper transformation library
-    return params
+    return applyTransform(step.params || {}, context)
   }
 
   /**
-   * Resolve parameters with context values
+   * Execute a sub-workflow step: run another task as a child execution
+   *
+   * By default the step waits for the child and returns its output. With
+   * wait: false the child is left pending for the agent to pick up and the step
+   * returns its execution id.
    */
-  private resolveParams(params: Record<string, unknown>, context: Record<string, unknown>): Record<string, unknown> {
-    const resolved: Record<string, unknown> = {}
+  private async executeSubworkflowStep(
+    execution: TaskExecution,
+    step: WorkflowStep,
+    context: Record<string, unknown>,
+  ): Promise<any> {
+    const config = step.subworkflow
+    if (!config?.task) {
+      throw nonRetryable(new Error(`Sub-workflow step ${step.id} must name a task`))
+    }
 
-    for (const [key, value] of Object.entries(params)) {
-      resolved[key] = this.resolveValue(value, context)
+    const run = this.workflowRuns.get(execution.id)
+    const depth = getWorkflowDepth(execution) + 1
+    const maxDepth = run?.maxWorkflowDepth ?? DEFAULT_MAX_WORKFLOW_DEPTH
+    if (depth > maxDepth) {
+      throw nonRetryable(new Error(`Sub-workflow step ${step.id} exceeds the maximum workflow depth of ${maxDepth}`))
     }
 
-    return resolved
+    const reference = String(this.resolveValue(config.task, context))
+    const task = await this.findTask(reference, run?.organizationId)
+    if (!task) {
+      throw nonRetryable(new Error(`Sub-workflow step ${step.id} references unknown task: ${reference}`))
+    }
+
+    const wait = config.wait !== false
+    const child = await this.realtimeService.createExecution({
+      taskId: task.id,
+      trigger: execution.trigger,
+      triggerSource: 'subworkflow',
+      inputParams: this.resolveParams(config.params || {}, context),
+      parentExecutionId: execution.id,
+      context: { workflowDepth: depth },
+      // A child we wait for runs right here, so don't leave it pending for the agent to pick up
+      ...(wait ? { status: 'running' as const, startedAt: new Date().toISOString() } : {}),
+    })
+
+    await this.realtimeService.addExecutionLog(execution.id, 'info', `Started sub-workflow: ${task.name}`, {
+      childExecutionId: child.id,
+      taskId: task.id,
+      depth,
+      wait,
+    })
+
+    const children = this.childExecutions.get(execution.id)
+    if (!wait) {
+      children?.push({ executionId: child.id, taskName: task.name, status: child.status, children: [] })
+      return { executionId: child.id, status: child.status }
+    }
+
+    const outcome = await this.runExecution(child, run?.signal)
+    children?.push(outcome)
+    this.throwIfAborted(execution.id)
+
+    if (outcome.status !== 'completed') {
+      throw new Error(
+        `Sub-workflow ${task.name} ${outcome.status} (execution ${outcome.executionId}): ${outcome.error || 'no output'}`,
+      )
+    }
+    return outcome.result
   }
 
   /**
-   * Resolve a value with context
+   * Execute an approval step: wait until someone approves or rejects
+   *
+   * The request is saved in the execution's context and the execution moves to
+   * 'waiting' until the request is decided or times out. A rejection fails the
+   * step, so onFailure can handle it.
    */
-  private resolveValue(value: any, context: Record<string, unknown>): any {
-    if (typeof value === 'string' && value.startsWith('{{') && value.endsWith('}}')) {
-      // Template variable: {{variable}}
-      const varName = value.slice(2, -2).trim()
-      return this.getNestedValue(context, varName)
-    } else if (typeof value === 'object' && value !== null) {
-      // Recursively resolve object values
-      if (Array.isArray(value)) {
-        return value.map(v => this.resolveValue(v, context))
-      } else {
-        const resolved: Record<string, unknown> = {}
-        for (const [k, v] of Object.entries(value)) {
-          resolved[k] = this.resolveValue(v, context)
+  private async executeApprovalStep(
+    execution: TaskExecution,
+    step: WorkflowStep,
+    context: Record<string, unknown>,
+  ): Promise<any> {
+    if (this.realtimeService.supportsApprovals === false) {
+      throw nonRetryable(
+        Object.assign(
+          new Error(
+            `Approval step ${step.id} can't run locally: approvals are decided on the platform, so run the task on an agent`,
+          ),
+          { code: 'APPROVAL_UNAVAILABLE' },
+        ),
+      )
+    }
+
+    const config = step.approval || {}
+    const signal = this.workflowRuns.get(execution.id)?.signal
+    const timeoutSeconds = config.timeoutSeconds ?? DEFAULT_APPROVAL_TIMEOUT_SECONDS
+    const requestedAt = new Date()
+    const expiresAt = new Date(requestedAt.getTime() + timeoutSeconds * 1000)
+
+    let request: ApprovalRequest = {
+      stepId: step.id,
+      message: String(this.resolveValue(config.message ?? `Approval required for step ${step.name}`, context)),
+      status: 'pending',
+      requestedAt: requestedAt.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+    }
+    await this.updateSavedContext(execution, { approval: request })
+    await this.realtimeService.updateExecutionStatus(execution.id, 'waiting')
+    await this.realtimeService.addExecutionLog(execution.id, 'info', `Approval requested: ${request.message}`, {
+      stepId: step.id,
+      expiresAt: request.expiresAt,
+      approve: `veas exec approve ${execution.id}`,
+      reject: `veas exec reject ${execution.id}`,
+    })
+
+    if (config.channelId) {
+      await this.mcpClient.callTool(
+        'mcp-chat_send_message',
+        {
+          channel_id: this.resolveValue(config.channelId, context),
+          content: `${request.message}\n\nApprove with \`veas exec approve ${execution.id}\` or reject with \`veas exec reject ${execution.id}\`.`,
+        },
+        { signal },
+      )
+    }
+
+    // Poll for the decision; it's written to the execution row by the platform or the CLI
+    while (request.status === 'pending') {
+      const saved = (await this.realtimeService.getExecutionContext(execution.id)).approval as
+        | ApprovalRequest
+        | undefined
+      if (saved?.stepId === step.id && saved.requestedAt === request.requestedAt && saved.status !== 'pending') {
+        request = saved
+        break
+      }
+
+      const remainingMs = expiresAt.getTime() - Date.now()
+      if (remainingMs <= 0) {
+        request = {
+          ...request,
+          status: config.defaultOutcome === 'approve' ? 'approved' : 'rejected',
+          decidedBy: 'timeout',
+          decidedAt: new Date().toISOString(),
         }
-        return resolved
+        await this.updateSavedContext(execution, { approval: request })
+        break
       }
+
+      await sleep(Math.min(APPROVAL_POLL_INTERVAL_MS, remainingMs), signal)
+    }
+
+    await this.realtimeService.updateExecutionStatus(execution.id, 'running', { startedAt: execution.startedAt })
+    await this.realtimeService.addExecutionLog(
+      execution.id,
+      request.status === 'approved' ? 'info' : 'warning',
+      `Approval ${request.status} by ${request.decidedBy || 'unknown'}`,
+      { stepId: step.id, comment: request.comment },
+    )
+
+    if (request.status === 'rejected') {
+      const reason = request.comment ? `: ${request.comment}` : ''
+      throw nonRetryable(
+        Object.assign(
+          new Error(`Approval rejected for step ${step.id} by ${request.decidedBy || 'unknown'}${reason}`),
+          {
+            code: 'APPROVAL_REJECTED',
+          },
+        ),
+      )
     }
 
-    return value
+    return { approved: true, decidedBy: request.decidedBy, decidedAt: request.decidedAt, comment: request.comment }
   }
 
   /**
-   * Get nested value from object
+   * Resolve parameters with context values
    */
-  private getNestedValue(obj: any, path: string): any {
-    const parts = path.split('.')
-    let current = obj
+  private resolveParams(params: Record<string, unknown>, context: Record<string, unknown>): Record<string, unknown> {
+    const resolved: Record<string, unknown> = {}
 
-    for (const part of parts) {
-      if (current === null || current === undefined) {
-        return undefined
-      }
-      current = current[part]
+    for (const [key, value] of Object.entries(params)) {
+      resolved[key] = this.resolveValue(value, context)
     }
 
-    return current
+    return resolved
   }
 
   /**
-   * Record a tool call
+   * Resolve a value with context
+   *
+   * A string that is exactly {{expression}} keeps the result type, while
+   * "text {{expression}}" is interpolated. Arrays and objects are resolved recursively.
    */
-  private async recordToolCall(executionId: string, toolCall: ToolCall): Promise<void> {
-    try {
-      // Get current tool calls
-      const { data: execution, error: fetchError } = await this.supabase
-        .from('executions')
-        .select('tool_calls')
-        .eq('id', executionId)
-        .single()
-
-      if (fetchError) {
-        logger.error(`Failed to fetch execution: ${fetchError.message}`)
-        return
-      }
-
-      const toolCalls = execution?.tool_calls || []
-      toolCalls.push(toolCall)
-
-      // Update tool calls and count
-      const { error: updateError } = await this.supabase
-        .from('executions')
-        .update({
-          tool_calls: toolCalls,
-          tool_calls_count: toolCalls.length,
-        })
-        .eq('id', executionId)
-
-      if (updateError) {
-        logger.error(`Failed to record tool call: ${updateError.message}`)
-      }
-    } catch (error) {
-      logger.error('Error recording tool call:', error)
-    }
+  private resolveValue(value: any, context: Record<string, unknown>): any {
+    return resolveTemplates(value, context)
   }
 
   /**
@@ -469,6 +1520,13 @@ export class TaskExecutor {
     return this.activeExecutions.size
   }
 
+  /**
+   * Get the number of executions waiting for a free slot
+   */
+  getQueuedExecutionsCount(): number {
+    return this.queue.size
+  }
+
   /**
    * Get active execution IDs
    */
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+import { applyTransform, coerceValue } from './transform.js'
+
+describe('transform', () => {
+  const context = {
+    my_issues: {
+      issues: [
+        { key: 'A-1', summary: 'Crash on start', status: 'todo', priority: '2', assignee: { name: 'Sam' } },
+        { key: 'A-2', summary: 'Typo', status: 'done', priority: '1', assignee: null },
+        { key: 'A-3', summary: 'Slow sync', status: 'todo', priority: '3' },
+      ],
+    },
+    channel: 'chan-1',
+  }
+
+  it('should resolve plain params like before', () => {
+    expect(applyTransform({ channel: '{{channel}}', count: '{{my_issues.issues.length}}' }, context)).toEqual({
+      channel: 'chan-1',
+      count: 3,
+    })
+  })
+
+  it('should filter, map and sort items', () => {
+    const result = applyTransform(
+      {
+        source: '{{my_issues.issues}}',
+        operations: [
+          { filter: "item.status != 'done'" },
+          { coerce: { priority: 'number' } },
+          { sortBy: { field: 'priority', order: 'desc' } },
+          { map: { key: '{{item.key}}', line: '{{index + 1}}. {{item.summary}}' } },
+        ],
+      },
+      context,
+    )
+
+    expect(result).toEqual([
+      { key: 'A-3', line: '1. Slow sync' },
+      { key: 'A-1', line: '2. Crash on start' },
+    ])
+  })
+
+  it('should pick fields and apply defaults', () => {
+    const result = applyTransform(
+      {
+        source: '{{my_issues.issues}}',
+        operations: [{ pick: ['key', 'assignee.name'] }, { defaults: { name: 'unassigned' } }, { limit: 2 }],
+      },
+      context,
+    )
+
+    expect(result).toEqual([
+      { key: 'A-1', name: 'Sam' },
+      { key: 'A-2', name: 'unassigned' },
+    ])
+  })
+
+  it('should group and flatten', () => {
+    expect(applyTransform({ source: '{{my_issues.issues}}', operations: [{ groupBy: 'status' }] }, context)).toEqual({
+      todo: [context.my_issues.issues[0], context.my_issues.issues[2]],
+      done: [context.my_issues.issues[1]],
+    })
+    expect(applyTransform({ source: [[1, [2]], [3]], operations: [{ flatten: true }] }, context)).toEqual([1, [2], 3])
+  })
+
+  it('should shape the result with an output template', () => {
+    const result = applyTransform(
+      {
+        source: '{{my_issues.issues}}',
+        operations: [{ filter: "item.status == 'todo'" }, { map: '{{item.key}}' }],
+        output: { channel_id: '{{channel}}', content: "Open issues: {{join(result, ', ')}}" },
+      },
+      context,
+    )
+
+    expect(result).toEqual({ channel_id: 'chan-1', content: 'Open issues: A-1, A-3' })
+  })
+
+  it('should reject invalid operations', () => {
+    expect(() => applyTransform({ source: 'text', operations: [{ sortBy: 'key' }] }, context)).toThrow(
+      "Transform operation 'sortBy' expects an array",
+    )
+    expect(() => applyTransform({ source: [], operations: [{ reverse: true } as any] }, context)).toThrow(
+      'Transform operation must have exactly one of',
+    )
+  })
+
+  it.each([
+    ['42', 'number', 42],
+    ['abc', 'number', null],
+    ['42.9', 'integer', 42],
+    ['false', 'boolean', false],
+    ['yes', 'boolean', true],
+    [5, 'string', '5'],
+    ['2025-01-02T03:04:05Z', 'date', '2025-01-02T03:04:05.000Z'],
+    ['x', 'array', ['x']],
+  ] as const)('should coerce %j to %s', (value, type, expected) => {
+    expect(coerceValue(value, type)).toEqual(expected)
+  })
+})
@@ -0,0 +1,233 @@
+/**
+ * Workflow Transforms
+ *
+ * Declarative data mapping for transform steps. A transform takes a source value,
+ * runs it through a list of operations and optionally shapes the result into an
+ * output template.
+ */
+
+import { evaluateExpression, isPlainObject, resolveTemplates } from './expression.js'
+
+export type CoercionType = 'string' | 'number' | 'integer' | 'boolean' | 'date' | 'array'
+
+export type TransformOperation =
+  | { map: unknown }
+  | { filter: string }
+  | { pick: string[] }
+  | { omit: string[] }
+  | { defaults: Record<string, unknown> }
+  | { coerce: Record<string, CoercionType> }
+  | { sortBy: string | { field: string; order?: 'asc' | 'desc' } }
+  | { groupBy: string }
+  | { flatten: boolean | number }
+  | { limit: number }
+
+export interface TransformSpec {
+  /** Value to transform, usually a template such as '{{my_issues.issues}}' */
+  source?: unknown
+  /** Operations applied to the source in order */
+  operations?: TransformOperation[]
+  /** Template for the final value; the transformed source is available as {{result}} */
+  output?: unknown
+}
+
+const OPERATION_NAMES = ['map', 'filter', 'pick', 'omit', 'defaults', 'coerce', 'sortBy', 'groupBy', 'flatten', 'limit']
+
+/**
+ * Read a dotted field path from an item
+ */
+function getPath(value: unknown, path: string): unknown {
+  let current = value
+  for (const part of path.split('.')) {
+    if (!isPlainObject(current) && !Array.isArray(current)) return undefined
+    if (!Object.hasOwn(current, part)) return undefined
+    current = (current as Record<string, unknown>)[part]
+  }
+  return current
+}
+
+function requireArray(value: unknown, operation: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`Transform operation '${operation}' expects an array`)
+  }
+  return value
+}
+
+/**
+ * Apply an operation to a single object, or to every object of an array
+ */
+function eachObject(value: unknown, fn: (item: Record<string, unknown>) => Record<string, unknown>): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => (isPlainObject(item) ? fn(item) : item))
+  }
+  return isPlainObject(value) ? fn(value) : value
+}
+
+export function coerceValue(value: unknown, type: CoercionType): unknown {
+  if (value === undefined || value === null) {
+    return value
+  }
+
+  switch (type) {
+    case 'string':
+      return typeof value === 'object' ? JSON.stringify(value) : String(value)
+    case 'number': {
+      const number = Number(value)
+      return Number.isNaN(number) ? null : number
+    }
+    case 'integer': {
+      const number = Number.parseInt(String(value), 10)
+      return Number.isNaN(number) ? null : number
+    }
+    case 'boolean':
+      if (typeof value === 'string') {
+        return !['', 'false', '0', 'no', 'off'].includes(value.trim().toLowerCase())
+      }
+      return Boolean(value)
+    case 'date': {
+      const date = new Date(value as string | number)
+      return Number.isNaN(date.getTime()) ? null : date.toISOString()
+    }
+    case 'array':
+      return Array.isArray(value) ? value : [value]
+    default:
+      throw new Error(`Unknown coercion type: ${type}`)
+  }
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  // Missing values always sort last
+  if (a === undefined || a === null) return b === undefined || b === null ? 0 : 1
+  if (b === undefined || b === null) return -1
+  if (typeof a === 'number' && typeof b === 'number') return a - b
+  return String(a).localeCompare(String(b))
+}
+
+function applyOperation(value: unknown, operation: TransformOperation, scope: Record<string, unknown>): unknown {
+  const names = Object.keys(operation).filter(key => OPERATION_NAMES.includes(key))
+  if (names.length !== 1) {
+    throw new Error(
+      `Transform operation must have exactly one of: ${OPERATION_NAMES.join(', ')} (got ${Object.keys(operation).join(', ') || 'nothing'})`,
+    )
+  }
+
+  const op = operation as Record<string, any>
+
+  switch (names[0]) {
+    case 'map':
+      return requireArray(value, 'map').map((item, index) => resolveTemplates(op.map, { ...scope, item, index }))
+
+    case 'filter':
+      return requireArray(value, 'filter').filter((item, index) =>
+        Boolean(evaluateExpression(String(op.filter), { ...scope, item, index })),
+      )
+
+    case 'pick':
+      return eachObject(value, item => {
+        const picked: Record<string, unknown> = {}
+        for (const field of op.pick as string[]) {
+          const fieldValue = getPath(item, field)
+          if (fieldValue !== undefined) {
+            picked[field.split('.').pop() as string] = fieldValue
+          }
+        }
+        return picked
+      })
+
+    case 'omit':
+      return eachObject(value, item => {
+        const rest = { ...item }
+        for (const field of op.omit as string[]) {
+          delete rest[field]
+        }
+        return rest
+      })
+
+    case 'defaults':
+      return eachObject(value, item => {
+        const withDefaults = { ...item }
+        for (const [field, fallback] of Object.entries(op.defaults as Record<string, unknown>)) {
+          if (withDefaults[field] === undefined || withDefaults[field] === null) {
+            withDefaults[field] = fallback
+          }
+        }
+        return withDefaults
+      })
+
+    case 'coerce':
+      return eachObject(value, item => {
+        const coerced = { ...item }
+        for (const [field, type] of Object.entries(op.coerce as Record<string, CoercionType>)) {
+          if (field in coerced) {
+            coerced[field] = coerceValue(coerced[field], type)
+          }
+        }
+        return coerced
+      })
+
+    case 'sortBy': {
+      const { field, order = 'asc' } = typeof op.sortBy === 'string' ? { field: op.sortBy } : op.sortBy
+      const direction = order === 'desc' ? -1 : 1
+      return [...requireArray(value, 'sortBy')].sort((a, b) => {
+        const aValue = getPath(a, field)
+        const bValue = getPath(b, field)
+        // Keep missing values last regardless of direction
+        if (aValue === undefined || aValue === null || bValue === undefined || bValue === null) {
+          return compareValues(aValue, bValue)
+        }
+        return compareValues(aValue, bValue) * direction
+      })
+    }
+
+    case 'groupBy': {
+      const groups: Record<string, unknown[]> = {}
+      for (const item of requireArray(value, 'groupBy')) {
+        const key = String(getPath(item, op.groupBy) ?? 'undefined')
+        if (!Object.hasOwn(groups, key)) {
+          groups[key] = []
+        }
+        groups[key]?.push(item)
+      }
+      return groups
+    }
+
+    case 'flatten': {
+      const depth = op.flatten === true ? 1 : Number(op.flatten) || 0
+      return requireArray(value, 'flatten').flat(depth)
+    }
+
+    case 'limit':
+      return requireArray(value, 'limit').slice(0, Number(op.limit))
+  }
+
+  return value
+}
+
+/**
+ * Run a transform step's params against the workflow context
+ *
+ * Params without source, operations or output are resolved and returned as-is,
+ * which keeps simple transform steps (building an object from templates) working.
+ */
+export function applyTransform(params: Record<string, unknown>, context: Record<string, unknown>): unknown {
+  const spec = params as TransformSpec
+  if (!('source' in spec) && !('operations' in spec) && !('output' in spec)) {
+    return resolveTemplates(params, context)
+  }
+
+  let result = resolveTemplates(spec.source, context)
+
+  if (spec.operations !== undefined && !Array.isArray(spec.operations)) {
+    throw new Error('Transform operations must be an array')
+  }
+
+  for (const operation of spec.operations || []) {
+    result = applyOperation(result, operation, context)
+  }
+
+  if (spec.output !== undefined) {
+    return resolveTemplates(spec.output, { ...context, result })
+  }
+
+  return result
+}
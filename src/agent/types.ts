@@ -4,6 +4,8 @@
  * Type definitions for the agent execution system
  */
 
+import type { TaskHandlerCapabilities } from '../types/agents.js'
+
 export interface AgentDestination {
   id: string
   organizationId: string
@@ -34,7 +36,7 @@ export interface TaskExecution {
   scheduleId?: string
   agentId?: string
   destinationId?: string
-  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled'
+  status: 'pending' | 'running' | 'waiting' | 'retrying' | 'completed' | 'failed' | 'cancelled' | 'timeout'
   trigger: 'manual' | 'scheduled' | 'webhook' | 'event'
   triggerSource?: string
   inputParams: Record<string, unknown>
@@ -87,19 +89,38 @@ export interface TaskConfiguration {
   workflow?: WorkflowStep[]
   tools?: string[]
   parameters?: Record<string, unknown>
-  retryPolicy?: {
-    maxAttempts: number
-    backoffSeconds: number
-    backoffMultiplier: number
-  }
+  /** Retries for the whole execution; each retry runs as a child execution */
+  retryPolicy?: RetryPolicy
+  /** Execution timeout in seconds; Task.timeoutSeconds takes precedence */
   timeout?: number
   environment?: Record<string, string>
+  /** Maximum number of step executions per run before the workflow is aborted */
+  maxStepExecutions?: number
+  /** Maximum nesting of sub-workflow executions (defaults to 5) */
+  maxWorkflowDepth?: number
+}
+
+export interface RetryPolicy {
+  /** Total number of attempts, including the first one */
+  maxAttempts: number
+  /** Delay before the first retry */
+  backoffSeconds: number
+  /** Factor applied to the delay for every further retry (defaults to 2) */
+  backoffMultiplier: number
+  /** Upper bound for the delay (defaults to 300) */
+  maxBackoffSeconds?: number
+  /** Random spread applied to the delay as a fraction, 0-1 (defaults to 0.1) */
+  jitter?: number
+  /** Only retry errors whose code or message matches one of these */
+  retryableErrors?: string[]
+  /** Never retry errors whose code or message matches one of these */
+  nonRetryableErrors?: string[]
 }
 
 export interface WorkflowStep {
   id: string
   name: string
-  type: 'tool' | 'condition' | 'loop' | 'parallel' | 'transform'
+  type: 'tool' | 'condition' | 'loop' | 'parallel' | 'transform' | 'subworkflow' | 'approval'
   tool?: string
   params?: Record<string, unknown>
   condition?: {
@@ -109,9 +130,95 @@ export interface WorkflowStep {
     operator?: string
     right?: any
   }
+  loop?: {
+    /** Array to iterate over, usually a template such as '{{list_issues.issues}}' */
+    items: unknown
+    /** Steps run once per item */
+    steps: WorkflowStep[]
+    /** Context variable the current item is bound to (defaults to 'item') */
+    itemVariable?: string
+    /** Context variable the current index is bound to (defaults to 'index') */
+    indexVariable?: string
+    /** Fail the step if there are more items than this (defaults to 1000) */
+    maxIterations?: number
+  }
+  parallel?: {
+    /** Branches run concurrently, each with its own list of steps */
+    branches: ParallelBranch[]
+    /** Maximum number of branches running at once (defaults to all) */
+    concurrency?: number
+  }
+  subworkflow?: {
+    /** Id or name of the task to run as a child execution; may be a template */
+    task: string
+    /** Input params for the child execution, resolved against the context */
+    params?: Record<string, unknown>
+    /** Wait for the child and return its output (defaults to true) */
+    wait?: boolean
+  }
+  approval?: {
+    /** What is being approved; may contain templates */
+    message?: string
+    /** Chat channel to post the request to with mcp-chat_send_message */
+    channelId?: string
+    /** How long to wait for a decision (defaults to 24 hours) */
+    timeoutSeconds?: number
+    /** Decision applied when nobody decides in time (defaults to 'reject') */
+    defaultOutcome?: 'approve' | 'reject'
+  }
+  /** Step id to jump to after success (or when a condition is true); 'end' stops the workflow */
   onSuccess?: string
+  /** Step id to jump to after failure (or when a condition is false); 'end' stops the workflow */
   onFailure?: string
+  /** Retry the step once, immediately (shorthand for retryPolicy: { maxAttempts: 2 }) */
   retryOnFailure?: boolean
+  /** Retries with backoff; takes precedence over retryOnFailure */
+  retryPolicy?: Partial<RetryPolicy>
+  continueOnError?: boolean
+  /**
+   * Safe to run again if the agent died while running it (defaults to true for
+   * condition, transform and approval steps, false otherwise)
+   */
+  idempotent?: boolean
+}
+
+/**
+ * Approval requested by an approval step, saved in the execution's context as `approval`
+ *
+ * The request is decided by setting status to 'approved' or 'rejected', either
+ * on the platform or with `veas exec approve|reject`.
+ */
+export interface ApprovalRequest {
+  stepId: string
+  message: string
+  status: 'pending' | 'approved' | 'rejected'
+  requestedAt: string
+  expiresAt: string
+  decidedBy?: string
+  decidedAt?: string
+  comment?: string
+}
+
+/**
+ * Progress of a workflow, saved in the execution's context before each step
+ */
+export interface WorkflowCheckpoint {
+  /** Step that is about to run, or running */
+  stepId: string
+  /** The step may have started and is not idempotent */
+  inProgress: boolean
+  /** Ids of the top-level steps completed so far, in order */
+  completedSteps: string[]
+  /** Workflow context before the step */
+  context: Record<string, unknown>
+  savedAt: string
+}
+
+export interface ParallelBranch {
+  id: string
+  name?: string
+  steps: WorkflowStep[]
+  /** Record the branch error instead of failing the parallel step */
   continueOnError?: boolean
 }
 
@@ -150,7 +257,10 @@ export interface AgentConfig {
   name: string
   organizationId: string
   capabilities?: Record<string, unknown>
+  /** Names of the agent's tool commands, reported with the MCP tools in supported_tools */
   supportedTools?: string[]
+  /** Task types this agent can run, with their capabilities; defaults to workflow, single and batch */
+  taskTypes?: Record<string, TaskHandlerCapabilities>
   maxConcurrentTasks?: number
   heartbeatIntervalMs?: number
   apiKey?: string
@@ -0,0 +1,49 @@
+/**
+ * Tests for loading workflow files
+ */
+
+import { describe, expect, it } from 'vitest'
+import { parseWorkflowFile } from './workflow-file.js'
+
+describe('parseWorkflowFile', () => {
+  it('should load a task definition from YAML', () => {
+    const task = parseWorkflowFile(
+      `
+name: Triage
+input_schema:
+  type: object
+timeout_seconds: 60
+workflow:
+  - id: issues
+    name: List issues
+    type: tool
+    tool: mcp-project-manager_list_my_issues
+`,
+      'workflows/triage.yaml',
+    )
+
+    expect(task).toMatchObject({
+      id: 'local:Triage',
+      name: 'Triage',
+      inputSchema: { type: 'object' },
+      timeoutSeconds: 60,
+      maxRetries: 0,
+      configuration: {},
+      workflow: [{ id: 'issues', type: 'tool', tool: 'mcp-project-manager_list_my_issues' }],
+    })
+  })
+
+  it('should accept a bare list of steps and name the task after the file', () => {
+    const task = parseWorkflowFile('[{ "id": "check", "name": "Check", "type": "condition" }]', 'nightly-check.json')
+
+    expect(task.name).toBe('nightly-check')
+    expect(task.workflow).toHaveLength(1)
+  })
+
+  it('should reject files without a workflow', () => {
+    expect(() => parseWorkflowFile('name: Empty', 'empty.yaml')).toThrow(
+      'empty.yaml must contain a list of workflow steps or a task with a "workflow" list',
+    )
+    expect(() => parseWorkflowFile('{ "workflow": [', 'broken.json')).toThrow('Failed to parse broken.json')
+  })
+})
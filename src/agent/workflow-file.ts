@@ -0,0 +1,55 @@
+/**
+ * Workflow Files
+ *
+ * Loads task definitions from local YAML or JSON files, so workflows can be run
+ * and checked without creating a task on the platform. A file holds either a
+ * task definition with a `workflow` or just the list of steps.
+ */
+
+import { readFile } from 'node:fs/promises'
+import path from 'node:path'
+import * as yaml from 'js-yaml'
+import { mapTaskRow } from './task-executor.js'
+import type { Task } from './types.js'
+
+/**
+ * Load a task definition from a workflow file
+ */
+export async function loadWorkflowFile(filePath: string): Promise<Task> {
+  const content = await readFile(filePath, 'utf-8')
+  return parseWorkflowFile(content, filePath)
+}
+
+/**
+ * Parse the content of a workflow file; the path names the task if the file doesn't
+ */
+export function parseWorkflowFile(content: string, filePath: string): Task {
+  let definition: any
+  try {
+    definition = path.extname(filePath).toLowerCase() === '.json' ? JSON.parse(content) : yaml.load(content)
+  } catch (error: unknown) {
+    throw new Error(`Failed to parse ${filePath}: ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  if (Array.isArray(definition)) {
+    definition = { workflow: definition }
+  }
+  if (!definition || typeof definition !== 'object' || !Array.isArray(definition.workflow)) {
+    throw new Error(`${filePath} must contain a list of workflow steps or a task with a "workflow" list`)
+  }
+
+  const name = definition.name || path.basename(filePath, path.extname(filePath))
+  return mapTaskRow({
+    id: `local:${name}`,
+    name,
+    taskType: 'workflow',
+    status: 'active',
+    tools: [],
+    parameters: {},
+    tags: [],
+    version: 1,
+    isPublic: false,
+    ...definition,
+    configuration: definition.configuration || {},
+  })
+}
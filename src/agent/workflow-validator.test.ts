@@ -0,0 +1,196 @@
+/**
+ * Tests for workflow validation
+ */
+
+import { describe, expect, it } from 'vitest'
+import type { WorkflowStep } from './types.js'
+import { validateWorkflow } from './workflow-validator.js'
+
+const tools = ['mcp-project-manager_list_my_issues', 'mcp-project-manager_update_issue']
+
+describe('validateWorkflow', () => {
+  it('should accept a valid workflow', () => {
+    const result = validateWorkflow(
+      {
+        inputSchema: { type: 'object', properties: { status: { type: 'string' } } },
+        workflow: [
+          {
+            id: 'issues',
+            name: 'List issues',
+            type: 'tool',
+            tool: 'mcp-project-manager_list_my_issues',
+            params: { status: '{{status}}' },
+          },
+          {
+            id: 'has_issues',
+            name: 'Has issues',
+            type: 'condition',
+            condition: { type: 'expression', expression: 'length(issues.issues) > 0' },
+            onFailure: 'end',
+          },
+          {
+            id: 'update',
+            name: 'Update each',
+            type: 'loop',
+            loop: {
+              items: '{{issues.issues}}',
+              itemVariable: 'issue',
+              steps: [
+                {
+                  id: 'touch',
+                  name: 'Touch',
+                  type: 'tool',
+                  tool: 'mcp-project-manager_update_issue',
+                  params: { id: '{{issue.id}}', note: 'Run {{executionId}} #{{index}}' },
+                },
+              ],
+            },
+          },
+        ],
+      },
+      { tools },
+    )
+
+    expect(result).toEqual({ valid: true, errors: [], warnings: [] })
+  })
+
+  it('should report duplicate ids, bad jump targets and missing condition blocks', () => {
+    const result = validateWorkflow({
+      workflow: [
+        { id: 'check', name: 'Check', type: 'condition', onSuccess: 'notfy' },
+        { id: 'notify', name: 'Notify', type: 'tool', tool: 'mcp-chat_send_message' },
+        { id: 'notify', name: 'Notify again', type: 'tool', tool: 'mcp-chat_send_message' },
+      ] as WorkflowStep[],
+    })
+
+    expect(result.valid).toBe(false)
+    expect(result.errors).toEqual([
+      {
+        severity: 'error',
+        path: 'workflow[2].id',
+        stepId: 'notify',
+        message: 'Duplicate step id "notify"',
+      },
+      {
+        severity: 'error',
+        path: 'workflow[0].onSuccess',
+        stepId: 'check',
+        message: 'Jump target "notfy" does not exist',
+      },
+      {
+        severity: 'error',
+        path: 'workflow[0]',
+        stepId: 'check',
+        message: 'Condition step is missing its condition block',
+      },
+    ])
+  })
+
+  it('should report schema errors and unknown properties with their step', () => {
+    const result = validateWorkflow({
+      workflow: [
+        {
+          id: 'retry',
+          name: 'Retry',
+          type: 'tool',
+          tool: 'mcp-project-manager_list_my_issues',
+          retryPolicy: { maxAttempts: 0 },
+          onSucess: 'end',
+        },
+        { id: 'mystery', type: 'script' },
+      ] as unknown as WorkflowStep[],
+    })
+
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        path: 'workflow[0].retryPolicy.maxAttempts',
+        stepId: 'retry',
+        message: 'must be >= 1',
+      }),
+      expect.objectContaining({ path: 'workflow[1].type', stepId: 'mystery' }),
+    ])
+    expect(result.warnings).toEqual([
+      { severity: 'warning', path: 'workflow[0].onSucess', stepId: 'retry', message: 'Unknown property' },
+    ])
+  })
+
+  it('should report tools missing from the registry', () => {
+    const result = validateWorkflow(
+      { workflow: [{ id: 'issues', name: 'Issues', type: 'tool', tool: 'mcp-project-manager_list_issues' }] },
+      { tools },
+    )
+
+    expect(result.errors).toEqual([
+      expect.objectContaining({ path: 'workflow[0].tool', message: 'Unknown tool "mcp-project-manager_list_issues"' }),
+    ])
+  })
+
+  it('should check that templates refer to earlier steps and inputs', () => {
+    const result = validateWorkflow({
+      inputSchema: { type: 'object', properties: { project: { type: 'string' } } },
+      workflow: [
+        {
+          id: 'summary',
+          name: 'Summary',
+          type: 'transform',
+          params: { source: '{{isues.issues}}', output: { project: '{{project}}', later: '{{update.id}}' } },
+        },
+        {
+          id: 'update',
+          name: 'Update',
+          type: 'tool',
+          tool: 'mcp-project-manager_update_issue',
+          params: { a: '{{a +}}', b: '\\{{ isues }}', c: "docker ps --format '{{.Names}}'" },
+        },
+      ],
+    })
+
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        path: 'workflow[0].params.source',
+        message: '{{isues.issues}} refers to "isues", which is not an earlier step or an input',
+      }),
+      expect.objectContaining({
+        path: 'workflow[1].params.a',
+        stepId: 'update',
+        message: expect.stringContaining('Invalid expression {{a +}}: Unexpected end of expression'),
+      }),
+    ])
+    expect(result.warnings).toEqual([
+      expect.objectContaining({
+        path: 'workflow[0].params.output.later',
+        message: '{{update.id}} refers to step "update", which has not run before this step',
+      }),
+    ])
+  })
+
+  it('should keep steps inside loops and branches out of the outer scope', () => {
+    const result = validateWorkflow({
+      workflow: [
+        {
+          id: 'fan_out',
+          name: 'Fan out',
+          type: 'parallel',
+          parallel: {
+            branches: [{ id: 'a', steps: [{ id: 'inner', name: 'Inner', type: 'transform', params: {} }] }],
+          },
+        },
+        {
+          id: 'after',
+          name: 'After',
+          type: 'condition',
+          onSuccess: 'inner',
+          condition: { type: 'expression', expression: 'fan_out.a != null' },
+        },
+      ],
+    })
+
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        path: 'workflow[1].onSuccess',
+        message: 'Jump target "inner" is not in the same step list; jumps cannot enter or leave loops and branches',
+      }),
+    ])
+    expect(result.warnings).toEqual([])
+  })
+})
@@ -0,0 +1,525 @@
+/**
+ * Workflow Validator
+ *
+ * Checks a workflow definition before it runs: the step structure against a
+ * schema, unique step ids, jump targets, tool names and the paths used in
+ * {{ }} templates. Every issue carries the location of the step it belongs to.
+ */
+
+import { type JsonSchema, validateSchema } from '../utils/json-schema.js'
+import {
+  ExpressionError,
+  type ExpressionNode,
+  isForeignTemplate,
+  isPlainObject,
+  PLAIN_PATH,
+  parseExpression,
+  TEMPLATE,
+} from './expression.js'
+import type { Task, WorkflowStep } from './types.js'
+
+export interface ValidationIssue {
+  severity: 'error' | 'warning'
+  /** Location in the task definition, e.g. workflow[2].loop.steps[0].onSuccess */
+  path: string
+  /** Id of the step the issue belongs to, if any */
+  stepId?: string
+  message: string
+}
+
+export interface WorkflowValidationResult {
+  valid: boolean
+  errors: ValidationIssue[]
+  warnings: ValidationIssue[]
+}
+
+export interface WorkflowValidationOptions {
+  /** Tool names from the registry; tool steps are only checked against it when given */
+  tools?: string[]
+}
+
+const STEP_TYPES = ['tool', 'condition', 'loop', 'parallel', 'transform', 'subworkflow', 'approval']
+
+/** Step blocks and the step type that reads each of them */
+const TYPE_BLOCKS: Record<string, string> = {
+  tool: 'tool',
+  condition: 'condition',
+  loop: 'loop',
+  parallel: 'parallel',
+  subworkflow: 'subworkflow',
+  approval: 'approval',
+}
+
+/** Names every template can use, besides input params and earlier steps */
+const BUILT_IN_NAMES = ['context', 'executionId', 'taskId']
+
+/** Transforms bind the current item in map/filter and the transformed source in output */
+const TRANSFORM_NAMES = ['item', 'index', 'result']
+
+const WORKFLOW_SCHEMA: JsonSchema = {
+  type: 'array',
+  items: { $ref: '#/definitions/step' },
+  definitions: {
+    step: {
+      type: 'object',
+      required: ['id', 'type'],
+      additionalProperties: false,
+      properties: {
+        id: { type: 'string', minLength: 1 },
+        name: { type: 'string' },
+        type: { enum: STEP_TYPES },
+        tool: { type: 'string', minLength: 1 },
+        params: { type: 'object' },
+        condition: {
+          type: 'object',
+          required: ['type'],
+          properties: {
+            type: { enum: ['expression', 'comparison'] },
+            expression: { type: 'string' },
+            operator: { enum: ['==', '===', '!=', '!==', '>', '>=', '<', '<=', 'contains', 'startsWith', 'endsWith'] },
+          },
+        },
+        loop: {
+          type: 'object',
+          required: ['items', 'steps'],
+          properties: {
+            steps: { type: 'array', minItems: 1, items: { $ref: '#/definitions/step' } },
+            itemVariable: { type: 'string', minLength: 1 },
+            indexVariable: { type: 'string', minLength: 1 },
+            maxIterations: { type: 'integer', minimum: 1 },
+          },
+        },
+        parallel: {
+          type: 'object',
+          required: ['branches'],
+          properties: {
+            branches: {
+              type: 'array',
+              minItems: 1,
+              items: {
+                type: 'object',
+                required: ['id', 'steps'],
+                properties: {
+                  id: { type: 'string', minLength: 1 },
+                  name: { type: 'string' },
+                  steps: { type: 'array', minItems: 1, items: { $ref: '#/definitions/step' } },
+                  continueOnError: { type: 'boolean' },
+                },
+              },
+            },
+            concurrency: { type: 'integer', minimum: 1 },
+          },
+        },
+        subworkflow: {
+          type: 'object',
+          required: ['task'],
+          properties: {
+            task: { type: 'string', minLength: 1 },
+            params: { type: 'object' },
+            wait: { type: 'boolean' },
+          },
+        },
+        approval: {
+          type: 'object',
+          properties: {
+            message: { type: 'string' },
+            channelId: { type: 'string' },
+            timeoutSeconds: { type: 'number', exclusiveMinimum: 0 },
+            defaultOutcome: { enum: ['approve', 'reject'] },
+          },
+        },
+        onSuccess: { type: 'string', minLength: 1 },
+        onFailure: { type: 'string', minLength: 1 },
+        retryOnFailure: { type: 'boolean' },
+        retryPolicy: {
+          type: 'object',
+          properties: {
+            maxAttempts: { type: 'integer', minimum: 1 },
+            backoffSeconds: { type: 'number', minimum: 0 },
+            backoffMultiplier: { type: 'number', minimum: 1 },
+            maxBackoffSeconds: { type: 'number', minimum: 0 },
+            jitter: { type: 'number', minimum: 0, maximum: 1 },
+            retryableErrors: { type: 'array', items: { type: 'string' } },
+            nonRetryableErrors: { type: 'array', items: { type: 'string' } },
+          },
+        },
+        continueOnError: { type: 'boolean' },
+        idempotent: { type: 'boolean' },
+      },
+    },
+  },
+}
+
+/**
+ * Names visible to the templates of a step
+ */
+interface TemplateScope {
+  /** Step ids that have run before the step */
+  steps: Set<string>
+  /** Loop and transform variables */
+  variables: Set<string>
+}
+
+/**
+ * Turn a JSON Pointer into a readable path, e.g. /2/loop/steps/0 to workflow[2].loop.steps[0]
+ */
+function pointerToPath(pointer: string): string {
+  return pointer
+    .split('/')
+    .slice(1)
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce((path, segment) => (/^\d+$/.test(segment) ? `${path}[${segment}]` : `${path}.${segment}`), 'workflow')
+}
+
+/**
+ * Find the id of the innermost step a JSON Pointer points into
+ */
+function stepIdAt(workflow: unknown, pointer: string): string | undefined {
+  let current = workflow
+  let stepId: string | undefined
+  for (const segment of pointer.split('/').slice(1)) {
+    if (!isPlainObject(current) && !Array.isArray(current)) break
+    const isStep = Array.isArray(current)
+    current = (current as Record<string, unknown>)[segment]
+    if (isStep && isPlainObject(current) && typeof current.id === 'string' && typeof current.type === 'string') {
+      stepId = current.id
+    }
+  }
+  return stepId
+}
+
+/**
+ * Collect the root names an expression reads, e.g. `issues` for `length(issues) > 0`
+ *
+ * `context.name` and `context['name']` count as reading `name`.
+ */
+function collectRoots(node: ExpressionNode, roots: Set<string>): void {
+  switch (node.type) {
+    case 'identifier':
+      roots.add(node.name)
+      break
+    case 'member':
+      if (
+        node.object.type === 'identifier' &&
+        node.object.name === 'context' &&
+        node.property.type === 'literal' &&
+        typeof node.property.value === 'string'
+      ) {
+        roots.add(node.property.value)
+      } else {
+        collectRoots(node.object, roots)
+        if (node.property.type !== 'literal') collectRoots(node.property, roots)
+      }
+      break
+    case 'call':
+      for (const arg of node.args) collectRoots(arg, roots)
+      break
+    case 'array':
+      for (const element of node.elements) collectRoots(element, roots)
+      break
+    case 'unary':
+      collectRoots(node.argument, roots)
+      break
+    case 'binary':
+      collectRoots(node.left, roots)
+      collectRoots(node.right, roots)
+      break
+    case 'conditional':
+      collectRoots(node.test, roots)
+      collectRoots(node.consequent, roots)
+      collectRoots(node.alternate, roots)
+      break
+    case 'literal':
+      break
+  }
+}
+
+/**
+ * Collect every step id of a step list, including nested loop and parallel steps
+ */
+function collectStepIds(steps: WorkflowStep[], ids: Set<string>): void {
+  for (const step of steps) {
+    if (!isPlainObject(step)) continue
+    if (typeof step.id === 'string') ids.add(step.id)
+    if (Array.isArray(step.loop?.steps)) collectStepIds(step.loop.steps, ids)
+    for (const branch of Array.isArray(step.parallel?.branches) ? step.parallel.branches : []) {
+      if (Array.isArray(branch?.steps)) collectStepIds(branch.steps, ids)
+    }
+  }
+}
+
+class WorkflowValidator {
+  private errors: ValidationIssue[] = []
+  private warnings: ValidationIssue[] = []
+  private allStepIds = new Set<string>()
+  private inputNames: Set<string> | undefined
+  private tools: Set<string> | undefined
+
+  constructor(task: Pick<Task, 'workflow' | 'inputSchema'>, options: WorkflowValidationOptions) {
+    const properties = task.inputSchema?.properties
+    this.inputNames = isPlainObject(properties) ? new Set(Object.keys(properties)) : undefined
+    this.tools = options.tools ? new Set(options.tools) : undefined
+  }
+
+  validate(workflow: unknown): WorkflowValidationResult {
+    if (!Array.isArray(workflow) || workflow.length === 0) {
+      this.report('error', 'workflow', undefined, 'Workflow must be a non-empty list of steps')
+      return this.result()
+    }
+
+    for (const error of validateSchema(WORKFLOW_SCHEMA, workflow).errors) {
+      // Unknown properties are often typos (onSucess), but never stop a step from running
+      this.report(
+        error.keyword === 'additionalProperties' ? 'warning' : 'error',
+        pointerToPath(error.path),
+        stepIdAt(workflow, error.path),
+        error.keyword === 'additionalProperties' ? 'Unknown property' : error.message,
+      )
+    }
+
+    collectStepIds(workflow, this.allStepIds)
+    this.checkSteps(workflow, 'workflow', { steps: new Set(), variables: new Set() })
+    return this.result()
+  }
+
+  private result(): WorkflowValidationResult {
+    return { valid: this.errors.length === 0, errors: this.errors, warnings: this.warnings }
+  }
+
+  private report(severity: ValidationIssue['severity'], path: string, stepId: string | undefined, message: string) {
+    const issue: ValidationIssue = { severity, path, message }
+    if (stepId !== undefined) issue.stepId = stepId
+    ;(severity === 'error' ? this.errors : this.warnings).push(issue)
+  }
+
+  /**
+   * Check a step list; each step sees the steps before it in the list plus the enclosing scope
+   */
+  private checkSteps(steps: WorkflowStep[], path: string, scope: TemplateScope): void {
+    const ids = new Set<string>()
+    for (const [index, step] of steps.entries()) {
+      if (!isPlainObject(step) || typeof step.id !== 'string') continue
+      const stepPath = `${path}[${index}]`
+      if (step.id === 'end') {
+        this.report('error', `${stepPath}.id`, step.id, "'end' is reserved for jumps and cannot be a step id")
+      } else if (ids.has(step.id)) {
+        this.report('error', `${stepPath}.id`, step.id, `Duplicate step id "${step.id}"`)
+      }
+      ids.add(step.id)
+    }
+
+    const visible = new Set(scope.steps)
+    for (const [index, step] of steps.entries()) {
+      if (!isPlainObject(step)) continue
+      const stepPath = `${path}[${index}]`
+      this.checkStep(step, stepPath, ids, { steps: visible, variables: scope.variables })
+      if (typeof step.id === 'string') visible.add(step.id)
+    }
+  }
+
+  private checkStep(step: WorkflowStep, path: string, siblingIds: Set<string>, scope: TemplateScope): void {
+    const stepId = typeof step.id === 'string' ? step.id : undefined
+
+    for (const key of ['onSuccess', 'onFailure'] as const) {
+      const target = step[key]
+      if (typeof target !== 'string' || target === 'end' || siblingIds.has(target)) continue
+      this.report(
+        'error',
+        `${path}.${key}`,
+        stepId,
+        this.allStepIds.has(target)
+          ? `Jump target "${target}" is not in the same step list; jumps cannot enter or leave loops and branches`
+          : `Jump target "${target}" does not exist`,
+      )
+    }
+
+    for (const [block, type] of Object.entries(TYPE_BLOCKS)) {
+      if (step[block as keyof WorkflowStep] !== undefined && step.type !== type && STEP_TYPES.includes(step.type)) {
+        this.report('warning', `${path}.${block}`, stepId, `'${block}' is ignored by ${step.type} steps`)
+      }
+    }
+
+    switch (step.type) {
+      case 'tool':
+        if (!step.tool) {
+          this.report('error', path, stepId, 'Tool step is missing a tool name')
+        } else if (this.tools && !step.tool.includes('{{') && !this.tools.has(step.tool)) {
+          this.report('error', `${path}.tool`, stepId, `Unknown tool "${step.tool}"`)
+        }
+        this.checkTemplates(step.params, `${path}.params`, stepId, scope)
+        break
+      case 'condition':
+        this.checkCondition(step, path, stepId, scope)
+        break
+      case 'loop':
+        if (!isPlainObject(step.loop)) {
+          this.report('error', path, stepId, 'Loop step is missing its loop block')
+          break
+        }
+        this.checkTemplates(step.loop.items, `${path}.loop.items`, stepId, scope)
+        if (Array.isArray(step.loop.steps)) {
+          this.checkSteps(step.loop.steps, `${path}.loop.steps`, {
+            steps: scope.steps,
+            variables: new Set([
+              ...scope.variables,
+              step.loop.itemVariable || 'item',
+              step.loop.indexVariable || 'index',
+            ]),
+          })
+        }
+        break
+      case 'parallel':
+        if (!isPlainObject(step.parallel)) {
+          this.report('error', path, stepId, 'Parallel step is missing its parallel block')
+          break
+        }
+        this.checkBranches(step, path, stepId, scope)
+        break
+      case 'transform':
+        this.checkTemplates(step.params, `${path}.params`, stepId, {
+          steps: scope.steps,
+          variables: new Set([...scope.variables, ...TRANSFORM_NAMES]),
+        })
+        break
+      case 'subworkflow':
+        if (!isPlainObject(step.subworkflow)) {
+          this.report('error', path, stepId, 'Sub-workflow step is missing its subworkflow block')
+          break
+        }
+        this.checkTemplates(step.subworkflow.task, `${path}.subworkflow.task`, stepId, scope)
+        this.checkTemplates(step.subworkflow.params, `${path}.subworkflow.params`, stepId, scope)
+        break
+      case 'approval':
+        if (step.approval?.channelId && this.tools && !this.tools.has('mcp-chat_send_message')) {
+          this.report(
+            'warning',
+            `${path}.approval.channelId`,
+            stepId,
+            'Approval requests are posted with mcp-chat_send_message, which is not in the tool registry',
+          )
+        }
+        this.checkTemplates(step.approval, `${path}.approval`, stepId, scope)
+        break
+    }
+  }
+
+  private checkCondition(step: WorkflowStep, path: string, stepId: string | undefined, scope: TemplateScope): void {
+    const condition = step.condition
+    if (!isPlainObject(condition)) {
+      this.report('error', path, stepId, 'Condition step is missing its condition block')
+      return
+    }
+
+    if (condition.type === 'expression') {
+      if (typeof condition.expression !== 'string' || condition.expression.trim() === '') {
+        this.report('error', `${path}.condition`, stepId, 'Expression condition is missing its expression')
+      } else {
+        this.checkExpression(condition.expression, `${path}.condition.expression`, stepId, scope)
+      }
+    } else if (condition.type === 'comparison') {
+      if (condition.operator === undefined) {
+        this.report('error', `${path}.condition`, stepId, 'Comparison condition is missing its operator')
+      }
+      this.checkTemplates(condition.left, `${path}.condition.left`, stepId, scope)
+      this.checkTemplates(condition.right, `${path}.condition.right`, stepId, scope)
+    }
+  }
+
+  private checkBranches(step: WorkflowStep, path: string, stepId: string | undefined, scope: TemplateScope): void {
+    const branches = Array.isArray(step.parallel?.branches) ? step.parallel.branches : []
+    const branchIds = new Set<string>()
+    for (const [index, branch] of branches.entries()) {
+      if (!isPlainObject(branch)) continue
+      const branchPath = `${path}.parallel.branches[${index}]`
+      if (typeof branch.id === 'string') {
+        if (branchIds.has(branch.id)) {
+          this.report('error', `${branchPath}.id`, stepId, `Duplicate branch id "${branch.id}"`)
+        }
+        branchIds.add(branch.id)
+      }
+      // Branches run side by side, so they only see what ran before the parallel step
+      if (Array.isArray(branch.steps)) {
+        this.checkSteps(branch.steps, `${branchPath}.steps`, scope)
+      }
+    }
+  }
+
+  /**
+   * Check the {{ }} templates in every string of a value
+   */
+  private checkTemplates(value: unknown, path: string, stepId: string | undefined, scope: TemplateScope): void {
+    if (typeof value === 'string') {
+      for (const match of value.matchAll(TEMPLATE)) {
+        if (!match[1] && !isForeignTemplate(match[2] as string)) {
+          this.checkExpression(match[2] as string, path, stepId, scope, match[0])
+        }
+      }
+    } else if (Array.isArray(value)) {
+      for (const [index, item] of value.entries()) {
+        this.checkTemplates(item, `${path}[${index}]`, stepId, scope)
+      }
+    } else if (isPlainObject(value)) {
+      for (const [key, item] of Object.entries(value)) {
+        this.checkTemplates(item, `${path}.${key}`, stepId, scope)
+      }
+    }
+  }
+
+  /**
+   * Check that an expression parses and that the names it reads will exist when it runs
+   */
+  private checkExpression(
+    source: string,
+    path: string,
+    stepId: string | undefined,
+    scope: TemplateScope,
+    template?: string,
+  ): void {
+    const display = template ?? source
+    const trimmed = source.trim()
+    const roots = new Set<string>()
+
+    if (PLAIN_PATH.test(trimmed) && trimmed.includes('-')) {
+      roots.add(trimmed.split('.')[0] as string)
+    } else {
+      try {
+        collectRoots(parseExpression(trimmed), roots)
+      } catch (error: unknown) {
+        const message = error instanceof ExpressionError ? error.message : String(error)
+        this.report('error', path, stepId, `Invalid expression ${display}: ${message}`)
+        return
+      }
+    }
+
+    for (const root of roots) {
+      if (BUILT_IN_NAMES.includes(root) || scope.steps.has(root) || scope.variables.has(root)) continue
+
+      if (this.allStepIds.has(root)) {
+        this.report('warning', path, stepId, `${display} refers to step "${root}", which has not run before this step`)
+      } else if (this.inputNames && !this.inputNames.has(root)) {
+        this.report('error', path, stepId, `${display} refers to "${root}", which is not an earlier step or an input`)
+      } else if (!this.inputNames) {
+        this.report(
+          'warning',
+          path,
+          stepId,
+          `${display} refers to "${root}", which is not an earlier step; it must be passed as an input param`,
+        )
+      }
+    }
+  }
+}
+
+/**
+ * Validate a task's workflow
+ *
+ * Template paths are checked against the steps that run before the template
+ * and against the task's input schema. Without an input schema, names that are
+ * not steps are assumed to be input params and only reported as warnings.
+ */
+export function validateWorkflow(
+  task: Pick<Task, 'workflow' | 'inputSchema'>,
+  options: WorkflowValidationOptions = {},
+): WorkflowValidationResult {
+  return new WorkflowValidator(task, options).validate(task.workflow)
+}
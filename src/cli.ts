@@ -9,9 +9,12 @@ import { agentStatus, listAgents, startAgent, stopAgent } from './commands/agent
 import { login, logout, refresh, status } from './commands/auth.js'
 import { deleteDestination, listDestinations, registerDestination, watchDestination } from './commands/destination.js'
 import { docsSync as syncDocs } from './commands/docs-sync-mcp.js'
+import { approveExecution, listArtifacts, rejectExecution, retryFailedItems } from './commands/exec.js'
 import { configureForClaude, listProjects, test as testMCP } from './commands/mcp.js'
 import { createPAT, listPATs, revokePAT } from './commands/pat.js'
 import { serve } from './commands/serve.js'
+import { runTask, validateTask } from './commands/task.js'
+import { pruneWorkspacesCommand } from './commands/workspace.js'
 
 // Load environment variables (prioritize .env.local over .env)
 dotenv.config({ path: '.env.local' })
@@ -104,6 +107,7 @@ destCmd
   .command('register')
   .description('Register a new destination')
   .option('--organization-id <id>', 'Organization ID (will prompt if not provided)')
+  .option('--tools-config <path>', 'Config file defining tool commands (default: VEAS_TOOLS_CONFIG or ./veas.yaml)')
   .action(registerDestination)
 
 destCmd
@@ -128,8 +132,11 @@ agentCmd
   .option('--name <name>', 'Agent name')
   .option('--organization-id <id>', 'Organization ID')
   .option('--max-concurrent-tasks <count>', 'Maximum concurrent tasks', '1')
+  .option('--max-queued-tasks <count>', 'Executions queued at capacity before releasing them to other agents', '20')
   .option('--heartbeat-interval <ms>', 'Heartbeat interval in milliseconds', '30000')
   .option('--capabilities <json>', 'Agent capabilities as JSON')
+  .option('--task-handlers <paths>', 'Comma-separated task handler modules to load')
+  .option('--tools-config <path>', 'Config file defining tool commands (default: VEAS_TOOLS_CONFIG or ./veas.yaml)')
   .option('--debug', 'Enable debug logging', false)
   .option('--verbose', 'Enable verbose logging for debugging', false)
   .action(startAgent)
@@ -140,6 +147,65 @@ agentCmd.command('status').description('Show agent status').action(agentStatus)
 
 agentCmd.command('list').description('List all agents').action(listAgents)
 
+// Execution commands
+const execCmd = program.command('exec').description('Task execution commands')
+
+execCmd
+  .command('approve <executionId>')
+  .description('Approve an execution waiting at an approval step')
+  .option('--comment <comment>', 'Comment recorded with the decision')
+  .action(approveExecution)
+
+execCmd
+  .command('reject <executionId>')
+  .description('Reject an execution waiting at an approval step')
+  .option('--comment <comment>', 'Comment recorded with the decision')
+  .action(rejectExecution)
+
+execCmd
+  .command('retry-failed <executionId>')
+  .description('Run the failed items of a batch execution again as a new execution')
+  .action(retryFailedItems)
+
+execCmd
+  .command('artifacts <executionId>')
+  .description('List the artifacts of an execution')
+  .option('--download <dir>', 'Download the artifacts into a directory, checking their checksums')
+  .action(listArtifacts)
+
+// Task commands
+const taskCmd = program.command('task').description('Task workflow development commands')
+
+taskCmd
+  .command('run')
+  .description('Run a workflow from a local YAML or JSON file')
+  .requiredOption('--file <path>', 'Workflow file')
+  .option('--param <key=value>', 'Input param, repeatable', (value: string, params: string[]) => [...params, value], [])
+  .option('--mock', 'Call standalone mock tools instead of the MCP endpoint', false)
+  .option('--json', 'Output the outcome as JSON', false)
+  .option('--verbose', 'Show full log data and engine logging', false)
+  .action(runTask)
+
+taskCmd
+  .command('validate')
+  .description('Check a workflow for errors before running it')
+  .option('--file <path>', 'Workflow file')
+  .option('--task <id>', 'Task on the platform')
+  .option('--offline', 'Skip checking tool names against the tool registry', false)
+  .option('--json', 'Output the issues as JSON', false)
+  .action(validateTask)
+
+// Workspace commands
+const workspaceCmd = program.command('workspace').description('Execution workspace commands')
+
+workspaceCmd
+  .command('prune')
+  .description('Remove kept execution workspaces whose retention period is over')
+  .option('--all', 'Remove every workspace', false)
+  .option('--older-than <days>', 'Remove workspaces created more than this many days ago')
+  .option('--dry-run', 'Only list the workspaces that would be removed', false)
+  .action(pruneWorkspacesCommand)
+
 // Serve command (standalone for backward compatibility)
 program
   .command('serve')
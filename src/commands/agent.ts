@@ -8,12 +8,14 @@ import { createClient } from '@supabase/supabase-js'
 import chalk from 'chalk'
 import { config as loadEnv } from 'dotenv'
 import ora from 'ora'
-import { AgentRegistry } from '../agent/agent-registry.js'
+import { AgentRegistry, getSupportedTools } from '../agent/agent-registry.js'
 import { RealtimeService } from '../agent/realtime-service.js'
 import { TaskExecutor } from '../agent/task-executor.js'
 import type { AgentConfig, TaskExecution } from '../agent/types.js'
 import { AuthManager } from '../auth/auth-manager.js'
 import { MCPClient } from '../mcp/mcp-client.js'
+import { describeTaskTypes, loadTaskHandlers } from '../services/task-handlers.js'
+import { loadToolCommands } from '../services/tool-commands.js'
 
 // Load environment variables
 loadEnv({ path: '.env.local' })
@@ -24,8 +26,11 @@ interface AgentOptions {
   name?: string
   organizationId?: string
   maxConcurrentTasks?: string
+  maxQueuedTasks?: string
   heartbeatInterval?: string
   capabilities?: string
+  taskHandlers?: string
+  toolsConfig?: string
   debug?: boolean
   verbose?: boolean
 }
@@ -85,6 +90,22 @@ export async function startAgent(options: AgentOptions): Promise<void> {
       }
     }
 
+    // Load extra task handlers, from --task-handlers or VEAS_TASK_HANDLERS (comma separated module paths)
+    const handlerModules = (options.taskHandlers || process.env.VEAS_TASK_HANDLERS || '')
+      .split(',')
+      .map(path => path.trim())
+      .filter(Boolean)
+    const taskHandlers = await loadTaskHandlers(handlerModules)
+    const taskTypes = describeTaskTypes(taskHandlers)
+    if (taskHandlers.length > 0) {
+      spinner.info(`Loaded task handlers: ${taskHandlers.map(handler => handler.type).join(', ')}`)
+      spinner.start()
+    }
+
+    // Load the tools tasks can list, from --tools-config, VEAS_TOOLS_CONFIG or ./veas.yaml
+    const toolCommands = await loadToolCommands(options.toolsConfig)
+    const supportedTools = Object.keys(toolCommands)
+
     // If destination ID is provided, use it; otherwise create/register destination
     let destinationId = options.destinationId
     let registry: AgentRegistry | null = null
@@ -95,6 +116,8 @@ export async function startAgent(options: AgentOptions): Promise<void> {
         name: options.name || `veas-agent-${process.env.HOSTNAME || 'unknown'}`,
         organizationId,
         capabilities,
+        supportedTools,
+        taskTypes,
         maxConcurrentTasks: parseInt(options.maxConcurrentTasks || '1', 10),
         heartbeatIntervalMs: parseInt(options.heartbeatInterval || '30000', 10),
         supabaseUrl,
@@ -137,6 +160,16 @@ export async function startAgent(options: AgentOptions): Promise<void> {
         process.exit(1)
       }
 
+      const { error: toolsError } = await supabase
+        .schema('agents')
+        .from('agent_destinations')
+        .update({ supported_tools: getSupportedTools(supportedTools) })
+        .eq('id', destinationId)
+      if (toolsError) {
+        spinner.warn(`Failed to update supported tools: ${toolsError.message}`)
+        spinner.start()
+      }
+
       spinner.succeed(`Using destination: ${destination.name}`)
     }
 
@@ -172,24 +205,17 @@ export async function startAgent(options: AgentOptions): Promise<void> {
       supabaseUrl,
       supabaseAnonKey,
       realtimeConfig.maxConcurrentTasks,
+      parseInt(options.maxQueuedTasks || '20', 10),
     )
 
-    // Create realtime service
-    const realtimeService = new RealtimeService(realtimeConfig, async (execution: TaskExecution) => {
-      console.log(chalk.blue(`\n${'='.repeat(60)}`))
-      console.log(chalk.blue(`📋 NEW TASK EXECUTION REQUEST`))
-      console.log(chalk.blue(`   Execution ID: ${execution.id}`))
-      console.log(chalk.blue(`   Task ID: ${execution.taskId}`))
-      console.log(chalk.blue(`   Trigger: ${execution.trigger}`))
-      console.log(chalk.blue(`   Time: ${new Date().toLocaleTimeString()}`))
-      console.log(chalk.blue(`${'='.repeat(60)}\n`))
+    // Report running and queued executions in heartbeats
+    registry?.setTaskExecutor(taskExecutor)
 
-      if (options.verbose) {
-        console.log(chalk.gray('[VERBOSE] Full execution object:'))
-        console.log(chalk.gray(JSON.stringify(execution, null, 2)))
-      }
+    // Command executors of running executions, so cancellations can reach them
+    const runningExecutors = new Map<string, { cancelExecution(executionId: string): boolean }>()
 
-      // Automatically start executing the task command
+    // Executions take a slot of the task executor, or wait in its queue, and run their commands once admitted
+    taskExecutor.setExecutionRunner(async (execution: TaskExecution) => {
       try {
         if (options.verbose) {
           console.log(chalk.gray('[VERBOSE] Creating task executor...'))
@@ -206,6 +232,9 @@ export async function startAgent(options: AgentOptions): Promise<void> {
           }),
           destinationId,
           organizationId,
+          taskHandlers,
+          mcpClient,
+          toolCommands,
         )
 
         if (options.verbose) {
@@ -213,7 +242,12 @@ export async function startAgent(options: AgentOptions): Promise<void> {
         }
 
         // Execute the task using the simple executor which handles commands directly
-        await simpleTaskExecutor.executeTask(execution.id)
+        runningExecutors.set(execution.id, simpleTaskExecutor)
+        try {
+          await simpleTaskExecutor.executeTask(execution.id)
+        } finally {
+          runningExecutors.delete(execution.id)
+        }
       } catch (error) {
         console.error(chalk.red('Failed to execute task:'), error)
 
@@ -228,6 +262,36 @@ export async function startAgent(options: AgentOptions): Promise<void> {
       }
     })
 
+    // Create realtime service
+    const realtimeService = new RealtimeService(realtimeConfig, async (execution: TaskExecution) => {
+      console.log(chalk.blue(`\n${'='.repeat(60)}`))
+      console.log(chalk.blue(`📋 NEW TASK EXECUTION REQUEST`))
+      console.log(chalk.blue(`   Execution ID: ${execution.id}`))
+      console.log(chalk.blue(`   Task ID: ${execution.taskId}`))
+      console.log(chalk.blue(`   Trigger: ${execution.trigger}`))
+      console.log(chalk.blue(`   Time: ${new Date().toLocaleTimeString()}`))
+      console.log(chalk.blue(`${'='.repeat(60)}\n`))
+
+      if (options.verbose) {
+        console.log(chalk.gray('[VERBOSE] Full execution object:'))
+        console.log(chalk.gray(JSON.stringify(execution, null, 2)))
+      }
+
+      try {
+        await taskExecutor.executeTask(execution)
+      } catch (error) {
+        console.error(chalk.red('Failed to execute task:'), error)
+      }
+    })
+
+    // Stop executions that are cancelled while they run
+    realtimeService.setExecutionCancelledHandler((executionId: string) => {
+      const executor = runningExecutors.get(executionId)
+      if (executor?.cancelExecution(executionId) || taskExecutor.cancelExecution(executionId)) {
+        console.log(chalk.yellow(`\n⏹️  Execution ${executionId} cancelled`))
+      }
+    })
+
     // Set the realtime service in task executor
     // @ts-expect-error - Hacky but works for now
     taskExecutor.realtimeService = realtimeService
@@ -235,6 +299,14 @@ export async function startAgent(options: AgentOptions): Promise<void> {
     // Set destination ID in realtime service
     realtimeService.setDestinationId(destinationId)
 
+    // Pick up workflows left running when a previous agent process died, before
+    // new executions are claimed
+    try {
+      await taskExecutor.resumeOrphanedExecutions()
+    } catch (error) {
+      console.error(chalk.red('Failed to resume orphaned executions:'), error)
+    }
+
     // Start realtime service
     await realtimeService.start()
 
@@ -10,7 +10,10 @@ import { createClient } from '@supabase/supabase-js'
 import chalk from 'chalk'
 import { config as loadEnv } from 'dotenv'
 import ora from 'ora'
+import { getSupportedTools } from '../agent/agent-registry.js'
 import { AuthManager } from '../auth/auth-manager.js'
+import { describeTaskTypes } from '../services/task-handlers.js'
+import { loadToolCommands } from '../services/tool-commands.js'
 
 // Load environment variables
 loadEnv({ path: '.env.local' })
@@ -347,6 +350,9 @@ export async function registerDestination(options: any): Promise<void> {
 
     spinner.start('Registering destination...')
 
+    // Tools tasks can list, from --tools-config, VEAS_TOOLS_CONFIG or ./veas.yaml
+    const toolCommands = await loadToolCommands(options.toolsConfig)
+
     // Generate API key
     const apiKey = generateApiKey()
     const apiKeyHash = await hashApiKey(apiKey)
@@ -365,8 +371,8 @@ export async function registerDestination(options: any): Promise<void> {
         status: 'offline',
         is_active: true,
         capabilities: {},
-        supported_tools: [],
-        allowed_task_types: ['workflow', 'single', 'batch'],
+        supported_tools: getSupportedTools(Object.keys(toolCommands)),
+        allowed_task_types: Object.keys(describeTaskTypes()),
       })
       .select()
       .single()
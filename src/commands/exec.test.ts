@@ -0,0 +1,258 @@
+/**
+ * Tests for exec commands
+ */
+
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import { join } from 'node:path'
+import { createClient } from '@supabase/supabase-js'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { AuthManager } from '../auth/auth-manager.js'
+
+vi.mock('@supabase/supabase-js')
+vi.mock('../auth/auth-manager.js')
+
+const mockSpinner = {
+  start: vi.fn(),
+  stop: vi.fn(),
+  succeed: vi.fn(),
+  fail: vi.fn(),
+  text: '',
+}
+
+vi.mock('ora', () => ({
+  default: vi.fn(() => mockSpinner),
+}))
+
+import { approveExecution, listArtifacts, rejectExecution, retryFailedItems } from './exec.js'
+
+describe('Exec Commands', () => {
+  let mockSupabase: any
+  let mockAuthManager: any
+  let processExitSpy: any
+
+  const pendingApproval = {
+    stepId: 'confirm',
+    message: 'Deploy 1.2.0?',
+    status: 'pending',
+    requestedAt: '2025-01-01T12:00:00.000Z',
+    expiresAt: '2025-01-02T12:00:00.000Z',
+  }
+
+  beforeEach(() => {
+    // Spinner methods chain; set up here since restoreAllMocks resets them
+    for (const key of ['start', 'stop', 'succeed', 'fail'] as const) {
+      mockSpinner[key].mockReturnValue(mockSpinner)
+    }
+
+    mockAuthManager = {
+      getSession: vi
+        .fn()
+        .mockResolvedValue({ user: { id: 'user-123', email: 'ana@example.com' }, token: 'test-token' }),
+    }
+
+    mockSupabase = {
+      from: vi.fn(() => mockSupabase),
+      schema: vi.fn(() => mockSupabase),
+      select: vi.fn(() => mockSupabase),
+      update: vi.fn(() => mockSupabase),
+      insert: vi.fn(() => mockSupabase),
+      eq: vi.fn(() => mockSupabase),
+      single: vi.fn(),
+    }
+
+    vi.mocked(AuthManager.getInstance).mockReturnValue(mockAuthManager)
+    vi.mocked(createClient).mockReturnValue(mockSupabase)
+
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {
+      throw new Error('Process exit')
+    })
+
+    process.env.SUPABASE_URL = 'http://localhost:54321'
+    process.env.SUPABASE_ANON_KEY = 'test-anon-key'
+  })
+
+  afterEach(() => {
+    vi.clearAllMocks()
+    vi.restoreAllMocks()
+  })
+
+  const mockExecution = (execution: Record<string, unknown>) => {
+    mockSupabase.single.mockResolvedValue({ data: execution, error: null })
+    // The update's select() resolves the query; the fetch's select() keeps chaining
+    mockSupabase.select.mockImplementation((columns: string) =>
+      columns === 'id' ? Promise.resolve({ data: [{ id: 'exec-1' }], error: null }) : mockSupabase,
+    )
+  }
+
+  it('should record the approval in the execution context', async () => {
+    mockExecution({ id: 'exec-1', status: 'waiting', context: { workflowDepth: 1, approval: pendingApproval } })
+
+    await approveExecution('exec-1', { comment: 'Ship it' })
+
+    expect(mockSupabase.update).toHaveBeenCalledWith({
+      context: {
+        workflowDepth: 1,
+        approval: expect.objectContaining({
+          ...pendingApproval,
+          status: 'approved',
+          decidedBy: 'ana@example.com',
+          comment: 'Ship it',
+        }),
+      },
+    })
+    expect(mockSupabase.eq).toHaveBeenCalledWith('status', 'waiting')
+    expect(mockSpinner.succeed).toHaveBeenCalledWith('Execution exec-1 approved')
+  })
+
+  it('should record a rejection', async () => {
+    mockExecution({ id: 'exec-1', status: 'waiting', context: { approval: pendingApproval } })
+
+    await rejectExecution('exec-1', {})
+
+    expect(mockSupabase.update).toHaveBeenCalledWith({
+      context: { approval: expect.objectContaining({ status: 'rejected' }) },
+    })
+  })
+
+  it('should refuse executions that are not waiting for approval', async () => {
+    mockExecution({ id: 'exec-1', status: 'running', context: {} })
+
+    await expect(approveExecution('exec-1', {})).rejects.toThrow('Process exit')
+
+    expect(mockSupabase.update).not.toHaveBeenCalled()
+    expect(mockSpinner.fail).toHaveBeenCalledWith('Execution exec-1 is not waiting for approval (status: running)')
+    expect(processExitSpy).toHaveBeenCalledWith(1)
+  })
+
+  describe('retryFailedItems', () => {
+    it('should create an execution for the failed items', async () => {
+      mockSupabase.single
+        .mockResolvedValueOnce({
+          data: {
+            id: 'exec-1',
+            task_id: 'task-1',
+            destination_id: 'dest-1',
+            status: 'completed',
+            input_params: { items_file: 'hosts.txt', concurrency: 4 },
+            output_result: { status: 'partial', failed_items: ['db-2', 'web-7'] },
+          },
+          error: null,
+        })
+        .mockResolvedValueOnce({ data: { id: 'exec-2' }, error: null })
+
+      await retryFailedItems('exec-1')
+
+      expect(mockSupabase.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          task_id: 'task-1',
+          destination_id: 'dest-1',
+          status: 'pending',
+          trigger: 'retry',
+          input_params: { concurrency: 4, items: ['db-2', 'web-7'] },
+          parent_execution_id: 'exec-1',
+        }),
+      )
+      expect(mockSpinner.succeed).toHaveBeenCalledWith('Created execution exec-2 for 2 failed items')
+    })
+
+    it('should refuse executions without failed items', async () => {
+      mockSupabase.single.mockResolvedValue({
+        data: { id: 'exec-1', status: 'completed', output_result: { status: 'success', failed_items: [] } },
+        error: null,
+      })
+
+      await expect(retryFailedItems('exec-1')).rejects.toThrow('Process exit')
+
+      expect(mockSupabase.insert).not.toHaveBeenCalled()
+      expect(mockSpinner.fail).toHaveBeenCalledWith('Execution exec-1 has no failed batch items (status: completed)')
+    })
+  })
+
+  describe('listArtifacts', () => {
+    let dir: string
+
+    beforeEach(() => {
+      dir = mkdtempSync('/tmp/veas-artifacts-')
+    })
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('should download artifacts from storage and check their checksums', async () => {
+      const download = vi.fn().mockResolvedValue({ data: new Blob(['hello']), error: null })
+      mockSupabase.storage = { from: vi.fn(() => ({ download })) }
+      mockSupabase.single.mockResolvedValue({
+        data: {
+          id: 'exec-1',
+          status: 'completed',
+          output_result: {
+            artifacts: {
+              destination: 'storage',
+              bucket: 'execution-artifacts',
+              files: [
+                {
+                  path: 'dist/hello.txt',
+                  size: 5,
+                  sha256: '2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824',
+                  location: 'exec-1/dist/hello.txt',
+                },
+              ],
+              skipped: [],
+              total_size: 5,
+            },
+          },
+        },
+        error: null,
+      })
+
+      await listArtifacts('exec-1', { download: dir })
+
+      expect(mockSupabase.storage.from).toHaveBeenCalledWith('execution-artifacts')
+      expect(download).toHaveBeenCalledWith('exec-1/dist/hello.txt')
+      expect(readFileSync(join(dir, 'dist', 'hello.txt'), 'utf-8')).toBe('hello')
+      expect(mockSpinner.succeed).toHaveBeenCalledWith(`Downloaded 1 artifact(s) to ${dir}`)
+    })
+
+    it('should refuse artifact paths outside the download directory', async () => {
+      const download = vi.fn().mockResolvedValue({ data: new Blob(['owned']), error: null })
+      mockSupabase.storage = { from: vi.fn(() => ({ download })) }
+      mockSupabase.single.mockResolvedValue({
+        data: {
+          id: 'exec-1',
+          status: 'completed',
+          output_result: {
+            artifacts: {
+              destination: 'storage',
+              bucket: 'execution-artifacts',
+              files: [{ path: '../escaped.txt', size: 5, sha256: 'abc', location: 'exec-1/escaped.txt' }],
+              skipped: [],
+              total_size: 5,
+            },
+          },
+        },
+        error: null,
+      })
+
+      await expect(listArtifacts('exec-1', { download: join(dir, 'out') })).rejects.toThrow('Process exit')
+
+      expect(download).not.toHaveBeenCalled()
+      expect(existsSync(join(dir, 'escaped.txt'))).toBe(false)
+      expect(mockSpinner.fail).toHaveBeenCalledWith(
+        `Failed to get artifacts: Refusing to download ../escaped.txt outside ${join(dir, 'out')}`,
+      )
+    })
+
+    it('should refuse executions without artifacts', async () => {
+      mockSupabase.single.mockResolvedValue({
+        data: { id: 'exec-1', status: 'failed', output_result: null },
+        error: null,
+      })
+
+      await expect(listArtifacts('exec-1', {})).rejects.toThrow('Process exit')
+
+      expect(mockSpinner.fail).toHaveBeenCalledWith('Execution exec-1 has no artifacts (status: failed)')
+    })
+  })
+})
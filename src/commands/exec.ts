@@ -0,0 +1,268 @@
+/**
+ * Exec Command
+ *
+ * Act on task executions
+ */
+
+import { copyFile, mkdir, writeFile } from 'node:fs/promises'
+import { dirname, resolve, sep } from 'node:path'
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import chalk from 'chalk'
+import { config as loadEnv } from 'dotenv'
+import ora, { type Ora } from 'ora'
+import type { ApprovalRequest } from '../agent/types.js'
+import { AuthManager, type Session } from '../auth/auth-manager.js'
+import { type ArtifactsSummary, sha256File } from '../services/artifacts.js'
+
+// Load environment variables
+loadEnv({ path: '.env.local' })
+loadEnv()
+
+interface ApprovalOptions {
+  comment?: string
+}
+
+interface ArtifactsOptions {
+  download?: string
+}
+
+/**
+ * Approve an execution that is waiting at an approval step
+ */
+export async function approveExecution(executionId: string, options: ApprovalOptions): Promise<void> {
+  await decideApproval(executionId, 'approved', options)
+}
+
+/**
+ * Reject an execution that is waiting at an approval step
+ */
+export async function rejectExecution(executionId: string, options: ApprovalOptions): Promise<void> {
+  await decideApproval(executionId, 'rejected', options)
+}
+
+/**
+ * Record an approval decision in the execution's context, where the agent picks it up
+ */
+async function decideApproval(
+  executionId: string,
+  decision: 'approved' | 'rejected',
+  options: ApprovalOptions,
+): Promise<void> {
+  const spinner = ora('Checking execution...').start()
+
+  try {
+    const { session, supabase } = await connect(spinner)
+
+    const { data: execution, error: fetchError } = await supabase
+      .schema('agents')
+      .from('executions')
+      .select('id, status, context')
+      .eq('id', executionId)
+      .single()
+
+    if (fetchError || !execution) {
+      spinner.fail('Execution not found')
+      process.exit(1)
+    }
+
+    const approval = execution.context?.approval as ApprovalRequest | undefined
+    if (execution.status !== 'waiting' || approval?.status !== 'pending') {
+      spinner.fail(`Execution ${executionId} is not waiting for approval (status: ${execution.status})`)
+      process.exit(1)
+    }
+
+    spinner.text = decision === 'approved' ? 'Approving...' : 'Rejecting...'
+
+    const decided: ApprovalRequest = {
+      ...approval,
+      status: decision,
+      decidedBy: session.user.email || session.user.id,
+      decidedAt: new Date().toISOString(),
+      comment: options.comment,
+    }
+
+    // Only update while still waiting, so a decision that raced us isn't overwritten
+    const { data: updated, error: updateError } = await supabase
+      .schema('agents')
+      .from('executions')
+      .update({ context: { ...execution.context, approval: decided } })
+      .eq('id', executionId)
+      .eq('status', 'waiting')
+      .select('id')
+
+    if (updateError) {
+      throw updateError
+    }
+    if (!updated || updated.length === 0) {
+      spinner.fail(`Execution ${executionId} is no longer waiting for approval`)
+      process.exit(1)
+    }
+
+    spinner.succeed(`Execution ${executionId} ${decision}`)
+    console.log(chalk.gray(`  ${approval.message}`))
+    if (options.comment) {
+      console.log(chalk.gray(`  Comment: ${options.comment}`))
+    }
+  } catch (error: unknown) {
+    spinner.fail(`Failed to record decision: ${error instanceof Error ? error.message : String(error)}`)
+    process.exit(1)
+  }
+}
+
+/**
+ * Run the failed items of a batch execution again as a new execution
+ */
+export async function retryFailedItems(executionId: string): Promise<void> {
+  const spinner = ora('Checking execution...').start()
+
+  try {
+    const { supabase } = await connect(spinner)
+
+    const { data: execution, error: fetchError } = await supabase
+      .schema('agents')
+      .from('executions')
+      .select('id, task_id, schedule_id, destination_id, status, input_params, output_result')
+      .eq('id', executionId)
+      .single()
+
+    if (fetchError || !execution) {
+      spinner.fail('Execution not found')
+      process.exit(1)
+    }
+
+    const failedItems = execution.output_result?.failed_items
+    if (!Array.isArray(failedItems) || failedItems.length === 0) {
+      spinner.fail(`Execution ${executionId} has no failed batch items (status: ${execution.status})`)
+      process.exit(1)
+    }
+
+    spinner.text = `Retrying ${failedItems.length} failed items...`
+
+    // The retry runs just the failed items, in place of the original list or file
+    const { items_file: _itemsFile, batch_size: _batchSize, ...inputParams } = execution.input_params || {}
+    const { data: retry, error: insertError } = await supabase
+      .schema('agents')
+      .from('executions')
+      .insert({
+        task_id: execution.task_id,
+        schedule_id: execution.schedule_id,
+        destination_id: execution.destination_id,
+        status: 'pending',
+        trigger: 'retry',
+        trigger_source: `execution:${executionId}`,
+        input_params: { ...inputParams, items: failedItems },
+        parent_execution_id: executionId,
+        queued_at: new Date().toISOString(),
+      })
+      .select('id')
+      .single()
+
+    if (insertError || !retry) {
+      throw insertError || new Error('no execution returned')
+    }
+
+    spinner.succeed(`Created execution ${retry.id} for ${failedItems.length} failed items`)
+  } catch (error: unknown) {
+    spinner.fail(`Failed to retry items: ${error instanceof Error ? error.message : String(error)}`)
+    process.exit(1)
+  }
+}
+
+/**
+ * List an execution's artifacts, downloading them with --download <dir>
+ */
+export async function listArtifacts(executionId: string, options: ArtifactsOptions): Promise<void> {
+  const spinner = ora('Checking execution...').start()
+
+  try {
+    const { supabase } = await connect(spinner)
+
+    const { data: execution, error: fetchError } = await supabase
+      .schema('agents')
+      .from('executions')
+      .select('id, status, output_result')
+      .eq('id', executionId)
+      .single()
+
+    if (fetchError || !execution) {
+      spinner.fail('Execution not found')
+      process.exit(1)
+    }
+
+    const artifacts = execution.output_result?.artifacts as ArtifactsSummary | undefined
+    if (!artifacts) {
+      spinner.fail(`Execution ${executionId} has no artifacts (status: ${execution.status})`)
+      process.exit(1)
+    }
+    spinner.stop()
+
+    const where = artifacts.destination === 'storage' ? `storage bucket ${artifacts.bucket}` : 'the agent machine'
+    console.log(chalk.bold(`\n${artifacts.files.length} artifact(s) in ${where}\n`))
+    for (const file of artifacts.files) {
+      console.log(`  ${file.path}  ${chalk.gray(`${file.size} bytes  sha256:${file.sha256}`)}`)
+    }
+    for (const skipped of artifacts.skipped) {
+      console.log(chalk.yellow(`  ${skipped.path}  skipped: ${skipped.reason}`))
+    }
+    if (artifacts.error) {
+      console.log(chalk.red(`  Collection failed: ${artifacts.error}`))
+    }
+
+    if (!options.download) {
+      return
+    }
+
+    spinner.start('Downloading artifacts...')
+    const downloadDir = resolve(options.download)
+    for (const file of artifacts.files) {
+      spinner.text = `Downloading ${file.path}...`
+      // Paths come from the execution's output, so don't let one write outside the download directory
+      const target = resolve(downloadDir, file.path)
+      if (!target.startsWith(downloadDir + sep)) {
+        throw new Error(`Refusing to download ${file.path} outside ${options.download}`)
+      }
+      await mkdir(dirname(target), { recursive: true })
+
+      if (artifacts.destination === 'storage') {
+        const { data, error } = await supabase.storage.from(artifacts.bucket as string).download(file.location)
+        if (error || !data) {
+          throw new Error(`Failed to download ${file.path}: ${error?.message ?? 'no data'}`)
+        }
+        await writeFile(target, Buffer.from(await data.arrayBuffer()))
+      } else {
+        // Local artifacts can only be fetched on the machine of the agent that collected them
+        await copyFile(file.location, target)
+      }
+
+      if ((await sha256File(target)) !== file.sha256) {
+        throw new Error(`Checksum mismatch for ${file.path}`)
+      }
+    }
+    spinner.succeed(`Downloaded ${artifacts.files.length} artifact(s) to ${options.download}`)
+  } catch (error: unknown) {
+    spinner.fail(`Failed to get artifacts: ${error instanceof Error ? error.message : String(error)}`)
+    process.exit(1)
+  }
+}
+
+/**
+ * Create a Supabase client for the logged-in user, failing the command without a session or configuration
+ */
+async function connect(spinner: Ora): Promise<{ session: Session; supabase: SupabaseClient }> {
+  const session = await AuthManager.getInstance().getSession()
+  if (!session) {
+    spinner.fail('Not authenticated. Please run "veas auth login" first.')
+    process.exit(1)
+  }
+
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || process.env.SUPABASE_URL || 'http://127.0.0.1:54321'
+  // For local dev, use service role key to bypass RLS
+  const supabaseKey =
+    process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || process.env.SUPABASE_ANON_KEY
+  if (!supabaseKey) {
+    spinner.fail('Supabase configuration not found.')
+    process.exit(1)
+  }
+
+  return { session, supabase: createClient(supabaseUrl, supabaseKey) }
+}
@@ -0,0 +1,130 @@
+/**
+ * Tests for task commands
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { Task } from '../agent/types.js'
+import { loadWorkflowFile } from '../agent/workflow-file.js'
+import { getMCPTools } from '../mcp/tools-registry.js'
+
+vi.mock('../agent/workflow-file.js')
+vi.mock('../mcp/tools-registry.js')
+
+import { parseParams, runTask, validateTask } from './task.js'
+
+describe('Task Commands', () => {
+  let consoleLogSpy: any
+  let processExitSpy: any
+
+  const task = (workflow: Task['workflow']): Task =>
+    ({ id: 'local:test', name: 'Test', workflow, configuration: {}, maxRetries: 0 }) as unknown as Task
+
+  beforeEach(() => {
+    consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {
+      throw new Error('Process exit')
+    })
+  })
+
+  afterEach(() => {
+    vi.clearAllMocks()
+    vi.restoreAllMocks()
+  })
+
+  describe('parseParams', () => {
+    it('should parse JSON values and keep other values as strings', () => {
+      expect(parseParams(['limit=10', 'dry=true', 'name=Sprint 1', 'filter={"status":"open"}', 'expr=a=b'])).toEqual({
+        limit: 10,
+        dry: true,
+        name: 'Sprint 1',
+        filter: { status: 'open' },
+        expr: 'a=b',
+      })
+    })
+
+    it('should reject params without a key', () => {
+      expect(() => parseParams(['=1'])).toThrow('Invalid param "=1", expected key=value')
+    })
+  })
+
+  describe('runTask', () => {
+    it('should run the workflow with mock tools and print the final context', async () => {
+      vi.mocked(loadWorkflowFile).mockResolvedValue(
+        task([
+          { id: 'me', name: 'Who am I', type: 'tool', tool: 'mcp_get_user_info' },
+          { id: 'greeting', name: 'Greet', type: 'transform', params: { text: 'Hi {{me.user.name}} in {{channel}}' } },
+        ]),
+      )
+
+      await runTask({ file: 'workflow.yaml', param: ['channel=ops'], mock: true, json: true })
+
+      const output = JSON.parse(consoleLogSpy.mock.calls[0][0])
+      expect(output.status).toBe('completed')
+      expect(output.result).toEqual({ text: 'Hi Test User in ops' })
+      expect(output.context).toMatchObject({ channel: 'ops', greeting: { text: 'Hi Test User in ops' } })
+      expect(output.logs.map((log: any) => log.message)).toContain('Completed workflow step: Who am I')
+      expect(processExitSpy).not.toHaveBeenCalled()
+    })
+
+    it('should print a trace and exit non-zero when the workflow fails', async () => {
+      vi.mocked(loadWorkflowFile).mockResolvedValue(
+        task([{ id: 'bad', name: 'Bad', type: 'tool', tool: 'no_such_tool' }]),
+      )
+
+      await expect(runTask({ file: 'workflow.yaml', mock: true })).rejects.toThrow('Process exit')
+
+      const printed = consoleLogSpy.mock.calls.map((call: any[]) => call.join(' ')).join('\n')
+      expect(printed).toContain('Workflow step failed: Bad')
+      expect(printed).toContain('Tool not implemented: no_such_tool')
+      expect(processExitSpy).toHaveBeenCalledWith(1)
+    })
+
+    it('should fail approval steps right away instead of waiting for a decision', async () => {
+      vi.mocked(loadWorkflowFile).mockResolvedValue(
+        task([{ id: 'confirm', name: 'Confirm', type: 'approval', approval: { timeoutSeconds: 3600 } }]),
+      )
+
+      await expect(runTask({ file: 'workflow.yaml', mock: true, json: true })).rejects.toThrow('Process exit')
+
+      const output = JSON.parse(consoleLogSpy.mock.calls[0][0])
+      expect(output.status).toBe('failed')
+      expect(output.error).toContain("Approval step confirm can't run locally")
+      expect(processExitSpy).toHaveBeenCalledWith(1)
+    })
+  })
+
+  describe('validateTask', () => {
+    it('should report unknown tools from the registry and exit non-zero', async () => {
+      vi.mocked(loadWorkflowFile).mockResolvedValue(
+        task([{ id: 'issues', name: 'Issues', type: 'tool', tool: 'mcp-project-manager_list_issues' }]),
+      )
+      vi.mocked(getMCPTools).mockResolvedValue([{ name: 'mcp-project-manager_list_my_issues' }] as any)
+
+      await expect(validateTask({ file: 'workflow.yaml', json: true })).rejects.toThrow('Process exit')
+
+      const output = JSON.parse(consoleLogSpy.mock.calls[0][0])
+      expect(output).toMatchObject({
+        valid: false,
+        toolsChecked: true,
+        errors: [
+          { path: 'workflow[0].tool', stepId: 'issues', message: 'Unknown tool "mcp-project-manager_list_issues"' },
+        ],
+      })
+      expect(processExitSpy).toHaveBeenCalledWith(1)
+    })
+
+    it('should skip the registry when offline', async () => {
+      vi.mocked(loadWorkflowFile).mockResolvedValue(
+        task([{ id: 'issues', name: 'Issues', type: 'tool', tool: 'mcp-project-manager_list_issues' }]),
+      )
+
+      await validateTask({ file: 'workflow.yaml', offline: true })
+
+      expect(getMCPTools).not.toHaveBeenCalled()
+      const printed = consoleLogSpy.mock.calls.map((call: any[]) => call.join(' ')).join('\n')
+      expect(printed).toContain('Workflow is valid')
+      expect(processExitSpy).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,266 @@
+/**
+ * Task Command
+ *
+ * Develop task workflows locally
+ */
+
+import { createClient } from '@supabase/supabase-js'
+import chalk from 'chalk'
+import { config as loadEnv } from 'dotenv'
+import { LocalExecutionService } from '../agent/local-execution-service.js'
+import { mapTaskRow, TaskExecutor, type ToolClient } from '../agent/task-executor.js'
+import type { ExecutionLog, Task } from '../agent/types.js'
+import { loadWorkflowFile } from '../agent/workflow-file.js'
+import { type ValidationIssue, validateWorkflow } from '../agent/workflow-validator.js'
+import { AuthManager } from '../auth/auth-manager.js'
+import { MCPClient } from '../mcp/mcp-client.js'
+import { executeStandaloneTool } from '../mcp/standalone-tools.js'
+import { getMCPTools } from '../mcp/tools-registry.js'
+import { LogLevel, logger } from '../utils/logger.js'
+
+// Load environment variables
+loadEnv({ path: '.env.local' })
+loadEnv()
+
+interface TaskRunOptions {
+  file: string
+  param?: string[]
+  mock?: boolean
+  json?: boolean
+  verbose?: boolean
+}
+
+interface TaskValidateOptions {
+  file?: string
+  task?: string
+  offline?: boolean
+  json?: boolean
+}
+
+const LOG_COLORS: Record<ExecutionLog['level'], (text: string) => string> = {
+  debug: chalk.gray,
+  info: chalk.blue,
+  warning: chalk.yellow,
+  error: chalk.red,
+}
+
+/**
+ * Parse `key=value` params; values that are valid JSON (numbers, booleans, objects) are parsed
+ */
+export function parseParams(pairs: string[] = []): Record<string, unknown> {
+  const params: Record<string, unknown> = {}
+  for (const pair of pairs) {
+    const separator = pair.indexOf('=')
+    if (separator <= 0) {
+      throw new Error(`Invalid param "${pair}", expected key=value`)
+    }
+
+    const value = pair.slice(separator + 1)
+    try {
+      params[pair.slice(0, separator)] = JSON.parse(value)
+    } catch {
+      params[pair.slice(0, separator)] = value
+    }
+  }
+  return params
+}
+
+/**
+ * Run a workflow from a local file with the agent's workflow engine
+ */
+export async function runTask(options: TaskRunOptions): Promise<void> {
+  try {
+    const task = await loadWorkflowFile(options.file)
+    const inputParams = parseParams(options.param)
+
+    // The engine's own logging duplicates the trace; keep it for --verbose
+    logger.setLevel(options.verbose ? LogLevel.DEBUG : LogLevel.SILENT)
+
+    const startedAt = Date.now()
+    let rootExecutionId: string | undefined
+    const service = new LocalExecutionService((executionId, log) => {
+      if (!options.json) {
+        printLog(executionId === rootExecutionId ? undefined : executionId, log, Date.now() - startedAt, options)
+      }
+    })
+
+    const tools: ToolClient = options.mock
+      ? { callTool: (toolName: string, params: any) => executeStandaloneTool(toolName, params) }
+      : MCPClient.getInstance()
+
+    // Only sub-workflow steps naming a task outside the file reach the platform
+    const executor = new TaskExecutor(
+      service,
+      tools,
+      process.env.NEXT_PUBLIC_SUPABASE_URL || process.env.SUPABASE_URL || 'http://127.0.0.1:54321',
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || process.env.SUPABASE_ANON_KEY || 'anon-key',
+    )
+
+    const execution = await service.createExecution({
+      taskId: task.id,
+      trigger: 'manual',
+      triggerSource: 'local',
+      inputParams,
+    })
+    rootExecutionId = execution.id
+
+    if (!options.json) {
+      console.log(chalk.bold(`\n▶ Running ${task.name} (${options.mock ? 'mock tools' : 'MCP tools'})\n`))
+    }
+
+    const outcome = await executor.runTaskDefinition(task, execution)
+
+    if (options.json) {
+      console.log(
+        JSON.stringify(
+          {
+            status: outcome.status,
+            result: outcome.result,
+            error: outcome.error,
+            context: outcome.context,
+            logs: service.getExecution(execution.id)?.executionLogs,
+          },
+          null,
+          2,
+        ),
+      )
+    } else {
+      console.log()
+      if (outcome.status === 'completed') {
+        console.log(chalk.green(`✅ Workflow completed in ${outcome.durationMs}ms`))
+        console.log(chalk.bold('\nResult:'))
+        console.log(JSON.stringify(outcome.result ?? null, null, 2))
+      } else {
+        console.log(chalk.red(`❌ Workflow ${outcome.status}: ${outcome.error}`))
+      }
+      console.log(chalk.bold('\nFinal context:'))
+      console.log(JSON.stringify(outcome.context ?? {}, null, 2))
+    }
+
+    if (outcome.status !== 'completed') {
+      process.exit(1)
+    }
+  } catch (error: unknown) {
+    console.error(chalk.red(`Failed to run workflow: ${error instanceof Error ? error.message : String(error)}`))
+    process.exit(1)
+  }
+}
+
+/**
+ * Validate a workflow from a local file or a platform task, exiting non-zero on errors
+ */
+export async function validateTask(options: TaskValidateOptions): Promise<void> {
+  try {
+    if (!options.file === !options.task) {
+      throw new Error('Specify either --file <path> or --task <id>')
+    }
+
+    const task = options.file ? await loadWorkflowFile(options.file) : await fetchRemoteTask(options.task as string)
+
+    let tools: string[] | undefined
+    if (!options.offline) {
+      try {
+        tools = (await getMCPTools()).map(tool => tool.name)
+      } catch (error: unknown) {
+        if (!options.json) {
+          console.log(
+            chalk.yellow(
+              `⚠️  Could not load the tool registry, skipping tool checks: ${error instanceof Error ? error.message : String(error)}`,
+            ),
+          )
+        }
+      }
+    }
+
+    const result = validateWorkflow(task, { tools })
+
+    if (options.json) {
+      console.log(JSON.stringify({ task: task.name, toolsChecked: tools !== undefined, ...result }, null, 2))
+    } else {
+      console.log(chalk.bold(`\nValidating ${task.name}\n`))
+      for (const issue of [...result.errors, ...result.warnings]) {
+        printIssue(issue)
+      }
+      if (tools === undefined) {
+        console.log(chalk.gray('Tool names were not checked'))
+      }
+      const summary = `${result.errors.length} error(s), ${result.warnings.length} warning(s)`
+      console.log(result.valid ? chalk.green(`\n✅ Workflow is valid (${summary})`) : chalk.red(`\n❌ ${summary}`))
+    }
+
+    if (!result.valid) {
+      process.exit(1)
+    }
+  } catch (error: unknown) {
+    console.error(chalk.red(`Failed to validate workflow: ${error instanceof Error ? error.message : String(error)}`))
+    process.exit(1)
+  }
+}
+
+/**
+ * Load a task definition from the platform
+ */
+async function fetchRemoteTask(taskId: string): Promise<Task> {
+  const session = await AuthManager.getInstance().getSession()
+  if (!session) {
+    throw new Error('Not authenticated. Please run "veas auth login" first.')
+  }
+
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || process.env.SUPABASE_URL || 'http://127.0.0.1:54321'
+  const supabaseKey =
+    process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || process.env.SUPABASE_ANON_KEY
+  if (!supabaseKey) {
+    throw new Error('Supabase configuration not found.')
+  }
+
+  const { data, error } = await createClient(supabaseUrl, supabaseKey)
+    .schema('agents')
+    .from('tasks')
+    .select('*')
+    .eq('id', taskId)
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Task ${taskId} not found`)
+  }
+  return mapTaskRow(data)
+}
+
+/**
+ * Print one validation issue with its location
+ */
+function printIssue(issue: ValidationIssue): void {
+  const label = issue.severity === 'error' ? chalk.red('error  ') : chalk.yellow('warning')
+  const location = issue.stepId ? `${issue.path} (${issue.stepId})` : issue.path
+  console.log(`${label} ${chalk.gray(location)}`)
+  console.log(`        ${issue.message}`)
+}
+
+/**
+ * Print one execution log entry of the trace
+ */
+function printLog(
+  childExecutionId: string | undefined,
+  log: ExecutionLog,
+  elapsedMs: number,
+  options: TaskRunOptions,
+): void {
+  const { step: _step, ...data } = log.data || {}
+  // Step definitions are only interesting when debugging the engine itself
+  const details = options.verbose ? log.data : data
+  let summary = details && Object.keys(details).length > 0 ? JSON.stringify(details) : ''
+  if (!options.verbose && summary.length > 160) {
+    summary = `${summary.slice(0, 157)}...`
+  }
+
+  console.log(
+    [
+      chalk.gray(`+${elapsedMs}ms`.padStart(8)),
+      childExecutionId ? chalk.magenta(`[${childExecutionId}]`) : '',
+      LOG_COLORS[log.level](log.message),
+      summary ? chalk.gray(summary) : '',
+    ]
+      .filter(Boolean)
+      .join(' '),
+  )
+}
@@ -0,0 +1,44 @@
+/**
+ * Workspace Command
+ *
+ * Manage the per-execution workspaces kept on this machine
+ */
+
+import chalk from 'chalk'
+import { pruneWorkspaces, workspacesDir } from '../services/workspace.js'
+
+interface WorkspacePruneOptions {
+  all?: boolean
+  olderThan?: string
+  dryRun?: boolean
+}
+
+/**
+ * Remove kept workspaces whose retention period is over
+ */
+export async function pruneWorkspacesCommand(options: WorkspacePruneOptions): Promise<void> {
+  try {
+    const olderThanDays = options.olderThan === undefined ? undefined : Number(options.olderThan)
+    if (olderThanDays !== undefined && (Number.isNaN(olderThanDays) || olderThanDays < 0)) {
+      throw new Error(`Invalid --older-than "${options.olderThan}", expected a number of days`)
+    }
+
+    const pruned = await pruneWorkspaces({ all: options.all, olderThanDays, dryRun: options.dryRun })
+
+    if (pruned.length === 0) {
+      console.log(chalk.gray(`No workspaces to prune in ${workspacesDir()}`))
+      return
+    }
+    for (const executionId of pruned) {
+      console.log(chalk.gray(`  ${executionId}`))
+    }
+    console.log(
+      options.dryRun
+        ? chalk.yellow(`Would remove ${pruned.length} workspace(s)`)
+        : chalk.green(`✅ Removed ${pruned.length} workspace(s)`),
+    )
+  } catch (error: unknown) {
+    console.error(chalk.red(`Failed to prune workspaces: ${error instanceof Error ? error.message : String(error)}`))
+    process.exit(1)
+  }
+}
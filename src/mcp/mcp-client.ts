@@ -1,5 +1,6 @@
 import { AuthManager } from '../auth/auth-manager.js'
 import type { MCPResult } from '../types/mcp.js'
+import { anySignal } from '../utils/abort-signal.js'
 import { logger } from '../utils/logger.js'
 
 /**
@@ -136,7 +137,7 @@ export class MCPClient {
    * Call an MCP tool directly via the mcp-simple endpoint
    * This ensures we always get real data from the server
    */
-  async callTool(toolName: string, params: any): Promise<any> {
+  async callTool(toolName: string, params: any, options: { signal?: AbortSignal } = {}): Promise<any> {
     const credentials = await this.authManager.getCredentials()
     const token = credentials?.patToken || credentials?.token || (credentials as any)?.accessToken
 
@@ -169,7 +170,10 @@ export class MCPClient {
           'X-MCP-Token': token,
         },
         body: JSON.stringify(requestBody),
-        signal: AbortSignal.timeout(30000) as any, // 30 second timeout
+        // 30 second timeout, or earlier if the caller aborts
+        signal: (options.signal
+          ? anySignal([options.signal, AbortSignal.timeout(30000)])
+          : AbortSignal.timeout(30000)) as any,
       })
 
       const responseText = await response.text()
@@ -196,7 +200,10 @@ export class MCPClient {
       return result.result
     } catch (error) {
       logger.error(`MCP call failed: ${error}`)
-      if (error instanceof Error && error.name === 'AbortError') {
+      if (options.signal?.aborted) {
+        throw options.signal.reason
+      }
+      if (error instanceof Error && (error.name === 'AbortError' || error.name === 'TimeoutError')) {
         throw new Error('Request timed out after 30 seconds')
       }
       throw error
@@ -0,0 +1,107 @@
+/**
+ * Tests for execution artifacts
+ */
+
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, symlinkSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { collectArtifacts, getArtifactsConfig, localArtifactStore, storageArtifactStore } from './artifacts.js'
+
+describe('Artifacts', () => {
+  let root: string
+  let target: string
+
+  beforeEach(() => {
+    root = mkdtempSync('/tmp/veas-run-')
+    target = mkdtempSync('/tmp/veas-artifact-dir-')
+    mkdirSync(join(root, 'dist'))
+    writeFileSync(join(root, 'dist', 'app.js'), 'console.log(1)')
+    writeFileSync(join(root, 'dist', 'bundle.js'), 'x'.repeat(100))
+    writeFileSync(join(root, 'build.log'), 'ok')
+  })
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true })
+    rmSync(target, { recursive: true, force: true })
+  })
+
+  it('should read the artifact setting of a task', () => {
+    expect(getArtifactsConfig(undefined)).toBeUndefined()
+    expect(getArtifactsConfig({ artifacts: [] })).toBeUndefined()
+    expect(getArtifactsConfig({ artifacts: ['dist/**'] })).toEqual({ paths: ['dist/**'] })
+    expect(getArtifactsConfig({ artifacts: { paths: ['*.log'], local_dir: '/srv' } })).toEqual({
+      paths: ['*.log'],
+      local_dir: '/srv',
+    })
+  })
+
+  it('should copy matching files with their checksums', async () => {
+    const summary = await collectArtifacts(
+      root,
+      { paths: ['dist/*.js', '*.log'] },
+      localArtifactStore(target, 'exec-1'),
+    )
+
+    expect(summary.destination).toBe('local')
+    expect(summary.files.map(file => file.path)).toEqual(['build.log', 'dist/app.js', 'dist/bundle.js'])
+    expect(summary.files[0]).toEqual({
+      path: 'build.log',
+      size: 2,
+      sha256: '2689367b205c16ce32ed4200942b8b8b1e262dfc70d9bc9fbc77c49699a4f1df',
+      location: join(target, 'exec-1', 'build.log'),
+    })
+    expect(readFileSync(join(target, 'exec-1', 'dist', 'app.js'), 'utf-8')).toBe('console.log(1)')
+    expect(summary.total_size).toBe(116)
+  })
+
+  it('should skip files over the size limits', async () => {
+    const summary = await collectArtifacts(
+      root,
+      { paths: ['**/*'], max_file_size: 50, max_total_size: 15 },
+      localArtifactStore(target, 'exec-1'),
+    )
+
+    expect(summary.files.map(file => file.path)).toEqual(['build.log'])
+    expect(summary.skipped).toEqual([
+      { path: 'dist/app.js', size: 14, reason: 'total artifact size over 15 bytes' },
+      { path: 'dist/bundle.js', size: 100, reason: 'larger than 50 bytes' },
+    ])
+    expect(existsSync(join(target, 'exec-1', 'dist', 'bundle.js'))).toBe(false)
+  })
+
+  it('should not collect files outside the execution directory', async () => {
+    const outside = mkdtempSync('/tmp/veas-outside-')
+    writeFileSync(join(outside, 'secret.txt'), 'secret')
+    symlinkSync(outside, join(root, 'linked'))
+    const store = localArtifactStore(target, 'exec-1')
+
+    try {
+      await expect(collectArtifacts(root, { paths: ['../**'] }, store)).rejects.toThrow(
+        'Artifact pattern "../**" must be relative to the execution directory',
+      )
+      await expect(collectArtifacts(root, { paths: ['/etc/hosts'] }, store)).rejects.toThrow('must be relative')
+      await expect(collectArtifacts(root, { paths: ['linked/**'] }, store)).resolves.toMatchObject({
+        files: [],
+        skipped: [{ path: 'linked/secret.txt', size: 6, reason: 'outside the execution directory' }],
+      })
+    } finally {
+      rmSync(outside, { recursive: true, force: true })
+    }
+  })
+
+  it('should upload to storage under the execution id', async () => {
+    const upload = vi.fn().mockResolvedValue({ error: null })
+    const supabase = { storage: { from: vi.fn(() => ({ upload })) } }
+
+    const summary = await collectArtifacts(
+      root,
+      { paths: ['build.log'] },
+      storageArtifactStore(supabase as any, 'execution-artifacts', 'exec-1'),
+    )
+
+    expect(supabase.storage.from).toHaveBeenCalledWith('execution-artifacts')
+    expect(upload).toHaveBeenCalledWith('exec-1/build.log', Buffer.from('ok'), { upsert: true })
+    expect(summary).toMatchObject({ destination: 'storage', bucket: 'execution-artifacts' })
+    expect(summary.files[0]?.location).toBe('exec-1/build.log')
+  })
+})
@@ -0,0 +1,194 @@
+/**
+ * Execution Artifacts
+ *
+ * Files a task produces (reports, build outputs, logs) are handed back as
+ * artifacts. After the run, the files matching the task's artifact patterns
+ * are collected from the execution's directory, checksummed and stored in
+ * platform storage or a local artifact directory. What was stored, and what
+ * was skipped for being too large, is recorded in the execution's output.
+ */
+
+import { createHash } from 'node:crypto'
+import { createReadStream } from 'node:fs'
+import { copyFile, mkdir, readFile, realpath, stat } from 'node:fs/promises'
+import { homedir } from 'node:os'
+import { dirname, isAbsolute, join, normalize, sep } from 'node:path'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import glob from 'fast-glob'
+
+export interface ArtifactsConfig {
+  /** Glob patterns, relative to the execution's directory */
+  paths: string[]
+  /** Largest file collected, in bytes (default 100 MB) */
+  max_file_size?: number
+  /** Largest total collected per execution, in bytes (default 500 MB) */
+  max_total_size?: number
+  /** Where artifacts go: platform storage (default) or a local directory */
+  destination?: 'storage' | 'local'
+  /** Storage bucket (default execution-artifacts) */
+  bucket?: string
+  /** Local artifact directory (default ~/.veas/artifacts); setting it implies the local destination */
+  local_dir?: string
+}
+
+export interface Artifact {
+  /** Path relative to the execution's directory */
+  path: string
+  size: number
+  sha256: string
+  /** Object key in the bucket, or the file's path in the local directory */
+  location: string
+}
+
+export interface SkippedArtifact {
+  path: string
+  size: number
+  reason: string
+}
+
+/** Recorded as `output_result.artifacts` */
+export interface ArtifactsSummary {
+  destination: 'storage' | 'local'
+  bucket?: string
+  files: Artifact[]
+  skipped: SkippedArtifact[]
+  total_size: number
+  error?: string
+}
+
+export interface ArtifactStore {
+  destination: ArtifactsSummary['destination']
+  bucket?: string
+  /** Store a file under its relative path, returning its location */
+  put(path: string, file: string): Promise<string>
+}
+
+export const DEFAULT_ARTIFACT_BUCKET = 'execution-artifacts'
+const DEFAULT_MAX_FILE_SIZE = 100 * 1024 * 1024
+const DEFAULT_MAX_TOTAL_SIZE = 500 * 1024 * 1024
+
+export function defaultArtifactDir(): string {
+  return join(homedir(), '.veas', 'artifacts')
+}
+
+/**
+ * The artifact settings of a task, or undefined when it collects none
+ *
+ * `configuration.artifacts` is a list of patterns or an ArtifactsConfig.
+ */
+export function getArtifactsConfig(configuration: Record<string, unknown> | undefined): ArtifactsConfig | undefined {
+  const artifacts = configuration?.artifacts
+  if (Array.isArray(artifacts)) {
+    return artifacts.length > 0 ? { paths: artifacts.map(String) } : undefined
+  }
+  if (artifacts && typeof artifacts === 'object' && Array.isArray((artifacts as ArtifactsConfig).paths)) {
+    return artifacts as ArtifactsConfig
+  }
+  return undefined
+}
+
+/**
+ * SHA-256 of a file, streamed so large artifacts aren't read into memory
+ */
+export function sha256File(file: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256')
+    createReadStream(file)
+      .on('data', chunk => hash.update(chunk))
+      .on('error', reject)
+      .on('end', () => resolve(hash.digest('hex')))
+  })
+}
+
+/**
+ * Store the files matching the artifact patterns under root
+ *
+ * Patterns can't reach outside root, and files that resolve outside it through
+ * symbolic links are skipped, as are files over the size limits, in path order.
+ */
+export async function collectArtifacts(
+  root: string,
+  config: ArtifactsConfig,
+  store: ArtifactStore,
+): Promise<ArtifactsSummary> {
+  const outside = config.paths.find(pattern => isAbsolute(pattern) || normalize(pattern).split(/[\\/]/).includes('..'))
+  if (outside) {
+    throw new Error(`Artifact pattern "${outside}" must be relative to the execution directory`)
+  }
+
+  const maxFileSize = config.max_file_size ?? DEFAULT_MAX_FILE_SIZE
+  const maxTotalSize = config.max_total_size ?? DEFAULT_MAX_TOTAL_SIZE
+  const matches = await glob(config.paths, { cwd: root, onlyFiles: true, dot: true, followSymbolicLinks: false })
+  const realRoot = await realpath(root)
+
+  const summary: ArtifactsSummary = {
+    destination: store.destination,
+    bucket: store.bucket,
+    files: [],
+    skipped: [],
+    total_size: 0,
+  }
+  for (const path of matches.sort()) {
+    const file = join(root, path)
+    const { size } = await stat(file)
+    if (!(await realpath(file)).startsWith(realRoot + sep)) {
+      summary.skipped.push({ path, size, reason: 'outside the execution directory' })
+    } else if (size > maxFileSize) {
+      summary.skipped.push({ path, size, reason: `larger than ${maxFileSize} bytes` })
+    } else if (summary.total_size + size > maxTotalSize) {
+      summary.skipped.push({ path, size, reason: `total artifact size over ${maxTotalSize} bytes` })
+    } else {
+      const sha256 = await sha256File(file)
+      summary.files.push({ path, size, sha256, location: await store.put(path, file) })
+      summary.total_size += size
+    }
+  }
+  return summary
+}
+
+/**
+ * Copy artifacts into <dir>/<executionId>
+ */
+export function localArtifactStore(dir: string, executionId: string): ArtifactStore {
+  return {
+    destination: 'local',
+    async put(path, file) {
+      const target = join(dir, executionId, path)
+      await mkdir(dirname(target), { recursive: true })
+      await copyFile(file, target)
+      return target
+    },
+  }
+}
+
+/**
+ * Upload artifacts to <bucket>/<executionId>/ in platform storage
+ */
+export function storageArtifactStore(supabase: SupabaseClient, bucket: string, executionId: string): ArtifactStore {
+  return {
+    destination: 'storage',
+    bucket,
+    async put(path, file) {
+      const key = `${executionId}/${path}`
+      const { error } = await supabase.storage.from(bucket).upload(key, await readFile(file), { upsert: true })
+      if (error) {
+        throw new Error(`Failed to upload ${path}: ${error.message}`)
+      }
+      return key
+    },
+  }
+}
+
+/**
+ * The store an execution's artifacts go to
+ */
+export function createArtifactStore(
+  config: ArtifactsConfig,
+  supabase: SupabaseClient,
+  executionId: string,
+): ArtifactStore {
+  if (config.destination === 'local' || (config.local_dir && config.destination !== 'storage')) {
+    return localArtifactStore(config.local_dir ?? defaultArtifactDir(), executionId)
+  }
+  return storageArtifactStore(supabase, config.bucket ?? DEFAULT_ARTIFACT_BUCKET, executionId)
+}
@@ -0,0 +1,105 @@
+/**
+ * Tests for the batch runner
+ */
+
+import { execFileSync } from 'node:child_process'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { loadBatchItems, renderItemTemplate, runBatch } from './batch-runner.js'
+
+describe('Batch runner', () => {
+  describe('loadBatchItems', () => {
+    let dir: string
+
+    beforeEach(() => {
+      dir = mkdtempSync('/tmp/veas-batch-')
+    })
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('should prefer items from the input params over the configuration', async () => {
+      await expect(loadBatchItems({ items: ['a', 'b'] }, { items: ['c'] })).resolves.toEqual(['a', 'b'])
+      await expect(loadBatchItems({}, { batch_size: 3 })).resolves.toEqual([1, 2, 3])
+      await expect(loadBatchItems({ items: 'a,b' })).rejects.toThrow('Batch items must be an array')
+    })
+
+    it('should read items from JSON and line-based files', async () => {
+      const jsonFile = join(dir, 'users.json')
+      const textFile = join(dir, 'hosts.txt')
+      writeFileSync(jsonFile, '[{"id": 1}, {"id": 2}]')
+      writeFileSync(textFile, 'web-1\n\nweb-2\n')
+
+      await expect(loadBatchItems({}, { items_file: jsonFile })).resolves.toEqual([{ id: 1 }, { id: 2 }])
+      await expect(loadBatchItems({ items_file: textFile })).resolves.toEqual(['web-1', 'web-2'])
+    })
+  })
+
+  describe('renderItemTemplate', () => {
+    it('should fill in the item, its fields and the index', () => {
+      const item = { user: { email: 'ana@example.com' }, tags: ['a'] }
+
+      expect(
+        renderItemTemplate('notify {{ item.user.email }} #{{index}} {{item.tags}} {{item.missing}}', item, 2),
+      ).toBe(`notify 'ana@example.com' #2 '["a"]' ''`)
+      expect(renderItemTemplate('ping {{item}}', 'web-1', 1)).toBe(`ping 'web-1'`)
+    })
+
+    it('should keep items with spaces and quotes as one argument', () => {
+      const command = renderItemTemplate('printf %s {{item.name}}', { name: `it's "x"; rm -rf /` }, 1)
+
+      expect(command).toBe(`printf %s 'it'\\''s "x"; rm -rf /'`)
+      expect(execFileSync('sh', ['-c', command], { encoding: 'utf-8' })).toBe(`it's "x"; rm -rf /`)
+    })
+  })
+
+  describe('runBatch', () => {
+    it('should run items concurrently and keep going past failures', async () => {
+      let running = 0
+      let maxRunning = 0
+
+      const results = await runBatch(['a', 'b', 'c', 'd'], 2, async item => {
+        running++
+        maxRunning = Math.max(maxRunning, running)
+        await new Promise(resolve => setTimeout(resolve, 5))
+        running--
+        if (item === 'c') {
+          throw new Error('spawn failed')
+        }
+        return { exitCode: item === 'b' ? 1 : 0, output: `done ${item}` }
+      })
+
+      expect(maxRunning).toBe(2)
+      expect(
+        results.map(({ index, status, exitCode, output, error }) => ({ index, status, exitCode, output, error })),
+      ).toEqual([
+        { index: 1, status: 'success', exitCode: 0, output: 'done a', error: undefined },
+        { index: 2, status: 'failed', exitCode: 1, output: 'done b', error: undefined },
+        { index: 3, status: 'failed', exitCode: undefined, output: undefined, error: 'spawn failed' },
+        { index: 4, status: 'success', exitCode: 0, output: 'done d', error: undefined },
+      ])
+      expect(results.every(result => result.durationMs >= 0)).toBe(true)
+    })
+
+    it('should stop starting items once aborted', async () => {
+      const controller = new AbortController()
+      const started: unknown[] = []
+
+      await expect(
+        runBatch(
+          [1, 2, 3],
+          1,
+          async item => {
+            started.push(item)
+            controller.abort(new Error('Execution cancelled'))
+            throw new Error('killed')
+          },
+          controller.signal,
+        ),
+      ).rejects.toThrow('Execution cancelled')
+      expect(started).toEqual([1])
+    })
+  })
+})
@@ -0,0 +1,140 @@
+/**
+ * Batch Runner
+ *
+ * Fans a batch task out over its items: the command runs once per item with
+ * the item templated in, a limited number at a time. Failed items don't stop
+ * the batch; every item gets a result, and the failed ones can be run again as
+ * a new execution.
+ */
+
+import { readFile } from 'node:fs/promises'
+import { shellQuote } from './shell-session.js'
+
+export type BatchItemStatus = 'success' | 'failed'
+
+export interface BatchItemResult {
+  /** 1-based position of the item in the batch */
+  index: number
+  item: unknown
+  status: BatchItemStatus
+  exitCode?: number
+  durationMs: number
+  /** Start of the item's output */
+  output?: string
+  error?: string
+}
+
+/** Characters of each item's output kept in the batch result */
+export const OUTPUT_EXCERPT_LENGTH = 500
+
+/**
+ * Items of a batch task, from `items` or an `items_file` in the input params or
+ * configuration, with input params taking precedence
+ *
+ * Files hold a JSON array or one item per line. Without either, `batch_size`
+ * numbers the items 1..n.
+ */
+export async function loadBatchItems(
+  inputParams: Record<string, unknown>,
+  configuration: Record<string, unknown> = {},
+): Promise<unknown[]> {
+  const items = inputParams.items ?? configuration.items
+  if (items !== undefined) {
+    if (!Array.isArray(items)) {
+      throw new Error('Batch items must be an array')
+    }
+    return items
+  }
+
+  const itemsFile = inputParams.items_file ?? configuration.items_file
+  if (itemsFile !== undefined) {
+    const content = await readFile(String(itemsFile), 'utf-8')
+    if (content.trimStart().startsWith('[')) {
+      const parsed = JSON.parse(content)
+      if (!Array.isArray(parsed)) {
+        throw new Error(`${itemsFile} does not contain a JSON array`)
+      }
+      return parsed
+    }
+    return content.split('\n').filter(line => line.trim() !== '')
+  }
+
+  const batchSize = Number(inputParams.batch_size ?? configuration.batch_size ?? 0)
+  return Array.from({ length: batchSize }, (_, i) => i + 1)
+}
+
+/**
+ * Fill in `{{item}}`, `{{item.field}}` and `{{index}}` for one item
+ *
+ * Item values are shell-quoted, so each is a single argument however it is
+ * spelled. Objects and arrays are inserted as JSON; missing fields as an empty
+ * string.
+ */
+export function renderItemTemplate(template: string, item: unknown, index: number): string {
+  return template.replace(/\{\{\s*(index|item((?:\.[\w-]+)*))\s*\}\}/g, (_, name: string, path: string) => {
+    if (name === 'index') {
+      return String(index)
+    }
+
+    let value: unknown = item
+    for (const key of path.split('.').slice(1)) {
+      value = value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined
+    }
+    if (value === undefined || value === null) {
+      return shellQuote('')
+    }
+    return shellQuote(typeof value === 'object' ? JSON.stringify(value) : String(value))
+  })
+}
+
+/**
+ * Run every item, at most `concurrency` at a time
+ *
+ * Results are in item order. An item whose run throws is recorded as failed,
+ * unless the batch was aborted, in which case no further items start and the
+ * abort reason is thrown.
+ */
+export async function runBatch(
+  items: unknown[],
+  concurrency: number,
+  runItem: (item: unknown, index: number) => Promise<{ exitCode: number; output: string }>,
+  signal?: AbortSignal,
+): Promise<BatchItemResult[]> {
+  const results: BatchItemResult[] = new Array(items.length)
+  let next = 0
+
+  const worker = async () => {
+    while (next < items.length) {
+      signal?.throwIfAborted()
+      const position = next++
+      const item = items[position]
+      const index = position + 1
+      const startedAt = Date.now()
+
+      try {
+        const { exitCode, output } = await runItem(item, index)
+        results[position] = {
+          index,
+          item,
+          status: exitCode === 0 ? 'success' : 'failed',
+          exitCode,
+          durationMs: Date.now() - startedAt,
+          output: output.slice(0, OUTPUT_EXCERPT_LENGTH),
+        }
+      } catch (error) {
+        if (signal?.aborted) throw signal.reason
+        results[position] = {
+          index,
+          item,
+          status: 'failed',
+          durationMs: Date.now() - startedAt,
+          error: error instanceof Error ? error.message : String(error),
+        }
+      }
+    }
+  }
+
+  const workers = Math.max(1, Math.min(Math.floor(concurrency) || 1, items.length))
+  await Promise.all(Array.from({ length: workers }, worker))
+  return results
+}
@@ -0,0 +1,78 @@
+/**
+ * Tests for command outputs
+ */
+
+import { describe, expect, it } from 'vitest'
+import { OutputCollector, parseOutputFile, renderStepTemplate } from './command-outputs.js'
+
+describe('Command outputs', () => {
+  describe('OutputCollector', () => {
+    it('should read a JSON object on the last line', () => {
+      const collector = new OutputCollector()
+      collector.write('Building...\n{"version": "1.2')
+      collector.write('.0", "size": 42}\n\n')
+
+      expect(collector.finish()).toEqual({ version: '1.2.0', size: 42 })
+    })
+
+    it('should ignore a last line that is not a JSON object', () => {
+      const collector = new OutputCollector()
+      collector.write('{"early": true}\n[1, 2]\n')
+
+      expect(collector.finish()).toEqual({})
+    })
+
+    it('should read set-output markers and let the output file override them', () => {
+      const collector = new OutputCollector()
+      collector.write(
+        '::set-output name=image::app:1.2.0\r\n  ::set-output tag=latest\n{"tag": "json", "digest": "sha"}',
+      )
+
+      expect(collector.finish('tag=stable\n')).toEqual({ image: 'app:1.2.0', tag: 'stable', digest: 'sha' })
+    })
+  })
+
+  describe('parseOutputFile', () => {
+    it('should read name=value lines and delimited blocks', () => {
+      expect(parseOutputFile('url=https://example.com/?a=b\nnotes<<EOF\nline 1\nline 2\nEOF\n')).toEqual({
+        url: 'https://example.com/?a=b',
+        notes: 'line 1\nline 2',
+      })
+      expect(() => parseOutputFile('notes<<EOF\nline 1\n')).toThrow(
+        'Output "notes" in $VEAS_OUTPUT is missing its closing EOF',
+      )
+    })
+
+    it('should keep the types of a JSON object', () => {
+      expect(parseOutputFile('{ "count": 3, "ok": true }\n')).toEqual({ count: 3, ok: true })
+    })
+  })
+
+  describe('renderStepTemplate', () => {
+    it('should fill in step outputs and inputs, leaving other templates alone', () => {
+      const scope = {
+        steps: { build: { outputs: { image: 'app:1.2.0' }, exitCode: 0 } },
+        outputs: { image: 'app:1.2.0' },
+        inputs: { env: 'staging' },
+      }
+
+      expect(
+        renderStepTemplate(
+          'deploy {{ steps.build.outputs.image }} --env {{inputs.env}} {{outputs.missing}}--format {{.Names}}',
+          scope,
+        ),
+      ).toBe(`deploy 'app:1.2.0' --env 'staging' ''--format {{.Names}}`)
+      expect(renderStepTemplate('docker inspect {{ json .State }} {{ name }}', { name: 'api' })).toBe(
+        `docker inspect {{ json .State }} 'api'`,
+      )
+    })
+
+    it('should quote outputs so they stay one argument', () => {
+      const outputs = { tag: `v1 $(touch /tmp/pwned); echo "it's"` }
+
+      expect(renderStepTemplate('git tag {{outputs.tag}}', { outputs })).toBe(
+        `git tag 'v1 $(touch /tmp/pwned); echo "it'\\''s"'`,
+      )
+    })
+  })
+})
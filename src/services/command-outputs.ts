@@ -0,0 +1,128 @@
+/**
+ * Command Outputs
+ *
+ * Commands hand structured results back in three ways, later ones overriding
+ * earlier ones:
+ *
+ * - a JSON object as the last line of stdout
+ * - `::set-output name=<name>::<value>` (or `::set-output <name>=<value>`) lines on stdout
+ * - `name=value` lines, `name<<DELIMITER` blocks or a JSON object written to the file at `$VEAS_OUTPUT`
+ *
+ * Workflow steps see the outputs of earlier steps through templates.
+ */
+
+import { shellQuote } from './shell-session.js'
+
+const SET_OUTPUT = /^::set-output\s+(?:name=([\w.-]+)::(.*)|([\w.-]+)=(.*))$/
+
+/**
+ * Scans a command's stdout for outputs as it streams, so markers in output
+ * that is later truncated still count
+ */
+export class OutputCollector {
+  private partial = ''
+  private lastLine = ''
+  private markers: Record<string, string> = {}
+
+  write(text: string): void {
+    const lines = (this.partial + text).split('\n')
+    this.partial = lines.pop() ?? ''
+    for (const line of lines) {
+      this.line(line)
+    }
+  }
+
+  /**
+   * The command's outputs, with the contents of its output file if it wrote one
+   */
+  finish(outputFile?: string): Record<string, unknown> {
+    this.line(this.partial)
+    this.partial = ''
+    return { ...parseJsonObject(this.lastLine), ...this.markers, ...parseOutputFile(outputFile ?? '') }
+  }
+
+  private line(raw: string): void {
+    const line = raw.replace(/\r$/, '')
+    const marker = SET_OUTPUT.exec(line.trim())
+    if (marker) {
+      this.markers[(marker[1] ?? marker[3]) as string] = (marker[2] ?? marker[4]) as string
+    } else if (line.trim()) {
+      this.lastLine = line.trim()
+    }
+  }
+}
+
+function parseJsonObject(text: string): Record<string, unknown> {
+  if (!text.startsWith('{')) {
+    return {}
+  }
+  try {
+    const value = JSON.parse(text)
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Parse the file a command wrote at `$VEAS_OUTPUT`
+ *
+ * A JSON object keeps its types; otherwise every `name=value` line and
+ * `name<<DELIMITER` ... `DELIMITER` block is a string output.
+ */
+export function parseOutputFile(text: string): Record<string, unknown> {
+  const trimmed = text.trim()
+  if (trimmed.startsWith('{')) {
+    const json = parseJsonObject(trimmed)
+    if (Object.keys(json).length > 0) {
+      return json
+    }
+  }
+
+  const outputs: Record<string, unknown> = {}
+  const lines = text.split(/\r?\n/)
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i] as string
+    const block = /^([\w.-]+)<<(\S+)$/.exec(line)
+    if (block) {
+      const end = lines.indexOf(block[2] as string, i + 1)
+      if (end === -1) {
+        throw new Error(`Output "${block[1]}" in $VEAS_OUTPUT is missing its closing ${block[2]}`)
+      }
+      outputs[block[1] as string] = lines.slice(i + 1, end).join('\n')
+      i = end
+      continue
+    }
+    const separator = line.indexOf('=')
+    if (separator > 0) {
+      outputs[line.slice(0, separator).trim()] = line.slice(separator + 1)
+    }
+  }
+  return outputs
+}
+
+/**
+ * Fill in `{{ }}` paths into the scope in a command, e.g. `{{steps.<id>.outputs.<name>}}`,
+ * `{{outputs.<name>}}` and `{{inputs.<name>}}` in a workflow step's command
+ *
+ * Only plain paths whose first name is in the scope are filled in; other `{{ }}`
+ * text, such as Go templates passed to docker, is left alone. Values come from
+ * earlier commands' output, so each is shell-quoted into a single argument.
+ * Objects and arrays are inserted as JSON; missing values as an empty string.
+ */
+export function renderStepTemplate(template: string, scope: Record<string, unknown>): string {
+  return template.replace(/\{\{\s*(([\w-]+)(?:\.[\w-]+)*)\s*\}\}/g, (match, path: string, root: string) => {
+    if (!Object.hasOwn(scope, root)) {
+      return match
+    }
+
+    let value: unknown = scope
+    for (const key of path.split('.')) {
+      value = value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined
+    }
+    if (value === undefined || value === null) {
+      return shellQuote('')
+    }
+    return shellQuote(typeof value === 'object' ? JSON.stringify(value) : String(value))
+  })
+}
@@ -0,0 +1,113 @@
+/**
+ * Tests for execution log streaming
+ */
+
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { CapturedOutput, ExecutionLogStream, type OutputLogEntry } from './execution-log-stream.js'
+
+describe('ExecutionLogStream', () => {
+  let batches: OutputLogEntry[][]
+  const send = async (entries: OutputLogEntry[]) => {
+    batches.push(entries)
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    batches = []
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should send complete lines with their stream and sequence number', async () => {
+    const logs = new ExecutionLogStream({ send })
+
+    logs.write('stdout', 'Building...\nCompil')
+    logs.write('stderr', 'warning: deprecated\r\n')
+    logs.write('stdout', 'ed 3 files\n')
+    await vi.advanceTimersByTimeAsync(1000)
+
+    expect(batches).toHaveLength(1)
+    expect(batches[0]?.map(({ level, message, data }) => ({ level, message, ...data }))).toEqual([
+      { level: 'info', message: 'Building...', stream: 'stdout', sequence: 0 },
+      { level: 'warning', message: 'warning: deprecated', stream: 'stderr', sequence: 1 },
+      { level: 'info', message: 'Compiled 3 files', stream: 'stdout', sequence: 2 },
+    ])
+  })
+
+  it('should send a batch as soon as it is full', async () => {
+    const logs = new ExecutionLogStream({ send, maxBatchLines: 2, maxLineLength: 5 })
+
+    logs.write('stdout', 'a\nb\nc')
+    await Promise.resolve()
+    expect(batches.map(batch => batch.map(entry => entry.message))).toEqual([['a', 'b']])
+
+    logs.write('stdout', 'ccccccc')
+    await logs.close()
+
+    expect(batches.map(batch => batch.map(entry => entry.message))).toEqual([
+      ['a', 'b'],
+      ['ccccc', 'ccc'],
+    ])
+  })
+
+  it('should keep sending after a batch fails', async () => {
+    const failing = vi.fn().mockRejectedValueOnce(new Error('offline')).mockImplementation(send)
+    const logs = new ExecutionLogStream({ send: failing, maxBatchLines: 1 })
+
+    logs.write('stdout', 'lost\nkept\n')
+    await logs.close()
+
+    expect(failing).toHaveBeenCalledTimes(2)
+    expect(batches.map(batch => batch.map(entry => entry.data.sequence))).toEqual([[1]])
+  })
+
+  it('should stop sending lines past maxLines', async () => {
+    const logs = new ExecutionLogStream({ send, maxLines: 2 })
+
+    logs.write('stdout', 'one\ntwo\nthree\nfour\n')
+    logs.write('stderr', 'five\n')
+    await logs.close()
+
+    expect(batches.flat().map(entry => [entry.level, entry.message])).toEqual([
+      ['info', 'one'],
+      ['info', 'two'],
+      ['warning', 'Output log truncated after 2 lines; the output result keeps the end'],
+    ])
+  })
+})
+
+describe('CapturedOutput', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync('/tmp/veas-output-')
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should keep output under the cap as is', () => {
+    const output = new CapturedOutput(10)
+    output.append('short')
+
+    expect(output.toString()).toBe('short')
+  })
+
+  it('should keep the start and end of long output and spill all of it', async () => {
+    const spillPath = join(dir, 'logs', 'exec-1.log')
+    const output = new CapturedOutput(10, spillPath)
+
+    output.append('0123456789')
+    output.append('abcdef')
+    output.append('ghij')
+    await output.close()
+
+    expect(output.toString()).toBe(`01234\n... [10 characters omitted; full output in ${spillPath}] ...\nfghij`)
+    expect(readFileSync(spillPath, 'utf8')).toBe('0123456789abcdefghij')
+  })
+})
@@ -0,0 +1,209 @@
+/**
+ * Execution Log Stream
+ *
+ * Ships a command's output to the platform while it runs. Output is split into
+ * lines per stream and sent in batches bounded by line count, size and time, so
+ * an execution shows progress without a write per line. Every line carries a
+ * sequence number and the stream it came from. Past a maximum number of lines
+ * the rest is left out of the logs, with a note saying so.
+ *
+ * The output kept for the execution's result is capped separately; once it
+ * outgrows the cap the full output is spilled to a file and only its start and
+ * end stay in memory.
+ */
+
+import { createWriteStream, mkdirSync, type WriteStream } from 'node:fs'
+import { dirname } from 'node:path'
+
+export type OutputStream = 'stdout' | 'stderr'
+
+export interface OutputLogEntry {
+  timestamp: string
+  level: 'info' | 'warning'
+  message: string
+  data: { stream: OutputStream; sequence: number }
+}
+
+export interface ExecutionLogStreamOptions {
+  /** Store a batch of entries; batches are sent one at a time, in order */
+  send: (entries: OutputLogEntry[]) => Promise<void>
+  /** Lines per batch (default 100) */
+  maxBatchLines?: number
+  /** Characters per batch (default 16384) */
+  maxBatchSize?: number
+  /** Longest a line waits before it is sent (default 1000ms) */
+  flushIntervalMs?: number
+  /** Longer lines are split (default 4096 characters) */
+  maxLineLength?: number
+  /** Lines sent in total; later lines are dropped (default 10000) */
+  maxLines?: number
+}
+
+export const DEFAULT_MAX_OUTPUT_LENGTH = 1024 * 1024
+
+export class ExecutionLogStream {
+  private options: Required<ExecutionLogStreamOptions>
+  private partialLines: Record<OutputStream, string> = { stdout: '', stderr: '' }
+  private batch: OutputLogEntry[] = []
+  private batchSize = 0
+  private sequence = 0
+  private timer?: ReturnType<typeof setTimeout>
+  /** Resolves once every batch handed to send has been stored */
+  private sending: Promise<void> = Promise.resolve()
+
+  constructor(options: ExecutionLogStreamOptions) {
+    this.options = {
+      maxBatchLines: 100,
+      maxBatchSize: 16 * 1024,
+      flushIntervalMs: 1000,
+      maxLineLength: 4096,
+      maxLines: 10000,
+      ...options,
+    }
+  }
+
+  /**
+   * Add output from one of the command's streams
+   */
+  write(stream: OutputStream, text: string): void {
+    const lines = (this.partialLines[stream] + text).split('\n')
+    let partial = lines.pop() ?? ''
+
+    for (const line of lines) {
+      this.addLine(stream, line)
+    }
+    while (partial.length >= this.options.maxLineLength) {
+      this.addLine(stream, partial.slice(0, this.options.maxLineLength))
+      partial = partial.slice(this.options.maxLineLength)
+    }
+    this.partialLines[stream] = partial
+  }
+
+  /**
+   * Send the lines collected so far
+   */
+  flush(): Promise<void> {
+    clearTimeout(this.timer)
+    this.timer = undefined
+
+    if (this.batch.length > 0) {
+      const batch = this.batch
+      this.batch = []
+      this.batchSize = 0
+      // send reports its own failures; a lost batch must not hold back the ones after it
+      this.sending = this.sending.then(() => this.options.send(batch)).catch(() => {})
+    }
+    return this.sending
+  }
+
+  /**
+   * Send unterminated last lines and everything still pending
+   */
+  async close(): Promise<void> {
+    for (const stream of ['stdout', 'stderr'] as const) {
+      if (this.partialLines[stream]) {
+        this.addLine(stream, this.partialLines[stream])
+        this.partialLines[stream] = ''
+      }
+    }
+    await this.flush()
+  }
+
+  private addLine(stream: OutputStream, line: string): void {
+    for (let start = 0; start === 0 || start < line.length; start += this.options.maxLineLength) {
+      if (this.sequence > this.options.maxLines) {
+        return
+      }
+      if (this.sequence === this.options.maxLines) {
+        this.batch.push({
+          timestamp: new Date().toISOString(),
+          level: 'warning',
+          message: `Output log truncated after ${this.options.maxLines} lines; the output result keeps the end`,
+          data: { stream, sequence: this.sequence++ },
+        })
+        break
+      }
+
+      const message = line.slice(start, start + this.options.maxLineLength).replace(/\r$/, '')
+      this.batch.push({
+        timestamp: new Date().toISOString(),
+        level: stream === 'stderr' ? 'warning' : 'info',
+        message,
+        data: { stream, sequence: this.sequence++ },
+      })
+      this.batchSize += message.length
+    }
+
+    if (this.batch.length >= this.options.maxBatchLines || this.batchSize >= this.options.maxBatchSize) {
+      void this.flush()
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => void this.flush(), this.options.flushIntervalMs)
+      this.timer.unref?.()
+    }
+  }
+}
+
+/**
+ * A command's output, capped at maxLength characters in memory
+ *
+ * Past the cap the first and last halves are kept. With a spill path the
+ * complete output is written there.
+ */
+export class CapturedOutput {
+  private head = ''
+  private tail = ''
+  private length = 0
+  private truncated = false
+  private spill?: WriteStream
+
+  constructor(
+    private maxLength = DEFAULT_MAX_OUTPUT_LENGTH,
+    private spillPath?: string,
+  ) {}
+
+  append(text: string): void {
+    this.length += text.length
+
+    if (!this.truncated) {
+      this.head += text
+      if (this.head.length <= this.maxLength) {
+        return
+      }
+
+      this.truncated = true
+      if (this.spillPath) {
+        mkdirSync(dirname(this.spillPath), { recursive: true })
+        this.spill = createWriteStream(this.spillPath)
+        this.spill.on('error', () => {
+          // Keep the truncated output without the file
+          this.spill = undefined
+        })
+        this.spill.write(this.head)
+      }
+      const half = Math.floor(this.maxLength / 2)
+      this.tail = this.head.slice(-half)
+      this.head = this.head.slice(0, half)
+      return
+    }
+
+    this.spill?.write(text)
+    this.tail = (this.tail + text).slice(-Math.floor(this.maxLength / 2))
+  }
+
+  /**
+   * Finish writing the spill file, if any
+   */
+  close(): Promise<void> {
+    const spill = this.spill
+    return spill ? new Promise(resolve => spill.end(resolve)) : Promise.resolve()
+  }
+
+  toString(): string {
+    if (!this.truncated) {
+      return this.head
+    }
+    const omitted = this.length - this.head.length - this.tail.length
+    const location = this.spill ? `; full output in ${this.spillPath}` : ''
+    return `${this.head}\n... [${omitted} characters omitted${location}] ...\n${this.tail}`
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Tests for monitoring checks
+ */
+
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { diffCheckStates, evaluateThresholds, runCheck, sendAlertEmail } from './monitoring-checks.js'
+
+describe('Monitoring checks', () => {
+  describe('evaluateThresholds', () => {
+    it('should compare values above or below the thresholds', () => {
+      expect(evaluateThresholds(79, { warning: 80, critical: 95 })).toBe('ok')
+      expect(evaluateThresholds(80, { warning: 80, critical: 95 })).toBe('warning')
+      expect(evaluateThresholds(97, { warning: 80, critical: 95 })).toBe('critical')
+      expect(evaluateThresholds(5, { warning: 20, critical: 10, direction: 'below' })).toBe('critical')
+    })
+  })
+
+  describe('runCheck', () => {
+    const runCommand = vi.fn()
+
+    it('should treat command exit codes like monitoring plugins by default', async () => {
+      runCommand.mockResolvedValueOnce({ output: '', exitCode: 1 })
+
+      await expect(
+        runCheck({ name: 'backup', type: 'command', command: './check-backup' }, { runCommand }),
+      ).resolves.toEqual({
+        name: 'backup',
+        type: 'command',
+        status: 'warning',
+        value: 1,
+        message: '1 (exit code)',
+      })
+    })
+
+    it('should read a number from the output with a regex', async () => {
+      runCommand.mockResolvedValue({ output: 'Filesystem  Use%\n/dev/sda1   91%\n', exitCode: 0 })
+      const check = {
+        name: 'disk',
+        type: 'regex' as const,
+        command: 'df /',
+        pattern: '(\\d+)%$',
+        warning: 80,
+        critical: 95,
+      }
+
+      await expect(runCheck(check, { runCommand })).resolves.toMatchObject({ status: 'warning', value: 91 })
+      await expect(runCheck({ ...check, pattern: 'inodes (\\d+)' }, { runCommand })).resolves.toMatchObject({
+        status: 'critical',
+        message: 'No number matching /inodes (\\d+)/ in the output',
+      })
+    })
+
+    it('should check HTTP status and latency', async () => {
+      const fetch = vi.fn().mockResolvedValueOnce({ status: 200 }).mockResolvedValueOnce({ status: 503 })
+      const check = { name: 'api', type: 'http' as const, url: 'http://localhost:8080/health', warning: 60000 }
+
+      await expect(runCheck(check, { runCommand, fetch })).resolves.toMatchObject({ status: 'ok' })
+      await expect(runCheck(check, { runCommand, fetch })).resolves.toMatchObject({
+        status: 'critical',
+        message: expect.stringMatching(/^HTTP 503 in \d+ms$/),
+      })
+    })
+
+    describe('file checks', () => {
+      let dir: string
+
+      beforeEach(() => {
+        dir = mkdtempSync('/tmp/veas-monitoring-')
+      })
+
+      afterEach(() => {
+        rmSync(dir, { recursive: true, force: true })
+      })
+
+      it('should measure file age and size, and fail on missing files', async () => {
+        const path = join(dir, 'backup.tar')
+        writeFileSync(path, 'x'.repeat(10))
+        const twoHoursAgo = Date.now() / 1000 - 7200
+        utimesSync(path, twoHoursAgo, twoHoursAgo)
+
+        await expect(
+          runCheck(
+            { name: 'fresh', type: 'file', path, metric: 'age', warning: 3600, critical: 86400 },
+            { runCommand },
+          ),
+        ).resolves.toMatchObject({ status: 'warning' })
+        await expect(
+          runCheck(
+            { name: 'size', type: 'file', path, metric: 'size', critical: 100, direction: 'below' },
+            { runCommand },
+          ),
+        ).resolves.toMatchObject({ status: 'critical', value: 10, message: '10 bytes' })
+        await expect(
+          runCheck({ name: 'gone', type: 'file', path: join(dir, 'missing'), metric: 'age' }, { runCommand }),
+        ).resolves.toMatchObject({ status: 'critical', message: expect.stringContaining('ENOENT') })
+      })
+    })
+  })
+
+  describe('diffCheckStates', () => {
+    it('should report only checks whose status changed', () => {
+      const previous = {
+        disk: { status: 'warning' as const, since: '2026-01-01T00:00:00.000Z' },
+        api: { status: 'critical' as const, since: '2026-01-01T00:00:00.000Z' },
+      }
+      const { changes, state } = diffCheckStates(
+        previous,
+        [
+          { name: 'disk', type: 'regex', status: 'warning', value: 85, message: '85' },
+          { name: 'api', type: 'http', status: 'ok', value: 12, message: 'HTTP 200 in 12ms' },
+          { name: 'backup', type: 'command', status: 'ok', value: 0, message: '0 (exit code)' },
+        ],
+        '2026-01-02T00:00:00.000Z',
+      )
+
+      expect(changes).toEqual([{ check: 'api', previous: 'critical', current: 'ok', message: 'HTTP 200 in 12ms' }])
+      expect(state).toEqual({
+        disk: { status: 'warning', since: '2026-01-01T00:00:00.000Z' },
+        api: { status: 'ok', since: '2026-01-02T00:00:00.000Z' },
+        backup: { status: 'ok', since: '2026-01-02T00:00:00.000Z' },
+      })
+    })
+  })
+
+  describe('sendAlertEmail', () => {
+    afterEach(() => {
+      delete process.env.VEAS_SENDMAIL
+    })
+
+    it('should reject instead of crashing when sendmail exits without reading the message', async () => {
+      process.env.VEAS_SENDMAIL = 'exit 3'
+      // Larger than a pipe buffer, so writing it fails once sendmail is gone
+      const message = 'x'.repeat(1024 * 1024)
+
+      await expect(
+        sendAlertEmail('ops@example.com', {
+          taskId: 'task-1',
+          taskName: 'Health',
+          executionId: 'exec-1',
+          scheduleId: 'schedule-1',
+          status: 'critical',
+          changes: [{ check: 'api', previous: 'ok', current: 'critical', message }],
+          checks: [],
+          timestamp: '2026-01-02T00:00:00.000Z',
+        }),
+      ).rejects.toThrow()
+    })
+  })
+})
@@ -0,0 +1,246 @@
+/**
+ * Monitoring Checks
+ *
+ * Declarative checks for monitoring tasks. Each check measures one number (an
+ * exit code, a value parsed from command output, an HTTP latency, a file's age
+ * or size) and compares it with warning and critical thresholds. The last
+ * status of every check is kept between runs so that only changes alert.
+ */
+
+import { spawn } from 'node:child_process'
+import { mkdir, readFile, stat, writeFile } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import { anySignal } from '../utils/abort-signal.js'
+
+export type CheckStatus = 'ok' | 'warning' | 'critical'
+
+export interface Thresholds {
+  warning?: number
+  critical?: number
+  /** Whether values above (default) or below the thresholds are bad */
+  direction?: 'above' | 'below'
+}
+
+export type MonitoringCheck = Thresholds & { name: string } & (
+    | { type: 'command'; command: string }
+    | { type: 'regex'; command: string; pattern: string }
+    | { type: 'http'; url: string; expect_status?: number[]; timeout_ms?: number }
+    | { type: 'file'; path: string; metric: 'age' | 'size' }
+  )
+
+export interface CheckResult {
+  name: string
+  type: MonitoringCheck['type']
+  status: CheckStatus
+  value?: number
+  message: string
+}
+
+export interface CheckStateChange {
+  check: string
+  previous: CheckStatus
+  current: CheckStatus
+  message: string
+}
+
+/** Status of each check after the last run, by check name */
+export type MonitorState = Record<string, { status: CheckStatus; since: string }>
+
+export interface CheckRunner {
+  runCommand(command: string, signal?: AbortSignal): Promise<{ output: string; exitCode: number }>
+  fetch?: typeof fetch
+  signal?: AbortSignal
+}
+
+const SEVERITY: Record<CheckStatus, number> = { ok: 0, warning: 1, critical: 2 }
+
+/** Command checks follow the Nagios plugin convention: exit 1 warns, 2 and above is critical */
+const COMMAND_THRESHOLDS: Thresholds = { warning: 1, critical: 2 }
+
+const DEFAULT_HTTP_TIMEOUT_MS = 10000
+
+/**
+ * The worse of two statuses
+ */
+export function worstStatus(a: CheckStatus, b: CheckStatus): CheckStatus {
+  return SEVERITY[b] > SEVERITY[a] ? b : a
+}
+
+/**
+ * Status of a value against warning and critical thresholds
+ */
+export function evaluateThresholds(value: number, thresholds: Thresholds): CheckStatus {
+  const breaches = (limit: number | undefined) =>
+    limit !== undefined && (thresholds.direction === 'below' ? value <= limit : value >= limit)
+
+  if (breaches(thresholds.critical)) return 'critical'
+  if (breaches(thresholds.warning)) return 'warning'
+  return 'ok'
+}
+
+/**
+ * Measure a value and compare it with the check's thresholds
+ *
+ * A check that can't take its measurement (the command can't start, the
+ * request fails, the file is missing) is critical.
+ */
+export async function runCheck(check: MonitoringCheck, runner: CheckRunner): Promise<CheckResult> {
+  const result = (status: CheckStatus, message: string, value?: number): CheckResult => ({
+    name: check.name,
+    type: check.type,
+    status,
+    value,
+    message,
+  })
+  const measured = (value: number, unit: string, thresholds: Thresholds = check) =>
+    result(evaluateThresholds(value, thresholds), `${value}${unit}`, value)
+
+  try {
+    switch (check.type) {
+      case 'command': {
+        const { exitCode } = await runner.runCommand(check.command, runner.signal)
+        const thresholds = check.warning === undefined && check.critical === undefined ? COMMAND_THRESHOLDS : check
+        return measured(exitCode, ' (exit code)', thresholds)
+      }
+      case 'regex': {
+        const { output } = await runner.runCommand(check.command, runner.signal)
+        const match = new RegExp(check.pattern, 'm').exec(output)
+        const value = Number(match?.[1] ?? match?.[0])
+        if (!match || Number.isNaN(value)) {
+          return result('critical', `No number matching /${check.pattern}/ in the output`)
+        }
+        return measured(value, '')
+      }
+      case 'http': {
+        const timeout = AbortSignal.timeout(check.timeout_ms ?? DEFAULT_HTTP_TIMEOUT_MS)
+        const startedAt = Date.now()
+        const response = await (runner.fetch ?? fetch)(check.url, {
+          signal: runner.signal ? anySignal([runner.signal, timeout]) : timeout,
+        })
+        const latency = Date.now() - startedAt
+        const expected = check.expect_status
+        if (expected ? !expected.includes(response.status) : response.status >= 400) {
+          return result('critical', `HTTP ${response.status} in ${latency}ms`, latency)
+        }
+        return { ...measured(latency, 'ms'), message: `HTTP ${response.status} in ${latency}ms` }
+      }
+      case 'file': {
+        const stats = await stat(check.path)
+        return check.metric === 'size'
+          ? measured(stats.size, ' bytes')
+          : measured(Math.round((Date.now() - stats.mtimeMs) / 1000), 's old')
+      }
+    }
+  } catch (error) {
+    if (runner.signal?.aborted) throw error
+    return result('critical', error instanceof Error ? error.message : String(error))
+  }
+}
+
+/**
+ * Compare check results with the previous run's statuses
+ *
+ * Checks seen for the first time count as previously ok, so a new check only
+ * alerts when it isn't. Returns the changes and the state to keep for the next run.
+ */
+export function diffCheckStates(
+  previous: MonitorState,
+  results: CheckResult[],
+  now = new Date().toISOString(),
+): { changes: CheckStateChange[]; state: MonitorState } {
+  const changes: CheckStateChange[] = []
+  const state: MonitorState = {}
+
+  for (const result of results) {
+    const before = previous[result.name]
+    const previousStatus = before?.status ?? 'ok'
+    if (previousStatus !== result.status) {
+      changes.push({ check: result.name, previous: previousStatus, current: result.status, message: result.message })
+    }
+    state[result.name] = previousStatus === result.status && before ? before : { status: result.status, since: now }
+  }
+
+  return { changes, state }
+}
+
+export async function loadMonitorState(path: string): Promise<MonitorState> {
+  try {
+    return JSON.parse(await readFile(path, 'utf-8')) as MonitorState
+  } catch {
+    return {}
+  }
+}
+
+export async function saveMonitorState(path: string, state: MonitorState): Promise<void> {
+  await mkdir(dirname(path), { recursive: true })
+  await writeFile(path, JSON.stringify(state, null, 2))
+}
+
+export interface MonitoringAlert {
+  taskId: string
+  taskName: string
+  executionId: string
+  scheduleId: string
+  status: CheckStatus
+  changes: CheckStateChange[]
+  checks: CheckResult[]
+  timestamp: string
+}
+
+/**
+ * POST an alert as JSON to a webhook
+ */
+export async function sendAlertWebhook(
+  url: string,
+  alert: MonitoringAlert,
+  fetchFn: typeof fetch = fetch,
+): Promise<void> {
+  const response = await fetchFn(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(alert),
+    signal: AbortSignal.timeout(DEFAULT_HTTP_TIMEOUT_MS),
+  })
+  if (!response.ok) {
+    throw new Error(`Webhook responded with HTTP ${response.status}`)
+  }
+}
+
+/**
+ * Email an alert through the local sendmail (`VEAS_SENDMAIL`, default `sendmail -t`)
+ */
+export function sendAlertEmail(to: string, alert: MonitoringAlert): Promise<void> {
+  const lines = alert.changes.map(
+    change => `${change.check}: ${change.previous} -> ${change.current} (${change.message})`,
+  )
+  // Header values come from the schedule and task, so keep them to one line each
+  const header = (value: string) => value.replace(/[\r\n]+/g, ' ')
+  const message = [
+    `To: ${header(to)}`,
+    `Subject: [${alert.status.toUpperCase()}] ${header(alert.taskName)}`,
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    ...lines,
+    '',
+    `Execution ${alert.executionId} at ${alert.timestamp}`,
+    '',
+  ].join('\n')
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.env.VEAS_SENDMAIL || 'sendmail -t', [], {
+      shell: true,
+      stdio: ['pipe', 'ignore', 'pipe'],
+    })
+    let stderr = ''
+    child.stderr?.on('data', data => {
+      stderr += data.toString()
+    })
+    child.on('error', reject)
+    // sendmail may exit before reading the message; without a listener the EPIPE would crash the agent
+    child.stdin?.on('error', reject)
+    child.on('close', code =>
+      code === 0 ? resolve() : reject(new Error(`sendmail exited with code ${code}: ${stderr.trim()}`)),
+    )
+    child.stdin?.end(message)
+  })
+}
@@ -0,0 +1,66 @@
+/**
+ * Tests for report rendering
+ */
+
+import { describe, expect, it } from 'vitest'
+import { renderReport, renderTemplate } from './report-renderer.js'
+
+describe('Report renderer', () => {
+  const generatedAt = '2026-01-05T09:00:00.000Z'
+  const data = {
+    issues: { total: 2, issues: [{ title: 'Login <fails>' }, { title: 'Slow sync' }] },
+    uptime: '99.9%',
+  }
+
+  describe('renderTemplate', () => {
+    it('should render values, loops and conditionals', () => {
+      const template = [
+        '{{issues.total}} open issues',
+        '{{#each issues.issues}}{{index + 1}}. {{item.title}}\n{{/each}}',
+        '{{#if issues.total > 5}}Busy week{{else}}Quiet week{{/if}}',
+      ].join('\n')
+
+      expect(renderTemplate(template, data, 'markdown')).toBe(
+        '2 open issues\n1. Login <fails>\n2. Slow sync\n\nQuiet week',
+      )
+    })
+
+    it('should escape values in HTML', () => {
+      expect(renderTemplate('<li>{{issues.issues[0].title}}</li>', data, 'html')).toBe('<li>Login &lt;fails&gt;</li>')
+    })
+
+    it('should reject unbalanced blocks', () => {
+      expect(() => renderTemplate('{{#each issues.issues}}{{item.title}}', data, 'markdown')).toThrow(
+        'Unclosed {{#each issues.issues}}',
+      )
+      expect(() => renderTemplate('{{#if uptime}}up{{/each}}', data, 'markdown')).toThrow('Unexpected {{/each}}')
+    })
+  })
+
+  describe('renderReport', () => {
+    it('should give Markdown reports a section per source by default', () => {
+      const report = renderReport({ title: 'Weekly', format: 'markdown', data, generatedAt })
+
+      expect(report).toContain('# Weekly\n\n_Generated 2026-01-05T09:00:00.000Z_\n')
+      expect(report).toContain('## uptime\n\n```\n99.9%\n```\n')
+      expect(report).toContain('## issues\n\n```\n{\n  "total": 2,')
+    })
+
+    it('should render JSON reports from an object template', () => {
+      const report = renderReport({
+        title: 'Weekly',
+        format: 'json',
+        data,
+        generatedAt,
+        template: { name: '{{title}}', open: '{{issues.total}}', first: '{{issues.issues[0]}}' },
+      })
+
+      expect(JSON.parse(report)).toEqual({ name: 'Weekly', open: 2, first: { title: 'Login <fails>' } })
+      expect(JSON.parse(renderReport({ title: 'Weekly', format: 'json', data, generatedAt }))).toEqual({
+        title: 'Weekly',
+        generated_at: generatedAt,
+        data,
+      })
+    })
+  })
+})
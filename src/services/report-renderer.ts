@@ -0,0 +1,199 @@
+/**
+ * Report Renderer
+ *
+ * Renders the data a report task gathered into a document. Markdown and HTML
+ * reports use text templates: `{{expression}}` inserts a value (escaped in
+ * HTML), `{{#each expression}}...{{/each}}` repeats for every item with `item`
+ * and `index` in scope, and `{{#if expression}}...{{else}}...{{/if}}` picks a
+ * branch. Expressions are the workflow expression language. JSON reports use
+ * an object template whose `{{ }}` strings keep the type of their value.
+ */
+
+import { evaluateExpression, resolveTemplates } from '../agent/expression.js'
+
+export type ReportFormat = 'markdown' | 'html' | 'json'
+
+export const REPORT_FORMATS: ReportFormat[] = ['markdown', 'html', 'json']
+
+export interface ReportDocument {
+  title: string
+  format: ReportFormat
+  /** Data from each source, keyed by source name */
+  data: Record<string, unknown>
+  /** Text template for Markdown and HTML, object template for JSON */
+  template?: unknown
+  generatedAt: string
+}
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'value'; expression: string }
+  | { type: 'each'; expression: string; body: TemplateNode[] }
+  | { type: 'if'; expression: string; matched: TemplateNode[]; otherwise: TemplateNode[] }
+
+const TAG = /\{\{([\s\S]+?)\}\}/g
+
+/**
+ * Parse a text template into nodes, checking that blocks are closed
+ */
+function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = []
+  // Open blocks, innermost last; nodes are added to the top's current branch
+  const stack: { node: TemplateNode & { type: 'each' | 'if' }; branch: TemplateNode[] }[] = []
+  const current = () => stack[stack.length - 1]?.branch ?? root
+  let last = 0
+
+  for (const match of template.matchAll(TAG)) {
+    if (match.index > last) {
+      current().push({ type: 'text', text: template.slice(last, match.index) })
+    }
+    last = match.index + match[0].length
+
+    const tag = (match[1] as string).trim()
+    const block = /^#(each|if)\s+([\s\S]+)$/.exec(tag)
+    if (block) {
+      const node: TemplateNode & { type: 'each' | 'if' } =
+        block[1] === 'each'
+          ? { type: 'each', expression: block[2] as string, body: [] }
+          : { type: 'if', expression: block[2] as string, matched: [], otherwise: [] }
+      current().push(node)
+      stack.push({ node, branch: node.type === 'each' ? node.body : node.matched })
+    } else if (tag === 'else') {
+      const open = stack[stack.length - 1]
+      if (open?.node.type !== 'if') {
+        throw new Error('{{else}} outside of an {{#if}} block')
+      }
+      open.branch = open.node.otherwise
+    } else if (tag === '/each' || tag === '/if') {
+      const open = stack.pop()
+      if (open?.node.type !== tag.slice(1)) {
+        throw new Error(`Unexpected {{${tag}}}`)
+      }
+    } else {
+      current().push({ type: 'value', expression: tag })
+    }
+  }
+
+  const unclosed = stack.pop()
+  if (unclosed) {
+    throw new Error(`Unclosed {{#${unclosed.node.type} ${unclosed.node.expression}}}`)
+  }
+  if (last < template.length) {
+    root.push({ type: 'text', text: template.slice(last) })
+  }
+  return root
+}
+
+function renderNodes(
+  nodes: TemplateNode[],
+  scope: Record<string, unknown>,
+  escapeText: (text: string) => string,
+): string {
+  let output = ''
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.text
+        break
+      case 'value': {
+        const value = evaluateExpression(node.expression, scope)
+        if (value !== undefined && value !== null) {
+          output += escapeText(typeof value === 'object' ? JSON.stringify(value) : String(value))
+        }
+        break
+      }
+      case 'each': {
+        const items = evaluateExpression(node.expression, scope)
+        if (Array.isArray(items)) {
+          items.forEach((item, index) => {
+            output += renderNodes(node.body, { ...scope, item, index }, escapeText)
+          })
+        }
+        break
+      }
+      case 'if':
+        output += renderNodes(
+          evaluateExpression(node.expression, scope) ? node.matched : node.otherwise,
+          scope,
+          escapeText,
+        )
+        break
+    }
+  }
+
+  return output
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Render a text template against a scope
+ */
+export function renderTemplate(template: string, scope: Record<string, unknown>, format: ReportFormat): string {
+  return renderNodes(parseTemplate(template), scope, format === 'html' ? escapeHtml : text => text)
+}
+
+const DEFAULT_TEMPLATES: Record<Exclude<ReportFormat, 'json'>, string> = {
+  markdown: `# {{title}}
+
+_Generated {{generated_at}}_
+{{#each sections}}
+## {{item.name}}
+
+\`\`\`
+{{item.content}}
+\`\`\`
+{{/each}}`,
+  html: `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>{{title}}</title></head>
+<body>
+<h1>{{title}}</h1>
+<p><em>Generated {{generated_at}}</em></p>
+{{#each sections}}<h2>{{item.name}}</h2>
+<pre>{{item.content}}</pre>
+{{/each}}</body>
+</html>
+`,
+}
+
+/**
+ * Render a report document
+ *
+ * Templates see every source by name, plus `title`, `generated_at` and
+ * `sections` (each source's name and content as text). Without a template
+ * Markdown and HTML reports get one section per source, and JSON reports are
+ * the title, generation time and data.
+ */
+export function renderReport(report: ReportDocument): string {
+  const scope: Record<string, unknown> = {
+    ...report.data,
+    title: report.title,
+    generated_at: report.generatedAt,
+    sections: Object.entries(report.data).map(([name, content]) => ({
+      name,
+      content: typeof content === 'string' ? content : JSON.stringify(content, null, 2),
+    })),
+  }
+
+  if (report.format === 'json') {
+    const document =
+      report.template === undefined
+        ? { title: report.title, generated_at: report.generatedAt, data: report.data }
+        : resolveTemplates(report.template, scope)
+    return JSON.stringify(document, null, 2)
+  }
+
+  if (report.template !== undefined && typeof report.template !== 'string') {
+    throw new Error(`${report.format} reports need a text template`)
+  }
+  return renderTemplate(report.template ?? DEFAULT_TEMPLATES[report.format], scope, report.format)
+}
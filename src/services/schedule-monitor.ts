@@ -121,6 +121,9 @@ export class ScheduleMonitor {
               if (execution && (execution.status === 'pending' || execution.status === 'queued')) {
                 console.log(chalk.cyan(`\n📨 New assigned execution detected: ${execution.id}`))
                 await this.handleNewExecution(execution)
+              } else if (payload.eventType === 'UPDATE' && execution?.status === 'cancelled') {
+                // Stop the execution if it is running here
+                this.taskExecutor.cancelExecution(execution.id)
               }
             }
           },
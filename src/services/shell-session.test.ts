@@ -0,0 +1,73 @@
+/**
+ * Tests for shell sessions
+ */
+
+import { mkdtempSync, realpathSync, rmSync } from 'node:fs'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { ShellSession } from './shell-session.js'
+
+describe('ShellSession', () => {
+  let dir: string
+  let session: ShellSession
+  let output: { stream: string; text: string }[]
+
+  const run = (command: string, options = {}) =>
+    session.run(command, { onOutput: (stream, text) => output.push({ stream, text }), ...options })
+  const text = (stream: string) =>
+    output
+      .filter(chunk => chunk.stream === stream)
+      .map(chunk => chunk.text)
+      .join('')
+
+  beforeEach(() => {
+    dir = realpathSync(mkdtempSync('/tmp/veas-session-'))
+    session = new ShellSession({ shell: 'bash', cwd: dir })
+    output = []
+  })
+
+  afterEach(async () => {
+    await session.close()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should keep the directory and variables between steps', async () => {
+    await expect(run('mkdir -p build && cd build\nexport STAGE=test')).resolves.toEqual({
+      exitCode: 0,
+      timedOut: false,
+    })
+    output = []
+    await expect(run('echo "$PWD $STAGE"')).resolves.toEqual({ exitCode: 0, timedOut: false })
+
+    expect(text('stdout')).toBe(`${dir}/build test\n`)
+  })
+
+  it('should report each step exit code and separate its output', async () => {
+    await expect(run('echo out; echo err >&2; printf partial; false')).resolves.toMatchObject({ exitCode: 1 })
+    expect(text('stdout')).toBe('out\npartial')
+    expect(text('stderr')).toBe('err\n')
+
+    output = []
+    await expect(run('cat; (exit 3)', { env: { NAME: "it's" } })).resolves.toMatchObject({ exitCode: 3 })
+    await expect(run('echo "$NAME"')).resolves.toMatchObject({ exitCode: 0 })
+    expect(text('stdout')).toBe("it's\n")
+  })
+
+  it('should interrupt a step that times out and keep the session', async () => {
+    await expect(run('sleep 30', { timeoutMs: 200 })).resolves.toMatchObject({ timedOut: true })
+    await expect(run('echo still here')).resolves.toEqual({ exitCode: 0, timedOut: false })
+    expect(text('stdout')).toBe('still here\n')
+  })
+
+  it('should end the session when a step exits the shell', async () => {
+    await expect(run('exit 4')).resolves.toEqual({ exitCode: 4, timedOut: false })
+    await expect(run('echo again')).rejects.toThrow('The shell session has ended')
+  })
+
+  it('should kill the session when the signal aborts', async () => {
+    const controller = new AbortController()
+    const step = run('sleep 30', { signal: controller.signal })
+    controller.abort(new Error('Execution cancelled'))
+
+    await expect(step).rejects.toThrow('Execution cancelled')
+  })
+})
@@ -0,0 +1,258 @@
+/**
+ * Shell Session
+ *
+ * Runs a workflow's steps one after another in a single long-lived shell, so
+ * `cd`, exported variables and activated virtualenvs carry over between
+ * steps. Each step is sent to the shell's stdin followed by a sentinel line
+ * with a random token, on stdout with the step's exit code and on stderr, so
+ * the step's output and exit code can be told apart from the next step's.
+ */
+
+import { type ChildProcess, spawn } from 'node:child_process'
+import { randomUUID } from 'node:crypto'
+
+export interface ShellSessionOptions {
+  /** Shell to run (default $VEAS_SHELL or bash); must understand POSIX sh syntax */
+  shell?: string
+  cwd?: string
+  env?: NodeJS.ProcessEnv
+}
+
+export interface SessionStepOptions {
+  /** Called with each complete line of output, and any partial line once the step ends */
+  onOutput?: (stream: 'stdout' | 'stderr', text: string) => void
+  /** Variables exported before the step runs */
+  env?: Record<string, string>
+  /** Interrupt the step after this long */
+  timeoutMs?: number
+  signal?: AbortSignal
+}
+
+export interface SessionStepResult {
+  exitCode: number
+  timedOut: boolean
+}
+
+/** Time an interrupted step gets to stop before the whole session is killed */
+const INTERRUPT_GRACE_PERIOD_MS = 5000
+
+type StreamName = 'stdout' | 'stderr'
+
+interface PendingStep {
+  marker: string
+  options: SessionStepOptions
+  buffers: Record<StreamName, string>
+  done: Record<StreamName, boolean>
+  exitCode?: number
+  timedOut: boolean
+  resolve: (result: SessionStepResult) => void
+  reject: (error: Error) => void
+}
+
+/** Quote a value for POSIX sh */
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`
+}
+
+export class ShellSession {
+  private child?: ChildProcess
+  private pending?: PendingStep
+  private exited = false
+  private closing?: Promise<void>
+
+  constructor(private options: ShellSessionOptions = {}) {}
+
+  /**
+   * Start the shell; steps started before this start it themselves
+   */
+  start(): void {
+    if (this.child) return
+
+    const child = spawn(this.options.shell || process.env.VEAS_SHELL || 'bash', [], {
+      stdio: ['pipe', 'pipe', 'pipe'],
+      detached: process.platform !== 'win32', // own process group, so interrupts and kills reach the step's processes
+      cwd: this.options.cwd,
+      env: this.options.env,
+    })
+    this.child = child
+
+    child.stdout?.on('data', data => this.receive('stdout', data.toString()))
+    child.stderr?.on('data', data => this.receive('stderr', data.toString()))
+    child.on('error', error => this.end(error))
+    child.on('close', code => this.end(undefined, code))
+    // Ignore EPIPE when the shell has gone; the close handler reports it
+    child.stdin?.on('error', () => {})
+
+    // Interrupting a step stops its processes; the shell itself keeps running
+    child.stdin?.write(`trap ':' INT\n`)
+  }
+
+  /**
+   * Run one step, resolving with its exit code once all its output has arrived
+   */
+  run(command: string, options: SessionStepOptions = {}): Promise<SessionStepResult> {
+    if (this.pending) {
+      return Promise.reject(new Error('A step is already running in this shell session'))
+    }
+    if (options.signal?.aborted) {
+      return Promise.reject(options.signal.reason)
+    }
+    this.start()
+    if (this.exited || this.closing) {
+      return Promise.reject(new Error('The shell session has ended'))
+    }
+
+    const token = randomUUID().replace(/-/g, '')
+    const marker = `__veas_step_${token}__`
+    const delimiter = `__VEAS_COMMAND_${token}`
+    const exports = Object.entries(options.env ?? {})
+      .map(([name, value]) => `export ${name}=${shellQuote(value)}\n`)
+      .join('')
+
+    return new Promise((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined
+      let forceKill: ReturnType<typeof setTimeout> | undefined
+      const onAbort = () => this.kill()
+      const cleanup = () => {
+        clearTimeout(timer)
+        clearTimeout(forceKill)
+        options.signal?.removeEventListener('abort', onAbort)
+      }
+
+      const step: PendingStep = {
+        marker,
+        options,
+        buffers: { stdout: '', stderr: '' },
+        done: { stdout: false, stderr: false },
+        timedOut: false,
+        resolve: result => {
+          cleanup()
+          resolve(result)
+        },
+        reject: error => {
+          cleanup()
+          reject(options.signal?.aborted ? options.signal.reason : error)
+        },
+      }
+      this.pending = step
+
+      options.signal?.addEventListener('abort', onAbort, { once: true })
+      if (options.timeoutMs) {
+        timer = setTimeout(() => {
+          step.timedOut = true
+          this.interrupt()
+          forceKill = setTimeout(() => this.kill(), INTERRUPT_GRACE_PERIOD_MS)
+        }, options.timeoutMs)
+      }
+
+      // The step reads /dev/null rather than the shell's stdin, which carries the following steps
+      this.child?.stdin?.write(
+        `${exports}eval "$(cat <<'${delimiter}'\n${command}\n${delimiter}\n)" < /dev/null\n` +
+          `__veas_status=$?\n` +
+          `printf '%s:%s\\n' ${shellQuote(marker)} "$__veas_status"\n` +
+          `printf '%s\\n' ${shellQuote(marker)} >&2\n`,
+      )
+    })
+  }
+
+  /**
+   * Stop the shell, waiting for it to exit
+   */
+  close(): Promise<void> {
+    const child = this.child
+    if (!child || this.exited) {
+      return Promise.resolve()
+    }
+    this.closing ??= new Promise(resolve => {
+      child.once('close', () => resolve())
+      child.stdin?.end('exit\n')
+      const forceKill = setTimeout(() => this.kill(), INTERRUPT_GRACE_PERIOD_MS)
+      forceKill.unref()
+      child.once('close', () => clearTimeout(forceKill))
+    })
+    return this.closing
+  }
+
+  /**
+   * Interrupt the running step's processes
+   */
+  private interrupt(): void {
+    this.signalGroup('SIGINT')
+  }
+
+  /**
+   * Kill the shell and everything it started
+   */
+  private kill(): void {
+    this.signalGroup('SIGKILL')
+  }
+
+  private signalGroup(signal: NodeJS.Signals): void {
+    const child = this.child
+    if (!child?.pid || this.exited) return
+    try {
+      if (process.platform === 'win32') {
+        child.kill(signal)
+      } else {
+        process.kill(-child.pid, signal)
+      }
+    } catch {
+      child.kill(signal)
+    }
+  }
+
+  private receive(stream: StreamName, text: string): void {
+    const step = this.pending
+    if (!step) return
+
+    step.buffers[stream] += text
+    let buffer = step.buffers[stream]
+
+    const at = buffer.indexOf(step.marker)
+    if (at !== -1) {
+      const end = buffer.indexOf('\n', at)
+      if (end === -1) return // the rest of the sentinel line is still on its way
+
+      if (stream === 'stdout') {
+        step.exitCode = Number(buffer.slice(at + step.marker.length + 1, end))
+      }
+      if (at > 0) {
+        step.options.onOutput?.(stream, buffer.slice(0, at))
+      }
+      step.buffers[stream] = ''
+      step.done[stream] = true
+      if (step.done.stdout && step.done.stderr) {
+        this.pending = undefined
+        step.resolve({ exitCode: step.exitCode ?? 0, timedOut: step.timedOut })
+      }
+      return
+    }
+
+    // Pass on complete lines; a partial line might be the start of the sentinel
+    const lastLine = buffer.lastIndexOf('\n')
+    if (lastLine !== -1) {
+      step.options.onOutput?.(stream, buffer.slice(0, lastLine + 1))
+      buffer = buffer.slice(lastLine + 1)
+      step.buffers[stream] = buffer
+    }
+  }
+
+  private end(error?: Error, code?: number | null): void {
+    this.exited = true
+    const step = this.pending
+    if (!step) return
+    this.pending = undefined
+
+    for (const stream of ['stdout', 'stderr'] as const) {
+      if (step.buffers[stream]) {
+        step.options.onOutput?.(stream, step.buffers[stream])
+      }
+    }
+    if (error || step.options.signal?.aborted) {
+      step.reject(error ?? new Error('The shell session was killed'))
+    } else {
+      // The step exited the shell (e.g. `exit 3`) or was killed after timing out
+      step.resolve({ exitCode: code ?? 1, timedOut: step.timedOut })
+    }
+  }
+}
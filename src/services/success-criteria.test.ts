@@ -0,0 +1,49 @@
+/**
+ * Tests for success criteria
+ */
+
+import { describe, expect, it } from 'vitest'
+import { evaluateCommandResult, getSuccessCriteria } from './success-criteria.js'
+
+describe('Success criteria', () => {
+  it('should succeed only on exit code 0 by default', () => {
+    expect(evaluateCommandResult({ output: '', exitCode: 0 })).toEqual({ status: 'success' })
+    expect(evaluateCommandResult({ output: '', exitCode: 3 })).toEqual({ status: 'failed', reason: 'Exit code 3' })
+  })
+
+  it('should accept and map exit codes', () => {
+    const criteria = { accepted_exit_codes: [0, 1], exit_code_status: { '1': 'warning', '2': 'skipped' } } as const
+
+    expect(evaluateCommandResult({ exitCode: 1 }, criteria)).toEqual({ status: 'warning', reason: 'Exit code 1' })
+    expect(evaluateCommandResult({ exitCode: 2 }, criteria)).toEqual({ status: 'skipped', reason: 'Exit code 2' })
+    expect(evaluateCommandResult({ exitCode: 3 }, criteria)).toEqual({ status: 'failed', reason: 'Exit code 3' })
+    expect(() => evaluateCommandResult({ exitCode: 4 }, { exit_code_status: { '4': 'ok' as any } })).toThrow(
+      'Unknown status "ok" for exit code 4',
+    )
+  })
+
+  it('should let output patterns force failure or success', () => {
+    const criteria = { fail_on_output: ['^ERROR', 'FATAL'], succeed_on_output: 'already up to date' }
+
+    expect(evaluateCommandResult({ output: 'done\nERROR: disk full', exitCode: 0 }, criteria)).toEqual({
+      status: 'failed',
+      reason: 'Output matched /^ERROR/',
+    })
+    expect(evaluateCommandResult({ output: 'Image already up to date', exitCode: 1 }, criteria)).toEqual({
+      status: 'success',
+      reason: 'Output matched /already up to date/',
+    })
+    expect(evaluateCommandResult({ output: 'FATAL, already up to date', exitCode: 0 }, criteria)).toMatchObject({
+      status: 'failed',
+    })
+  })
+
+  it('should let a step override the task criteria key by key', () => {
+    expect(
+      getSuccessCriteria(
+        { command: 'make', accepted_exit_codes: [0, 1], fail_on_output: 'ERROR' },
+        { name: 'lint', accepted_exit_codes: [0], continueOnError: true },
+      ),
+    ).toEqual({ accepted_exit_codes: [0], fail_on_output: 'ERROR' })
+  })
+})
@@ -0,0 +1,89 @@
+/**
+ * Success Criteria
+ *
+ * Decides how a shell command's run counts. By default exit code 0 succeeds
+ * and anything else fails; a task or workflow step can accept other exit
+ * codes, map exit codes to statuses such as `skipped` or `warning`, and let
+ * patterns in the output force failure or success.
+ */
+
+export type CommandStatus = 'success' | 'warning' | 'skipped' | 'failed'
+
+export const COMMAND_STATUSES: CommandStatus[] = ['success', 'warning', 'skipped', 'failed']
+
+export interface SuccessCriteria {
+  /** Exit codes that count as success (default [0]) */
+  accepted_exit_codes?: number[]
+  /** Status for specific exit codes, e.g. { "2": "skipped" }; takes precedence over accepted_exit_codes */
+  exit_code_status?: Record<string, CommandStatus>
+  /** Regexes that fail the command when they match its output, whatever its exit code */
+  fail_on_output?: string | string[]
+  /** Regexes that make the command succeed when they match its output, unless a fail pattern matched */
+  succeed_on_output?: string | string[]
+}
+
+export interface CommandEvaluation {
+  status: CommandStatus
+  /** Why the command didn't succeed, or which pattern decided it */
+  reason?: string
+}
+
+const CRITERIA_KEYS: (keyof SuccessCriteria)[] = [
+  'accepted_exit_codes',
+  'exit_code_status',
+  'fail_on_output',
+  'succeed_on_output',
+]
+
+/**
+ * The success criteria set on a task's configuration, overridden key by key by a workflow step's
+ */
+export function getSuccessCriteria(...sources: (Record<string, unknown> | undefined)[]): SuccessCriteria {
+  const criteria: Record<string, unknown> = {}
+  for (const source of sources) {
+    for (const key of CRITERIA_KEYS) {
+      if (source?.[key] !== undefined) {
+        criteria[key] = source[key]
+      }
+    }
+  }
+  return criteria as SuccessCriteria
+}
+
+function findMatch(patterns: string | string[] | undefined, output: string): string | undefined {
+  const list = typeof patterns === 'string' ? [patterns] : (patterns ?? [])
+  return list.find(pattern => new RegExp(pattern, 'm').test(output))
+}
+
+/**
+ * Status of a finished command under the criteria
+ *
+ * Fail patterns are checked first, then success patterns, then the exit code.
+ */
+export function evaluateCommandResult(
+  result: { output?: string; exitCode: number },
+  criteria: SuccessCriteria = {},
+): CommandEvaluation {
+  const output = result.output ?? ''
+
+  const failure = findMatch(criteria.fail_on_output, output)
+  if (failure) {
+    return { status: 'failed', reason: `Output matched /${failure}/` }
+  }
+  const success = findMatch(criteria.succeed_on_output, output)
+  if (success) {
+    return { status: 'success', reason: `Output matched /${success}/` }
+  }
+
+  const mapped = criteria.exit_code_status?.[String(result.exitCode)]
+  if (mapped) {
+    if (!COMMAND_STATUSES.includes(mapped)) {
+      throw new Error(`Unknown status "${mapped}" for exit code ${result.exitCode}`)
+    }
+    return mapped === 'success' ? { status: mapped } : { status: mapped, reason: `Exit code ${result.exitCode}` }
+  }
+  if ((criteria.accepted_exit_codes ?? [0]).includes(result.exitCode)) {
+    return { status: 'success' }
+  }
+  return { status: 'failed', reason: `Exit code ${result.exitCode}` }
+}
@@ -3,8 +3,11 @@
  */
 
 import { spawn } from 'node:child_process'
+import { EventEmitter } from 'node:events'
+import { existsSync, rmSync } from 'node:fs'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import type { Task } from '../types/agents.js'
+import { ShellSession } from './shell-session.js'
 import { TaskExecutor } from './task-executor.js'
 
 // Mock child_process spawn
@@ -73,6 +76,7 @@ describe('TaskExecutor', () => {
       is: vi.fn(),
       update: vi.fn(),
       single: vi.fn(),
+      rpc: vi.fn(),
     }
 
     // Setup chaining - each method returns mockSupabase for chaining
@@ -92,6 +96,7 @@ describe('TaskExecutor', () => {
 
     // single() returns a promise-like result
     mockSupabase.single.mockResolvedValue({ data: null, error: null })
+    mockSupabase.rpc.mockResolvedValue({ data: null, error: null })
 
     executor = new TaskExecutor(mockSupabase as any, destinationId, organizationId)
   })
@@ -416,6 +421,69 @@ describe('TaskExecutor', () => {
       expect(results).toHaveLength(0)
       expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('Handling 0 tool calls'))
     })
+
+    it('should run configured tools with their parameters, directory and environment', async () => {
+      executor = new TaskExecutor(mockSupabase as any, destinationId, organizationId, [], undefined, {
+        greet: { command: 'echo {{params.name}}', cwd: '/srv/tools', env: { GREETING: 'hi' }, timeout_seconds: 10 },
+      })
+
+      const results = await executor.handleToolCalls([{ name: 'greet', params: { name: 'world' } }])
+
+      expect(results[0]).toMatchObject({ tool: 'greet', command: `echo 'world'`, status: 'success' })
+      expect(spawn).toHaveBeenCalledWith(
+        `echo 'world'`,
+        [],
+        expect.objectContaining({ cwd: '/srv/tools', env: expect.objectContaining({ GREETING: 'hi' }) }),
+      )
+    })
+
+    it('should reject unknown tools before running any', async () => {
+      await expect(executor.handleToolCalls(['date', 'deploy'])).rejects.toThrow(
+        'Unknown tool "deploy". Tools available on this agent: echo, date',
+      )
+      expect(spawn).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('cancellation', () => {
+    const createChild = () =>
+      Object.assign(new EventEmitter(), {
+        pid: 4242,
+        exitCode: null,
+        stdout: new EventEmitter(),
+        stderr: new EventEmitter(),
+        kill: vi.fn(),
+      })
+
+    it('should kill the process group and reject when the signal aborts', async () => {
+      const child = createChild()
+      vi.mocked(spawn).mockReturnValue(child as any)
+      const killSpy = vi.spyOn(process, 'kill').mockImplementation(() => true)
+      const controller = new AbortController()
+
+      const run = (executor as any).executeCommandWithStdio('sleep 60', controller.signal)
+      controller.abort(Object.assign(new Error('Execution timed out after 5s'), { code: 'TIMEOUT' }))
+      child.emit('close', null)
+
+      await expect(run).rejects.toThrow('Execution timed out after 5s')
+      expect(spawn).toHaveBeenCalledWith('sleep 60', [], expect.objectContaining({ detached: true }))
+      expect(killSpy).toHaveBeenCalledWith(-4242, 'SIGTERM')
+      killSpy.mockRestore()
+    })
+
+    it('should not start a command after the signal has aborted', async () => {
+      const controller = new AbortController()
+      controller.abort(new Error('Execution cancelled'))
+
+      await expect((executor as any).executeCommandWithStdio('echo hi', controller.signal)).rejects.toThrow(
+        'Execution cancelled',
+      )
+      expect(spawn).not.toHaveBeenCalled()
+    })
+
+    it('should ignore cancellation of executions that are not running', () => {
+      expect(executor.cancelExecution('unknown-execution')).toBe(false)
+    })
   })
 
   describe('error handling', () => {
@@ -445,6 +513,46 @@ describe('TaskExecutor', () => {
     })
   })
 
+  describe('execution logs', () => {
+    const entry = (message: string) => ({ timestamp: '2025-01-01T00:00:00.000Z', level: 'info', message })
+    const append = (message: string) => (executor as any).appendExecutionLogs(executionId, [entry(message)])
+
+    it('should append logs with the append_execution_logs function', async () => {
+      await append('line 1')
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('append_execution_logs', {
+        execution_id: executionId,
+        entries: [entry('line 1')],
+      })
+      expect(mockSupabase.update).not.toHaveBeenCalled()
+    })
+
+    it('should fall back to select and update when the function is missing', async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: null,
+        error: { code: 'PGRST202', message: 'Could not find the function agents.append_execution_logs' },
+      })
+      mockSupabase.single.mockResolvedValue({ data: { execution_logs: [entry('line 1')] }, error: null })
+
+      await append('line 2')
+      await append('line 3')
+
+      expect(mockSupabase.rpc).toHaveBeenCalledTimes(1)
+      expect(mockSupabase.update).toHaveBeenCalledWith({ execution_logs: [entry('line 1'), entry('line 2')] })
+      expect(mockSupabase.update).toHaveBeenCalledTimes(2)
+      expect(consoleErrorSpy).not.toHaveBeenCalled()
+    })
+
+    it('should report other errors without falling back', async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: null, error: { code: '42501', message: 'permission denied' } })
+
+      await append('line 1')
+
+      expect(mockSupabase.update).not.toHaveBeenCalled()
+      expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('permission denied'))
+    })
+  })
+
   describe('interactive command execution', () => {
     let mockChildProcess: any
 
@@ -979,4 +1087,262 @@ describe('TaskExecutor', () => {
       )
     })
   })
+
+  describe('success criteria', () => {
+    const commandResults: Record<string, { output: string; exitCode: number }> = {
+      lint: { output: 'WARN: 3 issues', exitCode: 1 },
+      migrate: { output: 'nothing to migrate', exitCode: 2 },
+      deploy: { output: 'ERROR: no credentials', exitCode: 0 },
+    }
+
+    beforeEach(() => {
+      vi.spyOn(executor as any, 'executeCommandWithStdio').mockImplementation(async (command: unknown) => ({
+        ...(commandResults[String(command)] ?? { output: '', exitCode: 0 }),
+        outputs: {},
+      }))
+    })
+
+    it('should map exit codes per step and continue past failures when allowed', async () => {
+      const result = await (executor as any).runTaskWorkflow(
+        executionId,
+        {
+          ...mockTask,
+          task_type: 'workflow',
+          configuration: { exit_code_status: { '2': 'skipped' } },
+          workflow: [
+            { name: 'lint', command: 'lint', continueOnError: true },
+            { name: 'migrate', command: 'migrate' },
+            { name: 'build', command: 'build' },
+          ],
+        },
+        {},
+      )
+
+      expect(result).toMatchObject({ status: 'warning', steps_failed: 1 })
+      expect(result.results.map((step: any) => step.status)).toEqual(['failed', 'skipped', 'completed'])
+    })
+
+    it('should fail a workflow step whose output matches a fail pattern', async () => {
+      const run = (executor as any).runTaskWorkflow(
+        executionId,
+        {
+          ...mockTask,
+          task_type: 'workflow',
+          workflow: [{ name: 'deploy', command: 'deploy', fail_on_output: '^ERROR' }, { command: 'notify' }],
+        },
+        {},
+      )
+
+      await expect(run).rejects.toThrow('Step 1 failed: Output matched /^ERROR/')
+    })
+
+    it('should report the status of single tasks', async () => {
+      const result = await (executor as any).runTaskWorkflow(
+        executionId,
+        {
+          ...mockTask,
+          task_type: 'single',
+          tools: [],
+          configuration: { command: 'lint', accepted_exit_codes: [0, 1] },
+        },
+        {},
+      )
+
+      expect(result).toMatchObject({ status: 'success', exitCode: 1 })
+    })
+  })
+
+  describe('shell sessions', () => {
+    it('should run the steps of a workflow in one shell session with their timeouts', async () => {
+      const runInSession = vi
+        .spyOn(executor as any, 'executeCommandInSession')
+        .mockResolvedValue({ output: '', exitCode: 0, outputs: {} })
+      const runAlone = vi.spyOn(executor as any, 'executeCommandWithStdio')
+
+      await (executor as any).runTaskWorkflow(
+        executionId,
+        {
+          ...mockTask,
+          task_type: 'workflow',
+          configuration: { shell_session: true },
+          workflow: [{ command: 'cd app && source .venv/bin/activate' }, { command: 'pytest', timeout_seconds: 600 }],
+        },
+        {},
+      )
+
+      expect(runInSession).toHaveBeenNthCalledWith(
+        1,
+        expect.any(ShellSession),
+        'cd app && source .venv/bin/activate',
+        undefined,
+        undefined,
+      )
+      expect(runInSession).toHaveBeenNthCalledWith(2, runInSession.mock.calls[0]?.[0], 'pytest', undefined, 600000)
+      expect(runAlone).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('report tasks', () => {
+    it('should gather sources, render the report and publish it', async () => {
+      const toolClient = {
+        callTool: vi.fn(async (tool: string) =>
+          tool === 'mcp-project-manager_list_my_issues'
+            ? { content: [{ type: 'text', text: '{"issues":[{"title":"Fix login"}]}' }] }
+            : { content: [{ data: { id: 'article-1' } }] },
+        ),
+      }
+      executor = new TaskExecutor(mockSupabase as any, destinationId, organizationId, [], toolClient as any)
+      vi.spyOn(executor as any, 'executeCommandWithStdio').mockImplementation(async (command: unknown) =>
+        String(command).includes('uptime') ? { output: '12 days', exitCode: 0 } : { output: 'boom', exitCode: 1 },
+      )
+
+      const result = await (executor as any).runTaskWorkflow(
+        executionId,
+        {
+          ...mockTask,
+          task_type: 'report',
+          configuration: {
+            title: 'Status for {{team}}',
+            sources: {
+              issues: { tool: 'mcp-project-manager_list_my_issues', params: { team: '{{team}}' } },
+              uptime: { command: 'uptime -p' },
+              disk: { command: 'df -h' },
+            },
+            template: '{{#each issues.issues}}- {{item.title}}\n{{/each}}Up {{uptime}}',
+            publish: { tags: ['status'] },
+          },
+        },
+        { team: 'core' },
+      )
+
+      expect(toolClient.callTool).toHaveBeenCalledWith(
+        'mcp-project-manager_list_my_issues',
+        { team: 'core' },
+        { signal: undefined },
+      )
+      expect(toolClient.callTool).toHaveBeenCalledWith(
+        'mcp-articles_create_article',
+        { title: 'Status for core', content: '- Fix login\nUp 12 days', tags: ['status'] },
+        { signal: undefined },
+      )
+      expect(result).toEqual(
+        expect.objectContaining({
+          status: 'partial',
+          format: 'markdown',
+          report: '- Fix login\nUp 12 days',
+          sources: [
+            { name: 'issues', status: 'success' },
+            { name: 'uptime', status: 'success' },
+            { name: 'disk', status: 'failed', error: 'Command exited with code 1' },
+          ],
+          article: { id: 'article-1' },
+        }),
+      )
+    })
+
+    it('should fill in source commands and leave Go templates alone', async () => {
+      const commandSpy = vi
+        .spyOn(executor as any, 'executeCommandWithStdio')
+        .mockResolvedValue({ output: 'web-1\nweb-2', exitCode: 0 })
+
+      const result = await (executor as any).runTaskWorkflow(
+        executionId,
+        {
+          ...mockTask,
+          task_type: 'report',
+          configuration: {
+            sources: { containers: { command: "docker ps --filter label={{team}} --format '{{.Names}}'" } },
+            format: 'json',
+          },
+        },
+        { team: 'core' },
+      )
+
+      expect(commandSpy).toHaveBeenCalledWith("docker ps --filter label='core' --format '{{.Names}}'", undefined)
+      expect(result).toEqual(
+        expect.objectContaining({ status: 'success', sources: [{ name: 'containers', status: 'success' }] }),
+      )
+    })
+  })
+
+  describe('monitoring tasks', () => {
+    const statePath = '/tmp/test-home/.veas/monitoring/task-1.json'
+    const monitoringTask = {
+      ...mockTask,
+      task_type: 'monitoring' as const,
+      configuration: { checks: [{ name: 'api', type: 'http', url: 'http://localhost:8080/health' }] },
+    }
+
+    beforeEach(() => {
+      rmSync(statePath, { force: true })
+    })
+
+    afterEach(() => {
+      rmSync(statePath, { force: true })
+    })
+
+    it('should alert the schedule webhook only when a check changes status', async () => {
+      const fetchSpy = vi
+        .spyOn(globalThis, 'fetch')
+        .mockResolvedValue({ ok: true, status: 200 } as Response)
+        .mockResolvedValueOnce({ ok: false, status: 503 } as Response)
+      mockSupabase.single
+        .mockResolvedValueOnce({ data: { schedule_id: 'schedule-1' }, error: null })
+        .mockResolvedValueOnce({
+          data: { alert_on_failure: true, alert_webhook_url: 'https://hooks.example.com/ops' },
+          error: null,
+        })
+      const run = () => (executor as any).runTaskWorkflow(executionId, monitoringTask, {})
+
+      await expect(run()).resolves.toEqual(
+        expect.objectContaining({
+          status: 'failed',
+          overall: 'critical',
+          changes: [expect.objectContaining({ check: 'api', previous: 'ok', current: 'critical' })],
+          alerts_sent: ['https://hooks.example.com/ops'],
+        }),
+      )
+      expect(fetchSpy).toHaveBeenLastCalledWith(
+        'https://hooks.example.com/ops',
+        expect.objectContaining({ method: 'POST', body: expect.stringContaining('"current":"critical"') }),
+      )
+
+      // Still critical on the next run: no change, no alert
+      fetchSpy.mockResolvedValueOnce({ ok: false, status: 503 } as Response)
+      await expect(run()).resolves.toEqual(expect.objectContaining({ changes: [], alerts_sent: [] }))
+      expect(fetchSpy).toHaveBeenCalledTimes(3)
+    })
+
+    it('should alert the same change again after a failed delivery', async () => {
+      const fetchSpy = vi
+        .spyOn(globalThis, 'fetch')
+        .mockResolvedValueOnce({ ok: false, status: 503 } as Response)
+        .mockResolvedValueOnce({ ok: false, status: 500 } as Response)
+        .mockResolvedValueOnce({ ok: false, status: 503 } as Response)
+        .mockResolvedValueOnce({ ok: true, status: 200 } as Response)
+      const alertSchedule = () =>
+        mockSupabase.single
+          .mockResolvedValueOnce({ data: { schedule_id: 'schedule-1' }, error: null })
+          .mockResolvedValueOnce({
+            data: { alert_on_failure: true, alert_webhook_url: 'https://hooks.example.com/ops' },
+            error: null,
+          })
+      const run = () => (executor as any).runTaskWorkflow(executionId, monitoringTask, {})
+
+      alertSchedule()
+      await expect(run()).resolves.toEqual(
+        expect.objectContaining({ alerts_sent: [], alerts_failed: ['https://hooks.example.com/ops'] }),
+      )
+      expect(existsSync(statePath)).toBe(false)
+
+      alertSchedule()
+      await expect(run()).resolves.toEqual(
+        expect.objectContaining({
+          changes: [expect.objectContaining({ check: 'api', previous: 'ok', current: 'critical' })],
+          alerts_sent: ['https://hooks.example.com/ops'],
+        }),
+      )
+      expect(fetchSpy).toHaveBeenCalledTimes(4)
+    })
+  })
 })
@@ -4,11 +4,61 @@
  * Handles execution of agent tasks
  */
 
-import { spawn } from 'node:child_process'
+import { type ChildProcess, spawn } from 'node:child_process'
+import { randomUUID } from 'node:crypto'
+import { mkdirSync } from 'node:fs'
+import { readFile, rm } from 'node:fs/promises'
+import { homedir } from 'node:os'
+import { join } from 'node:path'
 import type { SupabaseClient } from '@supabase/supabase-js'
 import chalk from 'chalk'
-import type { Execution, ExecutionStatus, Task } from '../types/agents.js'
+import { resolveTemplates } from '../agent/expression.js'
+import type { ToolClient } from '../agent/task-executor.js'
+import type { Execution, ExecutionStatus, Task, TaskHandlerCapabilities } from '../types/agents.js'
+import { SchemaValidationError, validateSchema } from '../utils/json-schema.js'
+import {
+  type ArtifactsConfig,
+  type ArtifactsSummary,
+  collectArtifacts,
+  createArtifactStore,
+  getArtifactsConfig,
+} from './artifacts.js'
+import { loadBatchItems, renderItemTemplate, runBatch } from './batch-runner.js'
+import { OutputCollector, renderStepTemplate } from './command-outputs.js'
+import { CapturedOutput, ExecutionLogStream, type OutputLogEntry } from './execution-log-stream.js'
+import {
+  type CheckResult,
+  type CheckStateChange,
+  type CheckStatus,
+  diffCheckStates,
+  loadMonitorState,
+  type MonitoringAlert,
+  type MonitoringCheck,
+  runCheck,
+  saveMonitorState,
+  sendAlertEmail,
+  sendAlertWebhook,
+  worstStatus,
+} from './monitoring-checks.js'
+import { REPORT_FORMATS, type ReportFormat, renderReport } from './report-renderer.js'
+import { ShellSession } from './shell-session.js'
+import { type CommandStatus, evaluateCommandResult, getSuccessCriteria } from './success-criteria.js'
+import {
+  BUILT_IN_TASK_TYPES,
+  type TaskHandler,
+  type TaskHandlerContext,
+  TaskHandlerRegistry,
+  validateConfigSchema,
+} from './task-handlers.js'
 import { TerminalSpawner } from './terminal-spawner.js'
+import {
+  loadToolCommands,
+  type ResolvedToolCommand,
+  resolveToolCommand,
+  type ToolCall,
+  type ToolCommands,
+} from './tool-commands.js'
+import { createWorkspace, finishWorkspace, getWorkspaceConfig, type Workspace } from './workspace.js'
 
 /**
  * Auto-response configuration for interactive commands
@@ -26,19 +76,111 @@ interface AutoResponse {
   closeAfter?: boolean
 }
 
+/**
+ * Where a report task gets one piece of its data
+ */
+interface ReportSource {
+  /** Shell command, with {{ }} paths into the input params and earlier sources; JSON output is parsed */
+  command?: string
+  /** MCP tool to call instead of a command */
+  tool?: string
+  /** Tool params, with {{ }} templates over the input params and earlier sources */
+  params?: Record<string, unknown>
+}
+
+interface ExecutionRunContext {
+  executionId: string
+  logs: ExecutionLogStream
+  workspace?: Workspace
+}
+
+/** Time a process group gets to exit after SIGTERM before it is killed with SIGKILL */
+const KILL_GRACE_PERIOD_MS = 5000
+
+/** Errors PostgREST and Postgres return for a function that doesn't exist */
+const MISSING_FUNCTION_CODES = new Set(['PGRST202', '42883'])
+
+/**
+ * Error used as the abort reason when an execution times out or is cancelled
+ */
+function abortError(code: 'TIMEOUT' | 'CANCELLED', message: string): Error {
+  return Object.assign(new Error(message), { code })
+}
+
+/**
+ * Terminate a spawned command together with everything it started
+ *
+ * Commands are spawned detached, so the shell leads its own process group and
+ * signalling the negative pid reaches its children too.
+ */
+function killProcessGroup(child: ChildProcess): void {
+  if (child.pid === undefined || child.exitCode !== null) return
+  const pid = child.pid
+
+  const kill = (signal: NodeJS.Signals) => {
+    try {
+      if (process.platform === 'win32') {
+        child.kill(signal)
+      } else {
+        process.kill(-pid, signal)
+      }
+    } catch {
+      // Not a group leader (attached interactive session) or already gone
+      child.kill(signal)
+    }
+  }
+
+  kill('SIGTERM')
+  const forceKill = setTimeout(() => kill('SIGKILL'), KILL_GRACE_PERIOD_MS)
+  forceKill.unref()
+  child.once('close', () => clearTimeout(forceKill))
+}
+
 export class TaskExecutor {
   private supabase: SupabaseClient
   private destinationId: string
   private terminalSpawner: TerminalSpawner
+  private runningExecutions: Map<string, AbortController> = new Map()
+  private handlers: TaskHandlerRegistry
+  /** Handler running each execution, so cancellations reach it */
+  private runningHandlers: Map<string, TaskHandler> = new Map()
+  private toolClient?: ToolClient
+  private toolCommands?: ToolCommands
+  /** Log stream and workspace of each running execution, keyed by the abort signal its commands receive */
+  private runContexts: WeakMap<AbortSignal, ExecutionRunContext> = new WeakMap()
+  /** Cleared when the backend has no append_execution_logs function, so logs are appended by select and update */
+  private appendLogsRpc = true
   // private organizationId: string // May be used for organization-specific logic in future
 
-  constructor(supabase: SupabaseClient, destinationId: string, _organizationId: string) {
+  /**
+   * @param handlers Extra task handlers, replacing the built-in handler of their type
+   * @param toolClient Client for MCP tool calls, defaulting to the shared MCP client
+   * @param toolCommands Commands behind the tools tasks list, defaulting to those in veas.yaml
+   */
+  constructor(
+    supabase: SupabaseClient,
+    destinationId: string,
+    _organizationId: string,
+    handlers: TaskHandler[] = [],
+    toolClient?: ToolClient,
+    toolCommands?: ToolCommands,
+  ) {
     this.supabase = supabase
     this.destinationId = destinationId
+    this.toolClient = toolClient
+    this.toolCommands = toolCommands
     this.terminalSpawner = new TerminalSpawner()
+    this.handlers = new TaskHandlerRegistry([...this.createBuiltInHandlers(), ...handlers])
     // this.organizationId = organizationId // Store for future use
   }
 
+  /**
+   * Task types this executor can run, with their capabilities
+   */
+  getTaskTypes(): Record<string, TaskHandlerCapabilities> {
+    return this.handlers.describe()
+  }
+
   /**
    * Execute a task
    */
@@ -49,6 +191,13 @@ export class TaskExecutor {
     console.log(chalk.blue(`   Time: ${new Date().toLocaleTimeString()}`))
     console.log(chalk.blue(`${'='.repeat(60)}\n`))
 
+    const controller = new AbortController()
+    let timeoutTimer: ReturnType<typeof setTimeout> | undefined
+    let workspace: Workspace | undefined
+    let artifacts: ArtifactsConfig | undefined
+    // Whether the workspace's execution finished successfully, or is still running in a terminal
+    let outcome: 'succeeded' | 'failed' | 'detached' = 'failed'
+
     try {
       // Fetch execution details
       const { data: execution, error: execError } = await this.supabase
@@ -63,6 +212,11 @@ export class TaskExecutor {
         return
       }
 
+      if (execution.status === 'cancelled') {
+        console.log(chalk.yellow('  Execution was cancelled before it started'))
+        return
+      }
+
       const task = execution.tasks as unknown as Task
       if (!task) {
         console.error(chalk.red('Task not found for execution'))
@@ -74,6 +228,15 @@ export class TaskExecutor {
 
       // Claim the execution
       await this.claimExecution(executionId)
+      this.runningExecutions.set(executionId, controller)
+
+      // Enforce the task timeout by aborting the execution
+      const timeoutSeconds = Number(task.timeout_seconds || task.configuration?.timeout || 0)
+      if (timeoutSeconds > 0) {
+        timeoutTimer = setTimeout(() => {
+          controller.abort(abortError('TIMEOUT', `Execution timed out after ${timeoutSeconds}s`))
+        }, timeoutSeconds * 1000)
+      }
 
       // Update status to running
       await this.updateExecutionStatus(executionId, 'running', {
@@ -97,14 +260,35 @@ export class TaskExecutor {
         )
       }
 
-      // Execute based on task type
-      const result = await this.runTaskWorkflow(task, execution.input_params || {})
+      // Apply defaults and coercions from the input schema, failing fast on invalid input
+      const inputParams = this.validateAgainstSchema('Input', task.input_schema, execution.input_params || {})
+
+      // Give the execution its own directory if the task asks for one
+      const workspaceConfig = getWorkspaceConfig(task.configuration)
+      if (workspaceConfig) {
+        workspace = await createWorkspace(executionId, task.id, workspaceConfig)
+        console.log(chalk.gray(`  Workspace: ${workspace.path}`))
+      }
+
+      artifacts = getArtifactsConfig(task.configuration)
+
+      // Execute based on task type, streaming command output to the execution's logs
+      const logs = new ExecutionLogStream({ send: entries => this.appendExecutionLogs(executionId, entries) })
+      this.runContexts.set(controller.signal, { executionId, logs, workspace })
+      let output: Record<string, unknown>
+      try {
+        output = await this.runTaskWorkflow(executionId, task, inputParams, controller.signal)
+      } finally {
+        await logs.close()
+      }
+      const result = this.validateAgainstSchema('Output', task.output_schema, output)
 
       // Check if task was spawned in a terminal
       const wasSpawnedInTerminal = result.spawnedInTerminal === true
 
       if (wasSpawnedInTerminal) {
         // For spawned terminals, mark as "running" since the process continues in another window
+        outcome = 'detached'
         await this.updateExecutionStatus(executionId, 'running', {
           output_result: result,
           duration_ms: Date.now() - new Date(execution.started_at || execution.queued_at).getTime(),
@@ -114,26 +298,164 @@ export class TaskExecutor {
         console.log(chalk.cyan(`   The task is running interactively in a separate terminal window`))
         console.log(chalk.cyan(`${'='.repeat(60)}\n`))
       } else {
-        // Update execution as completed for non-spawned tasks
-        await this.updateExecutionStatus(executionId, 'completed', {
+        // Tasks whose result failed or was skipped (see success criteria) finish with that status
+        const status: ExecutionStatus =
+          result.status === 'failed' ? 'failed' : result.status === 'skipped' ? 'skipped' : 'completed'
+        outcome = status === 'failed' ? 'failed' : 'succeeded'
+        if (artifacts) {
+          result.artifacts = await this.collectArtifacts(executionId, artifacts, workspace)
+        }
+        await this.updateExecutionStatus(executionId, status, {
           completed_at: new Date().toISOString(),
           output_result: result,
           duration_ms: Date.now() - new Date(execution.started_at || execution.queued_at).getTime(),
+          ...(status === 'failed' ? { error_message: String(result.status_reason || 'Task result is failed') } : {}),
         })
 
-        console.log(chalk.green(`\n✅ TASK EXECUTION COMPLETED SUCCESSFULLY`))
-        console.log(chalk.green(`${'='.repeat(60)}\n`))
+        if (status === 'failed') {
+          console.log(chalk.red(`\n❌ TASK FAILED: ${result.status_reason || 'task result is failed'}`))
+          console.log(chalk.red(`${'='.repeat(60)}\n`))
+        } else if (status === 'skipped') {
+          console.log(chalk.gray(`\n⏭️  TASK SKIPPED: ${result.status_reason || 'task result is skipped'}`))
+          console.log(chalk.gray(`${'='.repeat(60)}\n`))
+        } else {
+          console.log(chalk.green(`\n✅ TASK EXECUTION COMPLETED SUCCESSFULLY`))
+          console.log(chalk.green(`${'='.repeat(60)}\n`))
+        }
       }
     } catch (error) {
+      if (controller.signal.aborted) {
+        const reason = controller.signal.reason as Error
+        const timedOut = (reason as any)?.code === 'TIMEOUT'
+
+        console.log(chalk.yellow(`\n⏹️  TASK ${timedOut ? 'TIMED OUT' : 'CANCELLED'}: ${reason.message}`))
+        await this.updateExecutionStatus(executionId, timedOut ? 'timeout' : 'cancelled', {
+          error_message: reason.message,
+          completed_at: new Date().toISOString(),
+        })
+        return
+      }
+
       console.error(chalk.red('Task execution failed:'), error)
+      // Files left by a failed run, such as logs, help explain the failure
+      const failedArtifacts = artifacts && (await this.collectArtifacts(executionId, artifacts, workspace))
       await this.updateExecutionStatus(executionId, 'failed', {
+        ...(failedArtifacts ? { output_result: { artifacts: failedArtifacts } } : {}),
         error_message: error instanceof Error ? error.message : 'Unknown error',
-        error_details: { error: String(error) },
+        error_details: {
+          error: String(error),
+          ...(error instanceof SchemaValidationError
+            ? { path: error.errors[0]?.path, validation_errors: error.errors }
+            : {}),
+        },
         completed_at: new Date().toISOString(),
       })
+    } finally {
+      clearTimeout(timeoutTimer)
+      this.runningExecutions.delete(executionId)
+      if (workspace && outcome !== 'detached') {
+        await this.finishWorkspace(workspace, outcome === 'succeeded')
+      }
+    }
+  }
+
+  /**
+   * Store the files an execution produced, recording failures instead of failing the execution
+   */
+  private async collectArtifacts(
+    executionId: string,
+    config: ArtifactsConfig,
+    workspace?: Workspace,
+  ): Promise<ArtifactsSummary> {
+    const store = createArtifactStore(config, this.supabase, executionId)
+    try {
+      const summary = await collectArtifacts(workspace?.path ?? process.cwd(), config, store)
+      console.log(chalk.gray(`  Artifacts: ${summary.files.length} stored, ${summary.skipped.length} skipped`))
+      for (const skipped of summary.skipped) {
+        console.log(chalk.yellow(`  ⚠️  Skipped artifact ${skipped.path}: ${skipped.reason}`))
+      }
+      return summary
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      console.error(chalk.red(`  Failed to collect artifacts: ${message}`))
+      return {
+        destination: store.destination,
+        bucket: store.bucket,
+        files: [],
+        skipped: [],
+        total_size: 0,
+        error: message,
+      }
     }
   }
 
+  /**
+   * Delete or keep an execution's workspace according to its cleanup policy
+   */
+  private async finishWorkspace(workspace: Workspace, succeeded: boolean): Promise<void> {
+    try {
+      if (!(await finishWorkspace(workspace, succeeded))) {
+        console.log(chalk.gray(`  Workspace kept at ${workspace.path}`))
+      }
+    } catch (error) {
+      console.error(chalk.red(`  Failed to clean up workspace ${workspace.path}:`), error)
+    }
+  }
+
+  /**
+   * Working directory and environment for an execution's commands: its workspace, if it has one
+   */
+  private commandLocation(signal?: AbortSignal): { cwd?: string; env?: NodeJS.ProcessEnv } {
+    const workspace = signal && this.runContexts.get(signal)?.workspace
+    return workspace ? { cwd: workspace.path, env: { ...process.env, VEAS_WORKSPACE: workspace.path } } : {}
+  }
+
+  /**
+   * Cancel a running execution, killing its command's process group
+   *
+   * Returns false if the execution isn't running on this executor.
+   */
+  cancelExecution(executionId: string): boolean {
+    const controller = this.runningExecutions.get(executionId)
+    if (!controller) {
+      return false
+    }
+
+    console.log(chalk.yellow(`\n⏹️  Cancelling execution ${executionId}...`))
+    controller.abort(abortError('CANCELLED', 'Execution cancelled'))
+
+    const handler = this.runningHandlers.get(executionId)
+    Promise.resolve(handler?.cancel?.(executionId)).catch(error => {
+      console.error(chalk.red(`  Failed to cancel ${handler?.type} task:`), error)
+    })
+    return true
+  }
+
+  /**
+   * Validate input params or the result against one of the task's schemas
+   *
+   * Returns the value with schema defaults applied and types coerced.
+   */
+  private validateAgainstSchema<T>(
+    label: 'Input' | 'Output',
+    schema: Record<string, unknown> | undefined,
+    value: T,
+  ): T {
+    if (!schema) {
+      return value
+    }
+
+    const result = validateSchema(schema, value, { applyDefaults: true, coerceTypes: true })
+    if (!result.valid) {
+      console.error(chalk.red(`  ${label} does not match the task's ${label.toLowerCase()} schema:`))
+      for (const error of result.errors) {
+        console.error(chalk.red(`    ${error.path || '(root)'}: ${error.message}`))
+      }
+      throw new SchemaValidationError(label, result.errors)
+    }
+    return result.value as T
+  }
+
   /**
    * Claim an execution for this destination
    */
@@ -154,37 +476,84 @@ export class TaskExecutor {
   }
 
   /**
-   * Run the task workflow
+   * Run the task with the handler registered for its type
+   *
+   * Types without a handler run as custom tasks.
    */
-  private async runTaskWorkflow(task: Task, inputParams: Record<string, unknown>): Promise<Record<string, unknown>> {
+  private async runTaskWorkflow(
+    executionId: string,
+    task: Task,
+    inputParams: Record<string, unknown>,
+    signal?: AbortSignal,
+  ): Promise<Record<string, unknown>> {
     console.log(chalk.gray('  Running task workflow...'))
 
-    // Simulate task execution based on type
-    switch (task.task_type) {
-      case 'single':
-        return this.executeSingleTask(task, inputParams)
-
-      case 'workflow':
-        return this.executeWorkflow(task, inputParams)
+    let handler = this.handlers.get(task.task_type)
+    if (!handler) {
+      console.log(chalk.gray(`  No handler for task type ${task.task_type}, running it as a custom task`))
+      handler = this.handlers.get('custom') as TaskHandler
+    }
 
-      case 'batch':
-        return this.executeBatchTask(task, inputParams)
+    // Validation may convert configuration values, so it works on this execution's own copy of the task
+    const handlerTask: Task = { ...task }
+    const problems = handler.validateConfig?.(handlerTask) ?? []
+    if (problems.length > 0) {
+      throw new Error(`Invalid configuration for ${handler.type} task: ${problems.join('; ')}`)
+    }
 
-      case 'report':
-        return this.executeReportTask(task, inputParams)
+    const context: TaskHandlerContext = {
+      executionId,
+      task: handlerTask,
+      inputParams,
+      signal,
+      runCommand: (command, commandSignal = signal) => this.executeCommandWithStdio(command, commandSignal),
+    }
 
-      case 'monitoring':
-        return this.executeMonitoringTask(task, inputParams)
+    this.runningHandlers.set(executionId, handler)
+    try {
+      return await handler.execute(context)
+    } finally {
+      this.runningHandlers.delete(executionId)
+    }
+  }
 
-      default:
-        return this.executeCustomTask(task, inputParams)
+  /**
+   * Handlers for the built-in task types, backed by the executor's own task runners
+   */
+  private createBuiltInHandlers(): TaskHandler[] {
+    const runners: Record<
+      keyof typeof BUILT_IN_TASK_TYPES,
+      (context: TaskHandlerContext) => Promise<Record<string, unknown>>
+    > = {
+      single: ({ task, inputParams, signal }) => this.executeSingleTask(task, inputParams, signal),
+      workflow: ({ task, inputParams, signal }) => this.executeWorkflow(task, inputParams, signal),
+      batch: ({ task, inputParams, signal }) => this.executeBatchTask(task, inputParams, signal),
+      report: ({ task, inputParams, signal }) => this.executeReportTask(task, inputParams, signal),
+      monitoring: ({ executionId, task, inputParams, signal }) =>
+        this.executeMonitoringTask(executionId, task, inputParams, signal),
+      integration: ({ task, inputParams, signal }) => this.executeCustomTask(task, inputParams, signal),
+      custom: ({ task, inputParams, signal }) => this.executeCustomTask(task, inputParams, signal),
     }
+
+    return Object.entries(runners).map(([type, execute]) => {
+      const capabilities = BUILT_IN_TASK_TYPES[type as keyof typeof BUILT_IN_TASK_TYPES]
+      return {
+        type: type as keyof typeof BUILT_IN_TASK_TYPES,
+        validateConfig: (task: Task) => validateConfigSchema(capabilities, task),
+        execute,
+        describe: () => capabilities,
+      }
+    })
   }
 
   /**
    * Execute a single task
    */
-  private async executeSingleTask(task: Task, inputParams: Record<string, unknown>): Promise<Record<string, unknown>> {
+  private async executeSingleTask(
+    task: Task,
+    inputParams: Record<string, unknown>,
+    signal?: AbortSignal,
+  ): Promise<Record<string, unknown>> {
     console.log(chalk.gray('  Executing single task...'))
 
     // Get command from input params first, then task configuration, then default
@@ -202,8 +571,12 @@ export class TaskExecutor {
       (isInteractive && (inputParams.separateTerminal === true || task.configuration?.separateTerminal === true))
 
     try {
+      // Unknown tools fail the task before its command runs
+      const tools = await this.resolveToolCalls(task.tools ?? [])
+
       let output: string | undefined
       let exitCode: number
+      let outputs: Record<string, unknown> | undefined
 
       if (openInNewTerminal) {
         console.log(chalk.cyan('  🖥️  Opening in new terminal window...'))
@@ -219,7 +592,7 @@ export class TaskExecutor {
           console.log(chalk.cyan('  📊 Opening companion monitor terminal...'))
           const { mainPid, companionPid } = await this.terminalSpawner.spawnWithCompanion({
             command: String(command),
-            cwd: process.cwd(),
+            cwd: this.commandLocation(signal).cwd ?? process.cwd(),
             title: task.name,
             keepOpen: inputParams.keepTerminalOpen !== false,
             terminalApp: String(inputParams.terminalApp || task.configuration?.terminalApp || ''),
@@ -232,7 +605,7 @@ export class TaskExecutor {
           // Open single terminal
           const result = await this.terminalSpawner.spawnInNewTerminal({
             command: String(command),
-            cwd: process.cwd(),
+            cwd: this.commandLocation(signal).cwd ?? process.cwd(),
             title: task.name,
             keepOpen: inputParams.keepTerminalOpen !== false,
             terminalApp: String(inputParams.terminalApp || task.configuration?.terminalApp || ''),
@@ -249,30 +622,37 @@ export class TaskExecutor {
         const autoResponses = this.extractAutoResponses(task, inputParams)
 
         // Execute in interactive mode with optional auto-responses
-        const result = await this.executeInteractiveCommand(String(command), autoResponses)
+        const result = await this.executeInteractiveCommand(String(command), autoResponses, signal)
         exitCode = result.exitCode
         output = result.output // May have output if auto-response mode was used
       } else {
         // Execute command with real-time stdio streaming
-        const result = await this.executeCommandWithStdio(String(command))
+        const result = await this.executeCommandWithStdio(String(command), signal)
         output = result.output
         exitCode = result.exitCode
+        outputs = result.outputs
       }
 
       // Handle tool execution if specified
-      if (task.tools && task.tools.length > 0) {
-        console.log(chalk.gray(`\n  Using additional tools: ${task.tools.join(', ')}`))
-        await this.executeToolCommands(task.tools)
+      if (tools.length > 0) {
+        console.log(chalk.gray(`\n  Using additional tools: ${tools.map(({ tool }) => tool).join(', ')}`))
+        await this.executeToolCommands(tools, signal)
       }
 
+      const evaluation = openInNewTerminal
+        ? evaluateCommandResult({ exitCode })
+        : evaluateCommandResult({ output, exitCode }, getSuccessCriteria(task.configuration))
+
       return {
-        status: exitCode === 0 ? 'success' : 'failed',
+        status: evaluation.status,
+        status_reason: evaluation.reason,
         message: openInNewTerminal
           ? `Single task "${task.name}" spawned in ${inputParams.terminalApp || task.configuration?.terminalApp || 'terminal'}`
           : `Single task "${task.name}" completed`,
         command,
         output: output || 'Interactive session - output not captured',
         exitCode,
+        outputs,
         interactive: isInteractive,
         spawnedInTerminal: openInNewTerminal,
         terminalApp: openInNewTerminal
@@ -290,7 +670,11 @@ export class TaskExecutor {
   /**
    * Execute a workflow
    */
-  private async executeWorkflow(task: Task, inputParams: Record<string, unknown>): Promise<Record<string, unknown>> {
+  private async executeWorkflow(
+    task: Task,
+    inputParams: Record<string, unknown>,
+    signal?: AbortSignal,
+  ): Promise<Record<string, unknown>> {
     console.log(chalk.gray('  Executing workflow...'))
 
     // Check if workflow is provided in input params, otherwise use task's workflow
@@ -315,7 +699,7 @@ export class TaskExecutor {
         if (isInteractive) {
           console.log(chalk.yellow('  🎮 Command requires interactive execution'))
           const autoResponses = this.extractAutoResponses(task, inputParams)
-          const result = await this.executeInteractiveCommand(command, autoResponses)
+          const result = await this.executeInteractiveCommand(command, autoResponses, signal)
           return {
             status: result.exitCode === 0 ? 'success' : 'failed',
             message: `Workflow "${task.name}" completed`,
@@ -326,20 +710,23 @@ export class TaskExecutor {
             timestamp: new Date().toISOString(),
           }
         } else {
-          const { output, exitCode } = await this.executeCommandWithStdio(command)
+          const { output, exitCode, outputs } = await this.executeCommandWithStdio(command, signal)
+          const evaluation = evaluateCommandResult({ output, exitCode }, getSuccessCriteria(task.configuration))
           return {
-            status: exitCode === 0 ? 'success' : 'failed',
+            status: evaluation.status,
+            status_reason: evaluation.reason,
             message: `Workflow "${task.name}" completed`,
             command,
             output,
             exitCode,
+            outputs,
             timestamp: new Date().toISOString(),
           }
         }
       }
 
       console.log(chalk.cyan('  No workflow steps defined, running default command'))
-      const { output, exitCode } = await this.executeCommandWithStdio('echo "Hello World!"')
+      const { output, exitCode } = await this.executeCommandWithStdio('echo "Hello World!"', signal)
       return {
         status: exitCode === 0 ? 'success' : 'failed',
         message: `Workflow "${task.name}" completed`,
@@ -349,179 +736,461 @@ export class TaskExecutor {
       }
     }
 
-    for (let i = 0; i < steps.length; i++) {
-      const step = steps[i]
-      console.log(chalk.blue(`\n  📌 Step ${i + 1}/${steps.length}: ${step.name || 'Unnamed step'}`))
-
-      // Get command from step (check both 'command' and 'params.command' properties)
-      const command =
-        step.command || step.params?.command || inputParams[`step${i + 1}_command`] || 'echo "Hello World!"'
-      const isInteractive =
-        step.interactive ||
-        step.params?.interactive ||
-        step.execution_mode === 'interactive' ||
-        this.isInteractiveCommand(String(command))
+    // Outputs of the steps so far, by step id, name and `step<N>`, and merged in step order
+    const stepScope: Record<string, unknown> = {}
+    const outputs: Record<string, unknown> = {}
+    const statuses: CommandStatus[] = []
+
+    // With configuration.shell_session, non-interactive steps share one shell
+    const sessionConfig = task.configuration?.shell_session
+    const session = sessionConfig
+      ? new ShellSession({
+          shell: typeof sessionConfig === 'object' ? (sessionConfig as { shell?: string }).shell : undefined,
+          ...this.commandLocation(signal),
+        })
+      : undefined
+    if (session) {
+      console.log(chalk.gray('  Running steps in a shared shell session'))
+    }
 
-      try {
-        let output: string | undefined
-        let exitCode: number
+    try {
+      for (let i = 0; i < steps.length; i++) {
+        const step = steps[i]
+        console.log(chalk.blue(`\n  📌 Step ${i + 1}/${steps.length}: ${step.name || 'Unnamed step'}`))
+
+        // Get command from step (check both 'command' and 'params.command' properties)
+        const command = renderStepTemplate(
+          String(step.command || step.params?.command || inputParams[`step${i + 1}_command`] || 'echo "Hello World!"'),
+          { steps: stepScope, outputs, inputs: inputParams },
+        )
+        const isInteractive =
+          step.interactive ||
+          step.params?.interactive ||
+          step.execution_mode === 'interactive' ||
+          this.isInteractiveCommand(String(command))
+
+        try {
+          let output: string | undefined
+          let exitCode: number
+          let stepOutputs: Record<string, unknown> = {}
+
+          if (isInteractive) {
+            console.log(chalk.yellow('    🎮 Step requires interactive execution'))
+            const result = await this.executeInteractiveCommand(String(command), undefined, signal)
+            exitCode = result.exitCode
+            output = undefined
+          } else {
+            const timeoutMs = step.timeout_seconds ? Number(step.timeout_seconds) * 1000 : undefined
+            const result = session
+              ? await this.executeCommandInSession(session, String(command), signal, timeoutMs)
+              : await this.executeCommandWithStdio(String(command), signal, timeoutMs)
+            output = result.output
+            exitCode = result.exitCode
+            stepOutputs = result.outputs
+          }
 
-        if (isInteractive) {
-          console.log(chalk.yellow('    🎮 Step requires interactive execution'))
-          const result = await this.executeInteractiveCommand(String(command))
-          exitCode = result.exitCode
-          output = undefined
-        } else {
-          const result = await this.executeCommandWithStdio(String(command))
-          output = result.output
-          exitCode = result.exitCode
-        }
+          // The step's own criteria override the task's
+          const evaluation = evaluateCommandResult({ output, exitCode }, getSuccessCriteria(task.configuration, step))
+          statuses.push(evaluation.status)
+          results.push({
+            step: i + 1,
+            name: step.name,
+            command,
+            output: output || 'Interactive session - output not captured',
+            exitCode,
+            outputs: stepOutputs,
+            interactive: isInteractive,
+            status: evaluation.status === 'success' ? 'completed' : evaluation.status,
+            status_reason: evaluation.reason,
+          })
 
-        results.push({
-          step: i + 1,
-          name: step.name,
-          command,
-          output: output || 'Interactive session - output not captured',
-          exitCode,
-          interactive: isInteractive,
-          status: exitCode === 0 ? 'completed' : 'failed',
-        })
+          const stepResult = { outputs: stepOutputs, exitCode, status: evaluation.status }
+          for (const key of new Set([`step${i + 1}`, step.name, step.id].filter(Boolean))) {
+            stepScope[key] = stepResult
+          }
+          Object.assign(outputs, stepOutputs)
 
-        if (exitCode !== 0) {
-          console.error(chalk.red(`  Step ${i + 1} failed with exit code ${exitCode}`))
-          throw new Error(`Step ${i + 1} failed`)
+          if (evaluation.status === 'failed') {
+            if (step.continueOnError) {
+              console.log(chalk.yellow(`  Step ${i + 1} failed (${evaluation.reason}), continuing`))
+              continue
+            }
+            console.error(chalk.red(`  Step ${i + 1} failed: ${evaluation.reason}`))
+            throw new Error(`Step ${i + 1} failed: ${evaluation.reason}`)
+          }
+          if (evaluation.status !== 'success') {
+            console.log(chalk.yellow(`  Step ${i + 1} ${evaluation.status}: ${evaluation.reason}`))
+          }
+        } catch (error) {
+          console.error(chalk.red(`  Step ${i + 1} error:`), error)
+          results.push({
+            step: i + 1,
+            name: step.name,
+            command,
+            error: String(error),
+            status: 'failed',
+          })
+          // Steps that time out or can't run count as failed steps; cancellation always stops the workflow
+          if (step.continueOnError && !signal?.aborted) {
+            statuses.push('failed')
+            continue
+          }
+          throw error
         }
-      } catch (error) {
-        console.error(chalk.red(`  Step ${i + 1} error:`), error)
-        results.push({
-          step: i + 1,
-          name: step.name,
-          command,
-          error: String(error),
-          status: 'failed',
-        })
-        throw error
       }
+    } finally {
+      await session?.close()
     }
 
+    // Steps that failed but continued, or warned, make the workflow a warning; all skipped skips it
+    const status: CommandStatus = statuses.every(stepStatus => stepStatus === 'skipped')
+      ? 'skipped'
+      : statuses.some(stepStatus => stepStatus === 'failed' || stepStatus === 'warning')
+        ? 'warning'
+        : 'success'
+
     return {
-      status: 'success',
+      status,
       message: `Workflow "${task.name}" completed`,
       steps_completed: steps.length,
+      steps_failed: statuses.filter(stepStatus => stepStatus === 'failed').length,
       results,
+      outputs,
       timestamp: new Date().toISOString(),
     }
   }
 
   /**
    * Execute a batch task
+   *
+   * Runs configuration.batch_command, or configuration.batch_tool with
+   * configuration.batch_args, once per item. Failed items are listed in
+   * failed_items so they can be retried as a new execution.
    */
-  private async executeBatchTask(task: Task, inputParams: Record<string, unknown>): Promise<Record<string, unknown>> {
+  private async executeBatchTask(
+    task: Task,
+    inputParams: Record<string, unknown>,
+    signal?: AbortSignal,
+  ): Promise<Record<string, unknown>> {
     console.log(chalk.gray('  Executing batch task...'))
 
-    const batchSize = inputParams.batch_size || 3
-    const batchCommand =
-      task.configuration?.batch_command || inputParams.batch_command || 'echo "Hello World! Item {{index}}"'
-
-    console.log(chalk.gray(`  Processing batch of ${batchSize} items...`))
-
-    const results = []
-    for (let i = 1; i <= Number(batchSize); i++) {
-      console.log(chalk.blue(`\n  🔢 Item ${i}/${batchSize}`))
-      const command = String(batchCommand).replace('{{index}}', String(i))
+    const configuration = task.configuration || {}
+    const items = await loadBatchItems(inputParams, configuration)
+    const concurrency = Number(inputParams.concurrency ?? configuration.concurrency ?? 1)
+    const batchTool = configuration.batch_tool || inputParams.batch_tool
+    const [tool] = batchTool ? await this.resolveToolCalls([batchTool as ToolCall]) : []
+    const batchCommand = tool
+      ? `${tool.command} ${configuration.batch_args || inputParams.batch_args || ''}`.trim()
+      : String(configuration.batch_command || inputParams.batch_command || 'echo "Hello World! Item {{index}}"')
+
+    console.log(chalk.gray(`  Processing batch of ${items.length} items, ${concurrency} at a time...`))
+
+    const startedAt = Date.now()
+    const results = await runBatch(
+      items,
+      concurrency,
+      (item, index) => {
+        console.log(chalk.blue(`\n  🔢 Item ${index}/${items.length}`))
+        return this.executeCommandWithStdio(
+          renderItemTemplate(batchCommand, item, index),
+          signal,
+          tool?.timeoutMs,
+          tool,
+        )
+      },
+      signal,
+    )
 
-      try {
-        const { output, exitCode } = await this.executeCommandWithStdio(String(command))
-        results.push({ item: i, output, exitCode, status: exitCode === 0 ? 'success' : 'failed' })
-      } catch (error) {
-        console.error(chalk.red(`  Item ${i} failed`), error)
-        results.push({ item: i, error: String(error), status: 'failed' })
-      }
+    const failed = results.filter(result => result.status === 'failed')
+    if (failed.length > 0) {
+      console.log(chalk.red(`\n  ✗ ${failed.length} of ${items.length} items failed`))
+    } else {
+      console.log(chalk.green(`\n  ✓ All ${items.length} items succeeded`))
     }
 
     return {
-      status: 'success',
+      status: failed.length === 0 ? 'success' : failed.length < items.length ? 'partial' : 'failed',
       message: `Batch task "${task.name}" completed`,
-      items_processed: batchSize,
+      command: batchCommand,
+      items_processed: items.length,
+      items_succeeded: items.length - failed.length,
+      items_failed: failed.length,
+      duration_ms: Date.now() - startedAt,
       results,
+      failed_items: failed.map(result => result.item),
       timestamp: new Date().toISOString(),
     }
   }
 
   /**
    * Execute a report task
+   *
+   * Gathers data from the configured sources (commands and MCP tools), renders
+   * it through the task's template and optionally publishes it as an article.
+   * A source that fails leaves a gap in the report rather than failing it.
    */
-  private async executeReportTask(task: Task, inputParams: Record<string, unknown>): Promise<Record<string, unknown>> {
+  private async executeReportTask(
+    task: Task,
+    inputParams: Record<string, unknown>,
+    signal?: AbortSignal,
+  ): Promise<Record<string, unknown>> {
     console.log(chalk.gray('  Generating report...'))
 
-    const reportCommand =
-      task.configuration?.report_command ||
-      inputParams.report_command ||
-      'echo "Hello World! - Report Generated at $(date)"'
+    const configuration = task.configuration || {}
+    const format = String(inputParams.format || configuration.format || 'markdown') as ReportFormat
+    if (!REPORT_FORMATS.includes(format)) {
+      throw new Error(`Unknown report format "${format}" (expected ${REPORT_FORMATS.join(', ')})`)
+    }
+
+    const reportCommand = configuration.report_command || inputParams.report_command
+    const sources = (configuration.sources || (reportCommand ? { output: { command: reportCommand } } : {})) as Record<
+      string,
+      ReportSource
+    >
+
+    // Sources are gathered in order, so later ones can use earlier results in their params
+    const data: Record<string, unknown> = {}
+    const gathered: { name: string; status: 'success' | 'failed'; error?: string }[] = []
+    for (const [name, source] of Object.entries(sources)) {
+      signal?.throwIfAborted()
+      console.log(chalk.blue(`\n  📊 Gathering ${name}`))
+      try {
+        data[name] = await this.gatherReportSource(source, { ...inputParams, ...data }, signal)
+        gathered.push({ name, status: 'success' })
+      } catch (error) {
+        if (signal?.aborted) throw error
+        console.error(chalk.red(`  Source ${name} failed:`), error)
+        data[name] = null
+        gathered.push({ name, status: 'failed', error: error instanceof Error ? error.message : String(error) })
+      }
+    }
+
+    const title = String(
+      resolveTemplates(configuration.title || inputParams.title || task.name, { ...inputParams, ...data }),
+    )
+    const template = configuration.template_file
+      ? await readFile(String(configuration.template_file), 'utf-8').then(text =>
+          format === 'json' ? JSON.parse(text) : text,
+        )
+      : configuration.template
+    const report = renderReport({ title, format, data, template, generatedAt: new Date().toISOString() })
+
+    let article: Record<string, unknown> | undefined
+    if (configuration.publish) {
+      console.log(chalk.blue('\n  📰 Publishing report as an article'))
+      const publish = configuration.publish === true ? {} : (configuration.publish as Record<string, unknown>)
+      article = (await this.callTool(
+        'mcp-articles_create_article',
+        { title, content: report, ...publish },
+        signal,
+      )) as Record<string, unknown>
+    }
+
+    const failed = gathered.filter(source => source.status === 'failed').length
+    return {
+      status: failed === 0 ? 'success' : failed < gathered.length ? 'partial' : 'failed',
+      message: `Report "${title}" generated`,
+      report_type: inputParams.report_type || 'summary',
+      format,
+      title,
+      report,
+      sources: gathered,
+      ...(article ? { article: { id: article.id ?? (article.article as Record<string, unknown>)?.id } } : {}),
+      timestamp: new Date().toISOString(),
+    }
+  }
+
+  /**
+   * Data from one report source: a command's output (parsed when it is JSON) or a tool's result
+   */
+  private async gatherReportSource(
+    source: ReportSource,
+    scope: Record<string, unknown>,
+    signal?: AbortSignal,
+  ): Promise<unknown> {
+    if (source.tool) {
+      return this.callTool(source.tool, resolveTemplates(source.params || {}, scope), signal)
+    }
+    if (!source.command) {
+      throw new Error('Report source needs a command or a tool')
+    }
 
+    const { output, exitCode } = await this.executeCommandWithStdio(renderStepTemplate(source.command, scope), signal)
+    if (exitCode !== 0) {
+      throw new Error(`Command exited with code ${exitCode}`)
+    }
     try {
-      const { output, exitCode } = await this.executeCommandWithStdio(String(reportCommand))
+      return JSON.parse(output)
+    } catch {
+      return output
+    }
+  }
 
-      return {
-        status: exitCode === 0 ? 'success' : 'failed',
-        message: `Report "${task.name}" generated`,
-        report_type: inputParams.report_type || 'summary',
-        command: reportCommand,
-        output,
-        exitCode,
-        timestamp: new Date().toISOString(),
+  /**
+   * Call an MCP tool, unwrapping the data from its content
+   */
+  private async callTool(tool: string, params: unknown, signal?: AbortSignal): Promise<unknown> {
+    // Loaded on demand, as the MCP client pulls in authentication
+    this.toolClient ??= (await import('../mcp/mcp-client.js')).MCPClient.getInstance()
+    const result = await this.toolClient.callTool(tool, params, { signal })
+    const content = result?.content?.[0]
+    if (content?.data !== undefined) {
+      return content.data
+    }
+    if (typeof content?.text === 'string') {
+      try {
+        return JSON.parse(content.text)
+      } catch {
+        return content.text
       }
-    } catch (error) {
-      console.error(chalk.red('  Report generation failed:'), error)
-      throw error
     }
+    return result
   }
 
   /**
    * Execute a monitoring task
+   *
+   * Runs configuration.checks (or configuration.monitor_command as a single
+   * command check) and compares each status with the previous run's, kept in
+   * ~/.veas/monitoring/<taskId>.json. When a status changes and the
+   * execution's schedule has alert_on_failure set, the change is sent to its
+   * alert webhook and email.
    */
   private async executeMonitoringTask(
+    executionId: string,
     task: Task,
     inputParams: Record<string, unknown>,
+    signal?: AbortSignal,
   ): Promise<Record<string, unknown>> {
     console.log(chalk.gray('  Running monitoring checks...'))
 
     const monitorCommand =
       task.configuration?.monitor_command || inputParams.monitor_command || 'echo "Hello World! - System Status: OK"'
+    const checks = (task.configuration?.checks as MonitoringCheck[] | undefined) ?? [
+      { name: 'monitor', type: 'command', command: String(monitorCommand) },
+    ]
 
-    try {
-      const { output, exitCode } = await this.executeCommandWithStdio(String(monitorCommand))
+    const results: CheckResult[] = []
+    for (const check of checks) {
+      signal?.throwIfAborted()
+      console.log(chalk.blue(`\n  🔍 Check: ${check.name} (${check.type})`))
+      const result = await runCheck(check, {
+        runCommand: (command, commandSignal) => this.executeCommandWithStdio(command, commandSignal),
+        signal,
+      })
+      const color = result.status === 'ok' ? chalk.green : result.status === 'warning' ? chalk.yellow : chalk.red
+      console.log(color(`  ${result.status.toUpperCase()}: ${result.message}`))
+      results.push(result)
+    }
 
-      // Simple alert detection based on output
-      const alerts =
-        output?.toLowerCase().includes('error') || output?.toLowerCase().includes('fail') || exitCode !== 0 ? 1 : 0
+    const overall = results.reduce<CheckStatus>((worst, result) => worstStatus(worst, result.status), 'ok')
+    const statePath = join(homedir(), '.veas', 'monitoring', `${task.id}.json`)
+    const { changes, state } = diffCheckStates(await loadMonitorState(statePath), results)
+
+    let alertsSent: string[] = []
+    let alertsFailed: string[] = []
+    if (changes.length > 0) {
+      console.log(chalk.yellow(`\n  ⚠️  ${changes.length} check(s) changed status`))
+      ;({ sent: alertsSent, failed: alertsFailed } = await this.dispatchMonitoringAlert(executionId, task, {
+        overall,
+        changes,
+        checks: results,
+      }))
+    } else {
+      console.log(chalk.gray('\n  No status changes'))
+    }
 
-      if (alerts > 0) {
-        console.log(chalk.red('\n  ⚠️  ALERTS DETECTED!'))
-      } else {
-        console.log(chalk.green('\n  ✅ All checks passed'))
-      }
+    // Keep the previous statuses until every alert is delivered, so the next run alerts again
+    if (alertsFailed.length === 0) {
+      await saveMonitorState(statePath, state)
+    } else {
+      console.log(chalk.yellow('  Status changes will be alerted again on the next run'))
+    }
 
-      return {
-        status: exitCode === 0 ? 'success' : 'failed',
-        message: `Monitoring task "${task.name}" completed`,
-        command: monitorCommand,
-        output,
-        exitCode,
-        checks_performed: 1,
-        alerts_triggered: alerts,
-        timestamp: new Date().toISOString(),
+    return {
+      status: overall === 'ok' ? 'success' : overall === 'warning' ? 'warning' : 'failed',
+      message: `Monitoring task "${task.name}" completed`,
+      overall,
+      checks: results,
+      changes,
+      checks_performed: results.length,
+      alerts_triggered: alertsSent.length,
+      alerts_failed: alertsFailed,
+      alerts_sent: alertsSent,
+      timestamp: new Date().toISOString(),
+    }
+  }
+
+  /**
+   * Send a monitoring status change to the alert targets of the execution's schedule
+   *
+   * Returns the targets that were alerted and those that failed. Failed deliveries
+   * are logged and don't fail the task.
+   */
+  private async dispatchMonitoringAlert(
+    executionId: string,
+    task: Task,
+    outcome: { overall: CheckStatus; changes: CheckStateChange[]; checks: CheckResult[] },
+  ): Promise<{ sent: string[]; failed: string[] }> {
+    const { data: execution } = await this.supabase
+      .schema('agents')
+      .from('executions')
+      .select('schedule_id')
+      .eq('id', executionId)
+      .single()
+    if (!execution?.schedule_id) {
+      return { sent: [], failed: [] }
+    }
+
+    const { data: schedule } = await this.supabase
+      .schema('agents')
+      .from('schedules')
+      .select('alert_on_failure, alert_email, alert_webhook_url')
+      .eq('id', execution.schedule_id)
+      .single()
+    if (!schedule?.alert_on_failure) {
+      return { sent: [], failed: [] }
+    }
+
+    const alert: MonitoringAlert = {
+      taskId: task.id,
+      taskName: task.name,
+      executionId,
+      scheduleId: execution.schedule_id,
+      status: outcome.overall,
+      changes: outcome.changes,
+      checks: outcome.checks,
+      timestamp: new Date().toISOString(),
+    }
+
+    const sent: string[] = []
+    const failed: string[] = []
+    const targets: [string | undefined, (target: string) => Promise<void>][] = [
+      [schedule.alert_webhook_url, url => sendAlertWebhook(url, alert)],
+      [schedule.alert_email, email => sendAlertEmail(email, alert)],
+    ]
+    for (const [target, send] of targets) {
+      if (!target) continue
+      try {
+        await send(target)
+        sent.push(target)
+        console.log(chalk.yellow(`  📣 Alert sent to ${target}`))
+      } catch (error) {
+        failed.push(target)
+        console.error(chalk.red(`  Failed to send alert to ${target}:`), error)
       }
-    } catch (error) {
-      console.error(chalk.red('  Monitor failed:'), error)
-      throw error
     }
+    return { sent, failed }
   }
 
   /**
    * Execute a custom task
    */
-  private async executeCustomTask(task: Task, inputParams: Record<string, unknown>): Promise<Record<string, unknown>> {
+  private async executeCustomTask(
+    task: Task,
+    inputParams: Record<string, unknown>,
+    signal?: AbortSignal,
+  ): Promise<Record<string, unknown>> {
     console.log(chalk.gray('  Executing custom task...'))
 
     const customCommand =
@@ -540,6 +1209,7 @@ export class TaskExecutor {
     try {
       let output: string | undefined
       let exitCode: number
+      let outputs: Record<string, unknown> | undefined
 
       if (openInNewTerminal) {
         console.log(chalk.cyan('  🖥️  Opening custom task in new terminal window...'))
@@ -547,7 +1217,7 @@ export class TaskExecutor {
 
         const result = await this.terminalSpawner.spawnInNewTerminal({
           command: String(customCommand),
-          cwd: process.cwd(),
+          cwd: this.commandLocation(signal).cwd ?? process.cwd(),
           title: task.name,
           keepOpen: inputParams.keepTerminalOpen !== false,
           terminalApp: String(inputParams.terminalApp || task.configuration?.terminalApp || ''),
@@ -559,23 +1229,30 @@ export class TaskExecutor {
       } else if (isInteractive) {
         console.log(chalk.yellow('  🎮 Custom task requires interactive execution'))
         const autoResponses = this.extractAutoResponses(task, inputParams)
-        const result = await this.executeInteractiveCommand(String(customCommand), autoResponses)
+        const result = await this.executeInteractiveCommand(String(customCommand), autoResponses, signal)
         exitCode = result.exitCode
         output = result.output
       } else {
-        const result = await this.executeCommandWithStdio(String(customCommand))
+        const result = await this.executeCommandWithStdio(String(customCommand), signal)
         output = result.output
         exitCode = result.exitCode
+        outputs = result.outputs
       }
 
+      const evaluation = openInNewTerminal
+        ? evaluateCommandResult({ exitCode })
+        : evaluateCommandResult({ output, exitCode }, getSuccessCriteria(task.configuration))
+
       return {
-        status: exitCode === 0 ? 'success' : 'failed',
+        status: evaluation.status,
+        status_reason: evaluation.reason,
         message: openInNewTerminal
           ? `Custom task "${task.name}" spawned in ${inputParams.terminalApp || task.configuration?.terminalApp || 'terminal'}`
           : `Custom task "${task.name}" completed`,
         command: customCommand,
         output: output || 'Interactive session - output not captured',
         exitCode,
+        outputs,
         interactive: isInteractive,
         spawnedInTerminal: openInNewTerminal,
         terminalApp: openInNewTerminal
@@ -590,33 +1267,48 @@ export class TaskExecutor {
     }
   }
 
+  /**
+   * The tools this executor's tasks can use, loaded from veas.yaml or $VEAS_TOOLS_CONFIG unless given
+   */
+  private async getToolCommands(): Promise<ToolCommands> {
+    this.toolCommands ??= await loadToolCommands()
+    return this.toolCommands
+  }
+
+  /**
+   * Resolve tool calls to commands, failing on the first unknown tool before any of them run
+   */
+  private async resolveToolCalls(calls: ToolCall[]): Promise<ResolvedToolCommand[]> {
+    const tools = await this.getToolCommands()
+    return calls.map(call => resolveToolCommand(tools, call))
+  }
+
   /**
    * Execute tool commands
    */
-  private async executeToolCommands(tools: string[]): Promise<any[]> {
+  private async executeToolCommands(tools: ResolvedToolCommand[], signal?: AbortSignal): Promise<any[]> {
     const results = []
 
-    for (const tool of tools) {
+    for (const { tool, command, cwd, env, timeoutMs } of tools) {
+      signal?.throwIfAborted()
       console.log(chalk.blue(`\n  🔧 Executing tool: ${tool}`))
 
-      // Map tool names to actual commands
-      const toolCommand = this.mapToolToCommand(tool)
-
       try {
-        const { output, exitCode } = await this.executeCommandWithStdio(String(toolCommand))
+        const { output, exitCode } = await this.executeCommandWithStdio(command, signal, timeoutMs, { cwd, env })
 
         results.push({
           tool,
-          command: toolCommand,
+          command,
           output,
           exitCode,
           status: exitCode === 0 ? 'success' : 'failed',
         })
       } catch (error) {
+        if (signal?.aborted) throw error
         console.error(chalk.red(`  Tool ${tool} failed:`), error)
         results.push({
           tool,
-          command: toolCommand,
+          command,
           error: String(error),
           status: 'failed',
         })
@@ -626,26 +1318,6 @@ export class TaskExecutor {
     return results
   }
 
-  /**
-   * Map tool name to command
-   */
-  private mapToolToCommand(tool: string): string {
-    // Map common tools to commands
-    const toolMap: Record<string, string> = {
-      echo: 'echo "Hello World!"',
-      date: 'date',
-      pwd: 'pwd',
-      ls: 'ls -la',
-      env: 'env | head -5',
-      ping: 'ping -c 1 google.com',
-      curl: 'curl -s https://api.github.com/zen',
-      node: 'node -e "console.log(\'Hello from Node.js!\')"',
-      python: 'python3 -c "print(\'Hello from Python!\')"',
-    }
-
-    return toolMap[tool.toLowerCase()] || `echo "Tool ${tool} executed"`
-  }
-
   /**
    * Extract auto-response configuration from task and input params
    */
@@ -746,24 +1418,33 @@ export class TaskExecutor {
   private async executeInteractiveCommand(
     command: string,
     autoResponses?: AutoResponse[],
+    signal?: AbortSignal,
   ): Promise<{ exitCode: number; output?: string }> {
     // Check if we should use auto-response mode
     const useAutoResponse = autoResponses && autoResponses.length > 0
 
     if (!useAutoResponse) {
       // Traditional interactive mode - pass control to terminal
-      return this.executeInteractiveCommandTraditional(command)
+      return this.executeInteractiveCommandTraditional(command, signal)
     } else {
       // Auto-response mode - programmatically interact with the command
-      return this.executeInteractiveCommandWithAutoResponse(command, autoResponses)
+      return this.executeInteractiveCommandWithAutoResponse(command, autoResponses, signal)
     }
   }
 
   /**
    * Traditional interactive command execution (pass control to terminal)
    */
-  private async executeInteractiveCommandTraditional(command: string): Promise<{ exitCode: number }> {
+  private async executeInteractiveCommandTraditional(
+    command: string,
+    signal?: AbortSignal,
+  ): Promise<{ exitCode: number }> {
     return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason)
+        return
+      }
+
       console.log(chalk.cyan(`  🖥️  Starting interactive session: ${command}`))
       console.log(chalk.gray('  ─'.repeat(50)))
       console.log(chalk.yellow('  ⚡ Interactive mode - connecting to terminal...'))
@@ -773,10 +1454,21 @@ export class TaskExecutor {
       const child = spawn(command, [], {
         shell: true,
         stdio: 'inherit', // Full inheritance for interactive sessions
+        ...this.commandLocation(signal),
       })
 
+      // Stays in our process group so it keeps the terminal; only the session itself is stopped
+      const onAbort = () => killProcessGroup(child)
+      signal?.addEventListener('abort', onAbort, { once: true })
+
       // Handle process exit
       child.on('close', code => {
+        signal?.removeEventListener('abort', onAbort)
+        if (signal?.aborted) {
+          reject(signal.reason)
+          return
+        }
+
         console.log(chalk.gray('  ─'.repeat(50)))
         if (code === 0) {
           console.log(chalk.green(`  ✓ Interactive session ended successfully (exit code: ${code})`))
@@ -801,8 +1493,14 @@ export class TaskExecutor {
   private async executeInteractiveCommandWithAutoResponse(
     command: string,
     autoResponses: AutoResponse[],
+    signal?: AbortSignal,
   ): Promise<{ exitCode: number; output?: string }> {
     return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason)
+        return
+      }
+
       console.log(chalk.cyan(`  🤖 Starting auto-interactive session: ${command}`))
       console.log(chalk.gray('  ─'.repeat(50)))
       console.log(chalk.yellow(`  ⚡ Auto-response mode - ${autoResponses.length} response(s) configured`))
@@ -829,8 +1527,13 @@ export class TaskExecutor {
       const child = spawn(command, [], {
         shell: true,
         stdio: ['pipe', 'pipe', 'pipe'], // pipe stdin, stdout, stderr
+        detached: process.platform !== 'win32', // own process group, so cancellation reaches its children
+        ...this.commandLocation(signal),
       })
 
+      const onAbort = () => killProcessGroup(child)
+      signal?.addEventListener('abort', onAbort, { once: true })
+
       console.log(chalk.gray(`  ℹ️  Process started with PID: ${child.pid}`))
 
       // Set up a timeout to send first response if no output is received
@@ -931,6 +1634,12 @@ export class TaskExecutor {
           clearTimeout(timeout)
         }
 
+        signal?.removeEventListener('abort', onAbort)
+        if (signal?.aborted) {
+          reject(signal.reason)
+          return
+        }
+
         console.log(chalk.gray('  ─'.repeat(50)))
         if (code === 0) {
           console.log(chalk.green(`  ✓ Auto-interactive session ended successfully (exit code: ${code})`))
@@ -1004,47 +1713,128 @@ export class TaskExecutor {
     })
   }
 
+  /**
+   * Capture a command's output for the terminal, the execution's logs and its result
+   *
+   * The captured output is capped; past the cap the full output is spilled to
+   * ~/.veas/logs/<executionId>-<timestamp>.log. Structured outputs the command
+   * reports on stdout or in the file at $VEAS_OUTPUT are collected too.
+   */
+  private captureCommandOutput(signal?: AbortSignal) {
+    const stream = signal ? this.runContexts.get(signal) : undefined
+    const output = new CapturedOutput(
+      undefined,
+      stream && join(homedir(), '.veas', 'logs', `${stream.executionId}-${Date.now()}.log`),
+    )
+    const outputs = new OutputCollector()
+    const outputsDir = join(homedir(), '.veas', 'outputs')
+    const outputFile = join(outputsDir, `${stream?.executionId ?? 'command'}-${randomUUID()}`)
+    // Created synchronously so the command starts in the same tick, before a cancellation can land
+    mkdirSync(outputsDir, { recursive: true })
+
+    return {
+      outputFile,
+      write: (name: 'stdout' | 'stderr', text: string) => {
+        output.append(text)
+        stream?.logs.write(name, text)
+        // Write directly to the terminal for real-time display
+        if (name === 'stdout') {
+          outputs.write(text)
+          process.stdout.write(chalk.green('  │ ') + text)
+        } else {
+          process.stderr.write(chalk.yellow('  ⚠ ') + text)
+        }
+      },
+      finish: async (): Promise<{ output: string; outputs: Record<string, unknown> }> => {
+        await output.close()
+        const outputFileText = await readFile(outputFile, 'utf-8').catch(() => undefined)
+        await rm(outputFile, { force: true })
+        return { output: output.toString().trim(), outputs: outputs.finish(outputFileText) }
+      },
+    }
+  }
+
   /**
    * Execute command with real-time stdio streaming
+   *
+   * Output goes to the terminal and to the execution's logs (see captureCommandOutput).
+   * With a timeout the command's process group is stopped once it expires.
+   * A tool's working directory and environment override the execution's.
    */
-  private async executeCommandWithStdio(command: string): Promise<{ output: string; exitCode: number }> {
+  private async executeCommandWithStdio(
+    command: string,
+    signal?: AbortSignal,
+    timeoutMs?: number,
+    overrides?: { cwd?: string; env?: Record<string, string> },
+  ): Promise<{ output: string; exitCode: number; outputs: Record<string, unknown> }> {
+    const capture = this.captureCommandOutput(signal)
+    const location = this.commandLocation(signal)
+
     return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason)
+        return
+      }
+
       console.log(chalk.cyan(`  📟 Executing: ${command}`))
       console.log(chalk.gray('  ─'.repeat(30)))
 
-      let output = ''
-
       // Use shell to execute the command
       const child = spawn(command, [], {
         shell: true,
         stdio: ['inherit', 'pipe', 'pipe'],
+        detached: process.platform !== 'win32', // own process group, so cancellation reaches its children
+        cwd: overrides?.cwd ?? location.cwd,
+        env: { ...(location.env ?? process.env), ...overrides?.env, VEAS_OUTPUT: capture.outputFile },
       })
 
-      // Stream stdout in real-time
-      child.stdout?.on('data', data => {
-        const text = data.toString()
-        output += text
-        // Write directly to process stdout for real-time display
-        process.stdout.write(chalk.green('  │ ') + text)
-      })
-
-      // Stream stderr in real-time
-      child.stderr?.on('data', data => {
-        const text = data.toString()
-        output += text
-        // Write directly to process stderr for real-time display
-        process.stderr.write(chalk.yellow('  ⚠ ') + text)
-      })
+      const onAbort = () => {
+        console.log(chalk.yellow(`  ⏹️  Stopping command: ${(signal?.reason as Error)?.message || 'aborted'}`))
+        killProcessGroup(child)
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+
+      let timedOut = false
+      const timer =
+        timeoutMs === undefined
+          ? undefined
+          : setTimeout(() => {
+              timedOut = true
+              console.log(chalk.yellow(`  ⏹️  Stopping command: timed out after ${timeoutMs / 1000}s`))
+              killProcessGroup(child)
+            }, timeoutMs)
+
+      // Stream stdout and stderr in real-time
+      child.stdout?.on('data', data => capture.write('stdout', data.toString()))
+      child.stderr?.on('data', data => capture.write('stderr', data.toString()))
 
       // Handle process exit
-      child.on('close', code => {
+      child.on('close', async code => {
+        signal?.removeEventListener('abort', onAbort)
+        clearTimeout(timer)
+        let captured: { output: string; outputs: Record<string, unknown> }
+        try {
+          captured = await capture.finish()
+        } catch (error) {
+          reject(error)
+          return
+        }
         console.log(chalk.gray('  ─'.repeat(30)))
+        if (signal?.aborted) {
+          reject(signal.reason)
+          return
+        }
+        if (timedOut) {
+          reject(new Error(`Command timed out after ${(timeoutMs as number) / 1000}s`))
+          return
+        }
+
         if (code === 0) {
           console.log(chalk.green(`  ✓ Command completed successfully (exit code: ${code})`))
         } else {
           console.log(chalk.red(`  ✗ Command failed (exit code: ${code})`))
         }
-        resolve({ output: output.trim(), exitCode: code || 0 })
+        resolve({ ...captured, exitCode: code || 0 })
       })
 
       // Handle errors
@@ -1056,6 +1846,88 @@ export class TaskExecutor {
     })
   }
 
+  /**
+   * Run a workflow step in the workflow's shell session, capturing it like executeCommandWithStdio
+   */
+  private async executeCommandInSession(
+    session: ShellSession,
+    command: string,
+    signal?: AbortSignal,
+    timeoutMs?: number,
+  ): Promise<{ output: string; exitCode: number; outputs: Record<string, unknown> }> {
+    const capture = this.captureCommandOutput(signal)
+
+    console.log(chalk.cyan(`  📟 Executing in shell session: ${command}`))
+    console.log(chalk.gray('  ─'.repeat(30)))
+    let result: { exitCode: number; timedOut: boolean }
+    try {
+      result = await session.run(command, {
+        onOutput: capture.write,
+        env: { VEAS_OUTPUT: capture.outputFile },
+        timeoutMs,
+        signal,
+      })
+    } catch (error) {
+      await capture.finish().catch(() => {})
+      throw error
+    } finally {
+      console.log(chalk.gray('  ─'.repeat(30)))
+    }
+    const captured = await capture.finish()
+
+    if (result.timedOut) {
+      throw new Error(`Command timed out after ${(timeoutMs as number) / 1000}s`)
+    }
+    if (result.exitCode === 0) {
+      console.log(chalk.green(`  ✓ Command completed successfully (exit code: ${result.exitCode})`))
+    } else {
+      console.log(chalk.red(`  ✗ Command failed (exit code: ${result.exitCode})`))
+    }
+    return { ...captured, exitCode: result.exitCode }
+  }
+
+  /**
+   * Append a batch of output lines to the execution's logs
+   */
+  private async appendExecutionLogs(executionId: string, entries: OutputLogEntry[]): Promise<void> {
+    if (this.appendLogsRpc) {
+      // Appended in a single statement, so concurrent batches and status updates don't overwrite each other
+      const { error } = await this.supabase
+        .schema('agents')
+        .rpc('append_execution_logs', { execution_id: executionId, entries })
+
+      if (!error) return
+      if (!MISSING_FUNCTION_CODES.has(error.code)) {
+        console.error(chalk.red(`Failed to append execution logs: ${error.message}`))
+        return
+      }
+      console.log(chalk.yellow('  ⚠️  append_execution_logs is not installed, appending logs with select and update'))
+      this.appendLogsRpc = false
+    }
+
+    const { data, error: fetchError } = await this.supabase
+      .schema('agents')
+      .from('executions')
+      .select('execution_logs')
+      .eq('id', executionId)
+      .single()
+
+    if (fetchError) {
+      console.error(chalk.red(`Failed to fetch execution logs: ${fetchError.message}`))
+      return
+    }
+
+    const { error } = await this.supabase
+      .schema('agents')
+      .from('executions')
+      .update({ execution_logs: [...(data?.execution_logs || []), ...entries] })
+      .eq('id', executionId)
+
+    if (error) {
+      console.error(chalk.red(`Failed to append execution logs: ${error.message}`))
+    }
+  }
+
   /**
    * Update execution status
    */
@@ -1081,13 +1953,13 @@ export class TaskExecutor {
   /**
    * Handle tool calls
    */
-  async handleToolCalls(tools: string[]): Promise<any[]> {
+  async handleToolCalls(tools: ToolCall[]): Promise<any[]> {
     console.log(chalk.gray(`  Handling ${tools.length} tool calls...`))
 
     if (tools.length === 0) {
       return []
     }
 
-    return this.executeToolCommands(tools)
+    return this.executeToolCommands(await this.resolveToolCalls(tools))
   }
 }
@@ -0,0 +1,183 @@
+/**
+ * Tests for task handlers
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { Task } from '../types/agents.js'
+import { TaskExecutor } from './task-executor.js'
+import {
+  BUILT_IN_TASK_TYPES,
+  describeTaskTypes,
+  loadTaskHandlers,
+  type TaskHandler,
+  validateConfigSchema,
+} from './task-handlers.js'
+
+describe('Task handlers', () => {
+  const task = (overrides: Partial<Task>): Task =>
+    ({ id: 'task-1', name: 'Sync', task_type: 'integration', configuration: {}, ...overrides }) as Task
+
+  const integrationHandler = (overrides: Partial<TaskHandler> = {}): TaskHandler => ({
+    type: 'integration',
+    describe: () => ({ description: 'Syncs the CRM' }),
+    execute: vi.fn(async ({ task, inputParams }) => ({ status: 'success', synced: task.name, inputParams })),
+    ...overrides,
+  })
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('describeTaskTypes', () => {
+    it('should list the built-in types, replaced by extra handlers of the same type', () => {
+      const types = describeTaskTypes([integrationHandler()])
+
+      expect(Object.keys(types)).toEqual([
+        'single',
+        'workflow',
+        'batch',
+        'report',
+        'monitoring',
+        'integration',
+        'custom',
+      ])
+      expect(types.integration).toEqual({ description: 'Syncs the CRM' })
+      expect(types.batch?.description).toBe(
+        'Runs configuration.batch_command or configuration.batch_tool once per item',
+      )
+    })
+  })
+
+  describe('validateConfigSchema', () => {
+    it('should accept numbers saved as strings and convert them', () => {
+      const batch = task({ task_type: 'batch', configuration: { batch_command: 'echo {{item}}', concurrency: '4' } })
+      const single = task({ task_type: 'single', configuration: { command: 'make', accepted_exit_codes: ['0', '2'] } })
+
+      expect(validateConfigSchema(BUILT_IN_TASK_TYPES.batch, batch)).toEqual([])
+      expect(validateConfigSchema(BUILT_IN_TASK_TYPES.single, single)).toEqual([])
+      expect(batch.configuration).toMatchObject({ concurrency: 4 })
+      expect(single.configuration).toMatchObject({ accepted_exit_codes: [0, 2] })
+      expect(validateConfigSchema(BUILT_IN_TASK_TYPES.batch, task({ configuration: { concurrency: 'four' } }))).toEqual(
+        ['configuration.concurrency must be integer, got string'],
+      )
+    })
+
+    it('should accept a batch tool by name or with parameters', () => {
+      const batchTool = (batch_tool: unknown) =>
+        validateConfigSchema(BUILT_IN_TASK_TYPES.batch, task({ task_type: 'batch', configuration: { batch_tool } }))
+
+      expect(batchTool('disk_usage')).toEqual([])
+      expect(batchTool({ name: 'disk_usage', params: { path: '/var' } })).toEqual([])
+      expect(batchTool({ params: { path: '/var' } })).not.toEqual([])
+      expect(batchTool('')).not.toEqual([])
+    })
+  })
+
+  describe('TaskExecutor', () => {
+    const run = (executor: TaskExecutor, runTask: Task) =>
+      (executor as any).runTaskWorkflow('exec-1', runTask, { since: 'yesterday' })
+
+    it('should run tasks with the handler registered for their type', async () => {
+      const handler = integrationHandler()
+      const executor = new TaskExecutor({} as any, 'dest-1', 'org-1', [handler])
+
+      await expect(run(executor, task({}))).resolves.toEqual({
+        status: 'success',
+        synced: 'Sync',
+        inputParams: { since: 'yesterday' },
+      })
+      expect(handler.execute).toHaveBeenCalledWith(
+        expect.objectContaining({ executionId: 'exec-1', runCommand: expect.any(Function) }),
+      )
+      expect(executor.getTaskTypes().integration).toEqual({ description: 'Syncs the CRM' })
+    })
+
+    it('should fail before running when the configuration is invalid', async () => {
+      const executor = new TaskExecutor({} as any, 'dest-1', 'org-1')
+
+      await expect(run(executor, task({ task_type: 'report', configuration: { report_command: 42 } }))).rejects.toThrow(
+        'Invalid configuration for report task: configuration.report_command must be string, got integer',
+      )
+    })
+
+    it("should hand converted configuration to the handler without changing the caller's task", async () => {
+      const capabilities = {
+        description: 'Syncs the CRM',
+        configSchema: { properties: { limit: { type: 'integer' } } },
+      }
+      const handler = integrationHandler({
+        validateConfig: handlerTask => validateConfigSchema(capabilities, handlerTask),
+      })
+      const executor = new TaskExecutor({} as any, 'dest-1', 'org-1', [handler])
+      const sync = task({ configuration: { limit: '5' } })
+
+      await run(executor, sync)
+
+      expect(handler.execute).toHaveBeenCalledWith(
+        expect.objectContaining({ task: expect.objectContaining({ configuration: { limit: 5 } }) }),
+      )
+      expect(sync.configuration).toEqual({ limit: '5' })
+    })
+
+    it('should pass cancellations on to the running handler', async () => {
+      let finish: (value: Record<string, unknown>) => void = () => {}
+      const handler = integrationHandler({
+        execute: vi.fn(
+          () =>
+            new Promise<Record<string, unknown>>(resolve => {
+              finish = resolve
+            }),
+        ),
+        cancel: vi.fn(),
+      })
+      const executor = new TaskExecutor({} as any, 'dest-1', 'org-1', [handler])
+      ;(executor as any).runningExecutions.set('exec-1', new AbortController())
+
+      const running = run(executor, task({}))
+      expect(executor.cancelExecution('exec-1')).toBe(true)
+      expect(handler.cancel).toHaveBeenCalledWith('exec-1')
+
+      finish({ status: 'cancelled' })
+      await running
+    })
+  })
+
+  describe('loadTaskHandlers', () => {
+    let dir: string
+
+    beforeEach(() => {
+      dir = mkdtempSync('/tmp/veas-handlers-')
+    })
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('should load handlers from the default export of a module', async () => {
+      const modulePath = join(dir, 'handlers.mjs')
+      writeFileSync(
+        modulePath,
+        `export default [{ type: 'custom', describe: () => ({ description: 'Ours' }), execute: async () => ({}) }]`,
+      )
+
+      const handlers = await loadTaskHandlers([modulePath])
+
+      expect(handlers.map(handler => handler.type)).toEqual(['custom'])
+    })
+
+    it('should reject modules that do not export a handler', async () => {
+      const modulePath = join(dir, 'broken.mjs')
+      writeFileSync(modulePath, `export default { type: 'deploy', execute: async () => ({}) }`)
+
+      await expect(loadTaskHandlers([modulePath])).rejects.toThrow(
+        `${modulePath} does not export a task handler (type, execute and describe are required)`,
+      )
+    })
+  })
+})
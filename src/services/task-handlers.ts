@@ -0,0 +1,254 @@
+/**
+ * Task Handlers
+ *
+ * Each task type is run by a handler. The executor ships handlers for every
+ * built-in type; handler modules can add or replace them without changes to
+ * the CLI. The registered types are what a destination advertises in
+ * `allowed_task_types` when it registers.
+ */
+
+import { resolve } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import type { Task, TaskHandlerCapabilities, TaskType } from '../types/agents.js'
+import { validateSchema } from '../utils/json-schema.js'
+
+export interface TaskHandlerContext {
+  executionId: string
+  task: Task
+  /** Input params after input schema validation */
+  inputParams: Record<string, unknown>
+  /** Aborted when the execution times out or is cancelled */
+  signal?: AbortSignal
+  /** Run a shell command in its own process group, streaming its output */
+  runCommand(command: string, signal?: AbortSignal): Promise<{ output: string; exitCode: number }>
+}
+
+export interface TaskHandler {
+  type: TaskType
+  /**
+   * Problems with the task's configuration; the execution fails before it starts if there are any
+   *
+   * The task is the execution's own copy, so its configuration may be replaced with converted values.
+   */
+  validateConfig?(task: Task): string[]
+  /** Run the task, returning the execution's output_result */
+  execute(context: TaskHandlerContext): Promise<Record<string, unknown>>
+  /** Stop work the handler started outside the command it runs, e.g. remote jobs */
+  cancel?(executionId: string): void | Promise<void>
+  describe(): TaskHandlerCapabilities
+}
+
+const command = { type: 'string', minLength: 1 }
+/** A tool by name, or by name with parameters (see ToolCall) */
+const toolCall = {
+  anyOf: [command, { type: 'object', required: ['name'], properties: { name: command, params: { type: 'object' } } }],
+}
+const terminalOptions = {
+  interactive: { type: 'boolean' },
+  execution_mode: { enum: ['interactive', 'non-interactive'] },
+  openInNewTerminal: { type: 'boolean' },
+  separateTerminal: { type: 'boolean' },
+  terminalApp: { type: 'string' },
+}
+const patterns = { type: ['string', 'array'], items: { type: 'string' } }
+const successCriteria = {
+  accepted_exit_codes: { type: 'array', items: { type: 'integer' } },
+  exit_code_status: { type: 'object', additionalProperties: { enum: ['success', 'warning', 'skipped', 'failed'] } },
+  fail_on_output: patterns,
+  succeed_on_output: patterns,
+}
+
+export const BUILT_IN_TASK_TYPES: Record<TaskType, TaskHandlerCapabilities> = {
+  single: {
+    description: 'Runs input_params.command or configuration.command',
+    interactive: true,
+    configSchema: {
+      type: 'object',
+      properties: { command, useCompanion: { type: 'boolean' }, ...terminalOptions, ...successCriteria },
+    },
+  },
+  workflow: {
+    description: 'Runs one command per workflow step',
+    interactive: true,
+    configSchema: {
+      type: 'object',
+      properties: {
+        shell_session: { type: ['boolean', 'object'], properties: { shell: command } },
+        ...successCriteria,
+      },
+    },
+  },
+  batch: {
+    description: 'Runs configuration.batch_command or configuration.batch_tool once per item',
+    configSchema: {
+      type: 'object',
+      properties: {
+        batch_command: command,
+        batch_tool: toolCall,
+        batch_args: { type: 'string' },
+        items: { type: 'array' },
+        items_file: command,
+        concurrency: { type: 'integer', minimum: 1 },
+      },
+    },
+  },
+  report: {
+    description: 'Gathers configuration.sources and renders them into a Markdown, HTML or JSON report',
+    configSchema: {
+      type: 'object',
+      properties: {
+        report_command: command,
+        sources: {
+          type: 'object',
+          additionalProperties: {
+            type: 'object',
+            properties: { command, tool: command, params: { type: 'object' } },
+          },
+        },
+        format: { enum: ['markdown', 'html', 'json'] },
+        title: { type: 'string' },
+        template: { type: ['string', 'object'] },
+        template_file: command,
+        publish: { type: ['boolean', 'object'] },
+      },
+    },
+  },
+  monitoring: {
+    description: 'Runs configuration.checks against their thresholds and alerts when a status changes',
+    configSchema: {
+      type: 'object',
+      properties: {
+        monitor_command: command,
+        checks: { type: 'array', items: { $ref: '#/definitions/check' } },
+      },
+      definitions: {
+        check: {
+          type: 'object',
+          required: ['name', 'type'],
+          properties: {
+            name: command,
+            type: { enum: ['command', 'regex', 'http', 'file'] },
+            command,
+            pattern: command,
+            url: command,
+            expect_status: { type: 'array', items: { type: 'integer' } },
+            timeout_ms: { type: 'integer', minimum: 1 },
+            path: command,
+            metric: { enum: ['age', 'size'] },
+            warning: { type: 'number' },
+            critical: { type: 'number' },
+            direction: { enum: ['above', 'below'] },
+          },
+        },
+      },
+    },
+  },
+  integration: {
+    description: 'Runs configuration.custom_command or configuration.command',
+    interactive: true,
+    configSchema: {
+      type: 'object',
+      properties: { custom_command: command, command, ...terminalOptions, ...successCriteria },
+    },
+  },
+  custom: {
+    description: 'Runs configuration.custom_command or configuration.command',
+    interactive: true,
+    configSchema: {
+      type: 'object',
+      properties: { custom_command: command, command, ...terminalOptions, ...successCriteria },
+    },
+  },
+}
+
+/**
+ * Check a task's configuration against a handler's config schema
+ *
+ * Numbers saved as strings, e.g. `concurrency: '4'`, are accepted, and the task's
+ * configuration is replaced with a converted copy.
+ */
+export function validateConfigSchema(capabilities: TaskHandlerCapabilities, task: Task): string[] {
+  if (!capabilities.configSchema) {
+    return []
+  }
+  const result = validateSchema(capabilities.configSchema, task.configuration ?? {}, { coerceTypes: 'numbers' })
+  if (result.valid) {
+    task.configuration = result.value as Task['configuration']
+  }
+  return result.errors.map(error => `configuration${error.path.replace(/\//g, '.')} ${error.message}`)
+}
+
+export class TaskHandlerRegistry {
+  private handlers: Map<string, TaskHandler> = new Map()
+
+  constructor(handlers: TaskHandler[] = []) {
+    for (const handler of handlers) {
+      this.register(handler)
+    }
+  }
+
+  /**
+   * Register a handler, replacing any handler for the same type
+   */
+  register(handler: TaskHandler): void {
+    this.handlers.set(handler.type, handler)
+  }
+
+  get(type: string): TaskHandler | undefined {
+    return this.handlers.get(type)
+  }
+
+  /**
+   * Capabilities of every registered handler, keyed by task type
+   */
+  describe(): Record<string, TaskHandlerCapabilities> {
+    const described: Record<string, TaskHandlerCapabilities> = {}
+    for (const [type, handler] of this.handlers) {
+      described[type] = handler.describe()
+    }
+    return described
+  }
+}
+
+/**
+ * Task types a destination supports: the built-in types plus those of extra handlers
+ */
+export function describeTaskTypes(handlers: TaskHandler[] = []): Record<string, TaskHandlerCapabilities> {
+  return { ...BUILT_IN_TASK_TYPES, ...new TaskHandlerRegistry(handlers).describe() }
+}
+
+function isTaskHandler(value: unknown): value is TaskHandler {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as TaskHandler).type === 'string' &&
+    typeof (value as TaskHandler).execute === 'function' &&
+    typeof (value as TaskHandler).describe === 'function'
+  )
+}
+
+/**
+ * Load handlers from modules whose default export is a handler or a list of handlers
+ *
+ * Relative paths are resolved against the current directory.
+ */
+export async function loadTaskHandlers(modulePaths: string[]): Promise<TaskHandler[]> {
+  const handlers: TaskHandler[] = []
+
+  for (const modulePath of modulePaths) {
+    const module = await import(pathToFileURL(resolve(modulePath)).href)
+    const candidates: unknown[] = Array.isArray(module.default) ? module.default : [module.default]
+
+    for (const candidate of candidates) {
+      if (!isTaskHandler(candidate)) {
+        throw new Error(`${modulePath} does not export a task handler (type, execute and describe are required)`)
+      }
+      if (!(candidate.type in BUILT_IN_TASK_TYPES)) {
+        throw new Error(`${modulePath}: unknown task type "${candidate.type}"`)
+      }
+      handlers.push(candidate)
+    }
+  }
+
+  return handlers
+}
@@ -0,0 +1,98 @@
+/**
+ * Tests for configurable tool commands
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { BUILT_IN_TOOL_COMMANDS, loadToolCommands, parseToolCommands, resolveToolCommand } from './tool-commands.js'
+
+describe('Tool commands', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync('/tmp/veas-tools-')
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should add configured tools to the built-in ones', () => {
+    const tools = parseToolCommands(
+      [
+        'tools:',
+        '  uptime: uptime',
+        '  disk_usage:',
+        '    command: du -sh {{params.path}}',
+        '    cwd: data',
+        '    env: { LC_ALL: C, DEPTH: 1 }',
+        '    timeout_seconds: 30',
+      ].join('\n'),
+      '/srv/agent/veas.yaml',
+    )
+
+    expect(Object.keys(tools)).toEqual([...Object.keys(BUILT_IN_TOOL_COMMANDS), 'uptime', 'disk_usage'])
+    expect(tools.uptime).toMatchObject({ command: 'uptime' })
+    expect(tools.disk_usage).toMatchObject({ cwd: '/srv/agent/data', env: { LC_ALL: 'C', DEPTH: '1' } })
+    expect(Object.keys(parseToolCommands('builtin_tools: false\ntools:\n  uptime: uptime', 'veas.yaml'))).toEqual([
+      'uptime',
+    ])
+  })
+
+  it('should reject tools without a command or with an invalid timeout', () => {
+    expect(() => parseToolCommands('tools:\n  broken: {}', 'veas.yaml')).toThrow(
+      'Tool "broken" in veas.yaml needs a command',
+    )
+    expect(() => parseToolCommands('tools:\n  slow: { command: sleep 1, timeout_seconds: 0 }', 'veas.yaml')).toThrow(
+      'invalid timeout_seconds',
+    )
+    expect(() => parseToolCommands('tools: [uptime]', 'veas.yaml')).toThrow('must map tool names to commands')
+  })
+
+  it('should fill in shell-quoted parameters and defaults', () => {
+    const tools = parseToolCommands(
+      [
+        'tools:',
+        '  grep_logs:',
+        '    command: grep {{params.pattern}} {{ params.file }}',
+        '    timeout_seconds: 5',
+        '    params:',
+        '      pattern: {}',
+        '      file: { default: app.log }',
+      ].join('\n'),
+      '/srv/veas.yaml',
+    )
+
+    expect(resolveToolCommand(tools, { name: 'grep_logs', params: { pattern: "it's; rm -rf /" } })).toEqual({
+      tool: 'grep_logs',
+      command: `grep 'it'\\''s; rm -rf /' 'app.log'`,
+      cwd: undefined,
+      env: undefined,
+      timeoutMs: 5000,
+    })
+    expect(() => resolveToolCommand(tools, 'grep_logs')).toThrow('Tool "grep_logs" is missing parameter "pattern"')
+    expect(() => resolveToolCommand(tools, { name: 'grep_logs', params: { pattern: 'x', lines: 5 } })).toThrow(
+      'Tool "grep_logs" has no parameter "lines"',
+    )
+  })
+
+  it('should name the available tools when a tool is unknown', () => {
+    expect(resolveToolCommand(BUILT_IN_TOOL_COMMANDS, 'DATE').command).toBe('date')
+    expect(() => resolveToolCommand({ date: { command: 'date' }, pwd: { command: 'pwd' } }, 'deploy')).toThrow(
+      'Unknown tool "deploy". Tools available on this agent: date, pwd',
+    )
+    expect(() => resolveToolCommand({}, 'deploy')).toThrow('No tools are configured on this agent')
+  })
+
+  it('should load a config file, falling back to the built-in tools', async () => {
+    const file = join(dir, 'agent.yaml')
+    writeFileSync(file, 'tools:\n  uptime: uptime\n')
+
+    await expect(loadToolCommands(file)).resolves.toHaveProperty('uptime')
+    await expect(loadToolCommands(join(dir, 'missing.yaml'))).rejects.toThrow('Failed to read tools config')
+
+    // No veas.yaml in the working directory
+    await expect(loadToolCommands('')).resolves.toEqual(BUILT_IN_TOOL_COMMANDS)
+  })
+})
@@ -0,0 +1,171 @@
+/**
+ * Tool Commands
+ *
+ * The shell commands behind the tools a task lists in `tools` or a batch task
+ * names in `batch_tool`. A handful are built in; more are defined under
+ * `tools:` in veas.yaml or an agent config file, each with a command template,
+ * and optionally its own working directory, environment and timeout. The
+ * names of the tools an agent has are reported in its destination's
+ * `supported_tools`.
+ */
+
+import { readFile } from 'node:fs/promises'
+import { dirname, join, resolve } from 'node:path'
+import * as yaml from 'js-yaml'
+import { shellQuote } from './shell-session.js'
+
+export interface ToolParameter {
+  description?: string
+  /** Value used when a call leaves the parameter out; parameters without one are required */
+  default?: unknown
+}
+
+export interface ToolCommand {
+  /** Shell command; `{{params.<name>}}` is replaced with the shell-quoted parameter */
+  command: string
+  description?: string
+  /** Working directory, relative to the config file (default: the execution's directory) */
+  cwd?: string
+  /** Variables added to the command's environment */
+  env?: Record<string, string>
+  /** Stop the command after this many seconds */
+  timeout_seconds?: number
+  /** The parameters the command takes; when set, calls can't pass others */
+  params?: Record<string, ToolParameter>
+}
+
+export type ToolCommands = Record<string, ToolCommand>
+
+/** A tool as a task lists it: its name, or its name with parameters */
+export type ToolCall = string | { name: string; params?: Record<string, unknown> }
+
+/** A tool call ready to run */
+export interface ResolvedToolCommand {
+  tool: string
+  command: string
+  cwd?: string
+  env?: Record<string, string>
+  timeoutMs?: number
+}
+
+export const BUILT_IN_TOOL_COMMANDS: ToolCommands = {
+  echo: { command: 'echo "Hello World!"' },
+  date: { command: 'date' },
+  pwd: { command: 'pwd' },
+  ls: { command: 'ls -la' },
+  env: { command: 'env | head -5' },
+  ping: { command: 'ping -c 1 google.com' },
+  curl: { command: 'curl -s https://api.github.com/zen' },
+  node: { command: `node -e "console.log('Hello from Node.js!')"` },
+  python: { command: `python3 -c "print('Hello from Python!')"` },
+}
+
+const DEFAULT_CONFIG_FILE = 'veas.yaml'
+
+/**
+ * Read the tools defined in a config file's `tools:` section
+ *
+ * Entries are a command string or a ToolCommand. Setting `builtin_tools: false`
+ * in the file leaves out the built-in tools.
+ */
+export function parseToolCommands(text: string, file: string): ToolCommands {
+  const config = (yaml.load(text) ?? {}) as Record<string, unknown>
+  if (typeof config !== 'object' || Array.isArray(config)) {
+    throw new Error(`${file} must be a YAML mapping`)
+  }
+
+  const tools: ToolCommands = config.builtin_tools === false ? {} : { ...BUILT_IN_TOOL_COMMANDS }
+  const entries = config.tools ?? {}
+  if (typeof entries !== 'object' || Array.isArray(entries)) {
+    throw new Error(`"tools" in ${file} must map tool names to commands`)
+  }
+
+  for (const [name, entry] of Object.entries(entries as Record<string, unknown>)) {
+    const tool = (typeof entry === 'string' ? { command: entry } : entry) as ToolCommand | null
+    if (!tool || typeof tool !== 'object' || typeof tool.command !== 'string' || !tool.command.trim()) {
+      throw new Error(`Tool "${name}" in ${file} needs a command`)
+    }
+    if (tool.timeout_seconds !== undefined && !(Number(tool.timeout_seconds) > 0)) {
+      throw new Error(`Tool "${name}" in ${file} has an invalid timeout_seconds: ${tool.timeout_seconds}`)
+    }
+    if (tool.env !== undefined && (typeof tool.env !== 'object' || Array.isArray(tool.env))) {
+      throw new Error(`"env" of tool "${name}" in ${file} must map variable names to values`)
+    }
+    tools[name] = {
+      ...tool,
+      cwd: tool.cwd ? resolve(dirname(file), tool.cwd) : undefined,
+      env: tool.env && Object.fromEntries(Object.entries(tool.env).map(([key, value]) => [key, String(value)])),
+    }
+  }
+  return tools
+}
+
+/**
+ * The tools of an agent
+ *
+ * Reads the given config file, or $VEAS_TOOLS_CONFIG, or veas.yaml in the
+ * current directory if there is one; without a file only the built-in tools
+ * are available.
+ */
+export async function loadToolCommands(file = process.env.VEAS_TOOLS_CONFIG): Promise<ToolCommands> {
+  const path = resolve(file || join(process.cwd(), DEFAULT_CONFIG_FILE))
+  let text: string
+  try {
+    text = await readFile(path, 'utf8')
+  } catch (error) {
+    if (!file && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { ...BUILT_IN_TOOL_COMMANDS }
+    }
+    throw new Error(`Failed to read tools config ${path}: ${(error as Error).message}`)
+  }
+  return parseToolCommands(text, path)
+}
+
+/**
+ * The command a tool call runs, with its parameters filled in
+ */
+export function resolveToolCommand(tools: ToolCommands, call: ToolCall): ResolvedToolCommand {
+  const name = typeof call === 'string' ? call : call?.name
+  if (typeof name !== 'string' || !name) {
+    throw new Error(`Invalid tool call ${JSON.stringify(call)}: expected a tool name or { name, params }`)
+  }
+
+  const tool = tools[name] ?? tools[name.toLowerCase()]
+  if (!tool) {
+    const available = Object.keys(tools)
+    throw new Error(
+      available.length > 0
+        ? `Unknown tool "${name}". Tools available on this agent: ${available.join(', ')}`
+        : `Unknown tool "${name}". No tools are configured on this agent`,
+    )
+  }
+
+  const given = (typeof call === 'string' ? undefined : call.params) ?? {}
+  if (tool.params) {
+    const unknown = Object.keys(given).find(param => !(param in (tool.params as object)))
+    if (unknown) {
+      throw new Error(`Tool "${name}" has no parameter "${unknown}"`)
+    }
+  }
+  const params: Record<string, unknown> = {}
+  for (const [param, definition] of Object.entries(tool.params ?? {})) {
+    params[param] = definition?.default
+  }
+  Object.assign(params, given)
+
+  const command = tool.command.replace(/\{\{\s*params\.([\w-]+)\s*\}\}/g, (_, param: string) => {
+    const value = params[param]
+    if (value === undefined || value === null) {
+      throw new Error(`Tool "${name}" is missing parameter "${param}"`)
+    }
+    return shellQuote(typeof value === 'object' ? JSON.stringify(value) : String(value))
+  })
+
+  return {
+    tool: name,
+    command,
+    cwd: tool.cwd,
+    env: tool.env,
+    timeoutMs: tool.timeout_seconds ? Number(tool.timeout_seconds) * 1000 : undefined,
+  }
+}
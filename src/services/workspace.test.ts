@@ -0,0 +1,68 @@
+/**
+ * Tests for execution workspaces
+ */
+
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createWorkspace, finishWorkspace, getWorkspaceConfig, pruneWorkspaces, workspacesDir } from './workspace.js'
+
+describe('Workspaces', () => {
+  let template: string
+
+  beforeEach(() => {
+    template = mkdtempSync('/tmp/veas-template-')
+    mkdirSync(join(template, 'config'))
+    writeFileSync(join(template, 'config', 'app.json'), '{}')
+  })
+
+  afterEach(() => {
+    rmSync(template, { recursive: true, force: true })
+    rmSync(workspacesDir(), { recursive: true, force: true })
+  })
+
+  it('should read the workspace setting of a task', () => {
+    expect(getWorkspaceConfig(undefined)).toBeUndefined()
+    expect(getWorkspaceConfig({ workspace: false })).toBeUndefined()
+    expect(getWorkspaceConfig({ workspace: true })).toEqual({})
+    expect(getWorkspaceConfig({ workspace: { cleanup: 'never' } })).toEqual({ cleanup: 'never' })
+  })
+
+  it('should seed a workspace from a template and record its retention', async () => {
+    const workspace = await createWorkspace('exec-1', 'task-1', { template, retention_days: 2 })
+
+    expect(workspace.path).toBe(join(workspacesDir(), 'exec-1'))
+    expect(readFileSync(join(workspace.path, 'config', 'app.json'), 'utf-8')).toBe('{}')
+    const record = JSON.parse(readFileSync(`${workspace.path}.json`, 'utf-8'))
+    expect(record).toMatchObject({ executionId: 'exec-1', taskId: 'task-1' })
+    expect(Date.parse(record.retainUntil) - Date.parse(record.createdAt)).toBe(2 * 24 * 60 * 60 * 1000)
+  })
+
+  it('should keep failed executions by default and apply other policies', async () => {
+    const failed = await createWorkspace('exec-failed', 'task-1', {})
+    await expect(finishWorkspace(failed, false)).resolves.toBe(false)
+    expect(existsSync(failed.path)).toBe(true)
+
+    await expect(finishWorkspace(failed, true)).resolves.toBe(true)
+    expect(existsSync(failed.path)).toBe(false)
+    expect(existsSync(`${failed.path}.json`)).toBe(false)
+
+    const kept = await createWorkspace('exec-kept', 'task-1', { cleanup: 'never' })
+    await expect(finishWorkspace(kept, true)).resolves.toBe(false)
+    const removed = await createWorkspace('exec-removed', 'task-1', { cleanup: 'always' })
+    await expect(finishWorkspace(removed, false)).resolves.toBe(true)
+  })
+
+  it('should prune workspaces once their retention is over', async () => {
+    await createWorkspace('exec-short', 'task-1', { retention_days: 1 })
+    await createWorkspace('exec-long', 'task-1', { retention_days: 30 })
+    const inThreeDays = Date.now() + 3 * 24 * 60 * 60 * 1000
+
+    await expect(pruneWorkspaces({ now: inThreeDays, dryRun: true })).resolves.toEqual(['exec-short'])
+    expect(existsSync(join(workspacesDir(), 'exec-short'))).toBe(true)
+
+    await expect(pruneWorkspaces({ now: inThreeDays })).resolves.toEqual(['exec-short'])
+    expect(existsSync(join(workspacesDir(), 'exec-short'))).toBe(false)
+    await expect(pruneWorkspaces({ now: inThreeDays, olderThanDays: 2 })).resolves.toEqual(['exec-long'])
+  })
+})
@@ -0,0 +1,184 @@
+/**
+ * Execution Workspaces
+ *
+ * Tasks that ask for a workspace run in their own directory under
+ * ~/.veas/workspaces/<executionId>, so concurrent executions don't share
+ * files. A workspace starts empty, as a copy of a template directory or as a
+ * git clone. After the execution it is deleted or kept according to the
+ * task's cleanup policy; kept workspaces are removed by `veas workspace prune`
+ * once their retention period is over.
+ */
+
+import { spawn } from 'node:child_process'
+import { cp, mkdir, readdir, readFile, rm, stat, writeFile } from 'node:fs/promises'
+import { homedir } from 'node:os'
+import { join, resolve } from 'node:path'
+
+/** When a workspace is deleted after its execution */
+export type WorkspaceCleanup = 'always' | 'on_success' | 'never'
+
+export interface WorkspaceConfig {
+  /** Directory copied into the workspace */
+  template?: string
+  /** Repository (URL or local path) cloned into the workspace */
+  git?: string
+  /** Branch or tag to clone */
+  git_ref?: string
+  /** Default on_success: failed executions keep their workspace for inspection */
+  cleanup?: WorkspaceCleanup
+  /** Days a kept workspace survives before prune removes it (default 7) */
+  retention_days?: number
+}
+
+export interface Workspace {
+  executionId: string
+  path: string
+  config: WorkspaceConfig
+}
+
+/** Written next to each workspace, so prune knows when it may go */
+interface WorkspaceRecord {
+  executionId: string
+  taskId: string
+  createdAt: string
+  retainUntil: string
+}
+
+export const DEFAULT_RETENTION_DAYS = 7
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function workspacesDir(): string {
+  return join(homedir(), '.veas', 'workspaces')
+}
+
+/**
+ * The workspace settings of a task, or undefined when it runs in the agent's directory
+ *
+ * `configuration.workspace` is `true` for an empty workspace or a WorkspaceConfig.
+ */
+export function getWorkspaceConfig(configuration: Record<string, unknown> | undefined): WorkspaceConfig | undefined {
+  const workspace = configuration?.workspace
+  if (workspace === true) {
+    return {}
+  }
+  return workspace && typeof workspace === 'object' ? (workspace as WorkspaceConfig) : undefined
+}
+
+function git(args: string[]): Promise<void> {
+  return new Promise((resolvePromise, reject) => {
+    const child = spawn('git', args, { stdio: ['ignore', 'ignore', 'pipe'] })
+    let stderr = ''
+    child.stderr?.on('data', data => {
+      stderr += data.toString()
+    })
+    child.on('error', reject)
+    child.on('close', code =>
+      code === 0
+        ? resolvePromise()
+        : reject(new Error(`git ${args[0]} failed: ${stderr.trim() || `exit code ${code}`}`)),
+    )
+  })
+}
+
+/**
+ * Create and seed the workspace of an execution
+ */
+export async function createWorkspace(
+  executionId: string,
+  taskId: string,
+  config: WorkspaceConfig,
+): Promise<Workspace> {
+  const path = join(workspacesDir(), executionId)
+  await rm(path, { recursive: true, force: true })
+
+  if (config.git) {
+    const branch = config.git_ref ? ['--branch', config.git_ref] : []
+    await mkdir(workspacesDir(), { recursive: true })
+    await git(['clone', '--depth', '1', ...branch, '--', config.git, path])
+  } else {
+    await mkdir(path, { recursive: true })
+  }
+  if (config.template) {
+    await cp(resolve(config.template), path, { recursive: true })
+  }
+
+  const now = Date.now()
+  const record: WorkspaceRecord = {
+    executionId,
+    taskId,
+    createdAt: new Date(now).toISOString(),
+    retainUntil: new Date(now + (config.retention_days ?? DEFAULT_RETENTION_DAYS) * DAY_MS).toISOString(),
+  }
+  await writeFile(`${path}.json`, JSON.stringify(record, null, 2))
+
+  return { executionId, path, config }
+}
+
+/**
+ * Apply the cleanup policy once the execution has finished
+ *
+ * Returns whether the workspace was deleted.
+ */
+export async function finishWorkspace(workspace: Workspace, succeeded: boolean): Promise<boolean> {
+  const cleanup = workspace.config.cleanup ?? 'on_success'
+  if (cleanup === 'always' || (cleanup === 'on_success' && succeeded)) {
+    await removeWorkspace(workspace.executionId)
+    return true
+  }
+  return false
+}
+
+async function removeWorkspace(executionId: string): Promise<void> {
+  const path = join(workspacesDir(), executionId)
+  await rm(path, { recursive: true, force: true })
+  await rm(`${path}.json`, { force: true })
+}
+
+export interface PruneOptions {
+  /** Remove every workspace, whatever its retention */
+  all?: boolean
+  /** Remove workspaces created more than this many days ago, instead of using their retention */
+  olderThanDays?: number
+  /** Only report what would be removed */
+  dryRun?: boolean
+  now?: number
+}
+
+/**
+ * Remove kept workspaces whose retention is over
+ *
+ * Workspaces without a record fall back to their modification time and the default retention.
+ */
+export async function pruneWorkspaces(options: PruneOptions = {}): Promise<string[]> {
+  const now = options.now ?? Date.now()
+  let entries: string[]
+  try {
+    entries = await readdir(workspacesDir())
+  } catch {
+    return []
+  }
+
+  const pruned: string[] = []
+  for (const executionId of entries.filter(entry => !entry.endsWith('.json'))) {
+    const path = join(workspacesDir(), executionId)
+    const record = await readFile(`${path}.json`, 'utf-8')
+      .then(text => JSON.parse(text) as WorkspaceRecord)
+      .catch(() => undefined)
+    const createdAt = record ? Date.parse(record.createdAt) : (await stat(path)).mtimeMs
+
+    const expired = options.all
+      ? true
+      : options.olderThanDays !== undefined
+        ? now - createdAt > options.olderThanDays * DAY_MS
+        : now > (record ? Date.parse(record.retainUntil) : createdAt + DEFAULT_RETENTION_DAYS * DAY_MS)
+
+    if (expired) {
+      if (!options.dryRun) {
+        await removeWorkspace(executionId)
+      }
+      pruned.push(executionId)
+    }
+  }
+  return pruned
+}
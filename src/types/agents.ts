@@ -2,6 +2,8 @@
  * Agent and Task Type Definitions
  */
 
+import type { JsonSchema } from '../utils/json-schema.js'
+
 export type TaskStatus = 'active' | 'inactive' | 'archived' | 'draft'
 export type TaskType = 'workflow' | 'single' | 'batch' | 'report' | 'monitoring' | 'integration' | 'custom'
 export type ScheduleType = 'cron' | 'webhook' | 'event' | 'manual' | 'interval' | 'once' | 'calendar'
@@ -9,6 +11,7 @@ export type ExecutionStatus =
   | 'pending'
   | 'queued'
   | 'running'
+  | 'waiting'
   | 'completed'
   | 'failed'
   | 'cancelled'
@@ -208,6 +211,17 @@ export interface AgentDestination {
   updated_at: string
 }
 
+/**
+ * What a destination's handler for a task type can do, as reported in `capabilities.taskTypes`
+ */
+export interface TaskHandlerCapabilities {
+  description: string
+  /** JSON Schema for the task's configuration */
+  configSchema?: JsonSchema
+  /** Whether the handler can run interactive commands */
+  interactive?: boolean
+}
+
 export interface TaskDestinationAssignment {
   id: string
   task_id: string
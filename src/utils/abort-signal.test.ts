@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest'
+import { anySignal } from './abort-signal.js'
+
+describe('anySignal', () => {
+  it('should abort with the reason of the first signal that aborts', () => {
+    const first = new AbortController()
+    const second = new AbortController()
+    const combined = anySignal([first.signal, second.signal])
+
+    expect(combined.aborted).toBe(false)
+    second.abort(new Error('timed out'))
+    first.abort(new Error('cancelled'))
+
+    expect(combined.aborted).toBe(true)
+    expect(combined.reason).toEqual(new Error('timed out'))
+  })
+
+  it('should be aborted already when a signal is', () => {
+    const combined = anySignal([new AbortController().signal, AbortSignal.abort('stop')])
+
+    expect(combined.aborted).toBe(true)
+    expect(combined.reason).toBe('stop')
+  })
+})
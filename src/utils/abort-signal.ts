@@ -0,0 +1,30 @@
+/**
+ * Abort Signals
+ *
+ * Combines abort signals on every Node version the package supports;
+ * AbortSignal.any needs Node 18.17 or 20.3.
+ */
+
+/**
+ * A signal that aborts as soon as any of the given signals does, with its reason
+ */
+export function anySignal(signals: AbortSignal[]): AbortSignal {
+  const controller = new AbortController()
+
+  const aborted = signals.find(signal => signal.aborted)
+  if (aborted) {
+    controller.abort(aborted.reason)
+    return controller.signal
+  }
+
+  const onAbort = (event: Event) => {
+    controller.abort((event.target as AbortSignal).reason)
+    for (const signal of signals) {
+      signal.removeEventListener('abort', onAbort)
+    }
+  }
+  for (const signal of signals) {
+    signal.addEventListener('abort', onAbort, { once: true })
+  }
+  return controller.signal
+}
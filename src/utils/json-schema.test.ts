@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+import { SchemaValidationError, validateSchema } from './json-schema.js'
+
+describe('validateSchema', () => {
+  const schema = {
+    type: 'object',
+    required: ['project_id'],
+    properties: {
+      project_id: { type: 'string', format: 'uuid' },
+      limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+      include_closed: { type: 'boolean', default: false },
+      labels: { type: 'array', items: { type: 'string', minLength: 1 } },
+      owner: {
+        type: 'object',
+        properties: { email: { type: 'string', format: 'email' } },
+        additionalProperties: false,
+      },
+      priority: { enum: ['low', 'high'] },
+    },
+  }
+
+  const projectId = '3f2b8c1e-8d4a-4c55-9a51-0c6f2f5f9d10'
+
+  it('should apply defaults', () => {
+    const result = validateSchema(schema, { project_id: projectId }, { applyDefaults: true })
+
+    expect(result.valid).toBe(true)
+    expect(result.value).toEqual({ project_id: projectId, limit: 20, include_closed: false })
+  })
+
+  it('should coerce values to the declared types', () => {
+    const result = validateSchema(
+      schema,
+      { project_id: projectId, limit: '50', include_closed: 'true', labels: 'bug' },
+      { coerceTypes: true },
+    )
+
+    expect(result.errors).toEqual([])
+    expect(result.value).toEqual({ project_id: projectId, limit: 50, include_closed: true, labels: ['bug'] })
+  })
+
+  it('should not coerce without the option', () => {
+    const result = validateSchema(schema, { project_id: projectId, limit: '50' })
+
+    expect(result.errors).toEqual([{ path: '/limit', keyword: 'type', message: 'must be integer, got string' }])
+  })
+
+  it('should report the path of every error', () => {
+    const result = validateSchema(schema, {
+      limit: 500,
+      labels: ['ok', ''],
+      owner: { email: 'not-an-email', name: 'Sam' },
+      priority: 'urgent',
+    })
+
+    expect(result.valid).toBe(false)
+    expect(result.errors.map(error => [error.path, error.keyword])).toEqual([
+      ['/project_id', 'required'],
+      ['/limit', 'maximum'],
+      ['/labels/1', 'minLength'],
+      ['/owner/email', 'format'],
+      ['/owner/name', 'additionalProperties'],
+      ['/priority', 'enum'],
+    ])
+  })
+
+  it('should support anyOf, oneOf and local references', () => {
+    const refSchema = {
+      $defs: { id: { type: 'string', pattern: '^[A-Z]+-\\d+$' } },
+      type: 'object',
+      properties: {
+        issue: { anyOf: [{ $ref: '#/$defs/id' }, { type: 'integer' }] },
+        size: { oneOf: [{ type: 'integer' }, { type: 'number', minimum: 10 }] },
+      },
+    }
+
+    expect(validateSchema(refSchema, { issue: 'VEAS-12', size: 3 }).valid).toBe(true)
+    expect(validateSchema(refSchema, { issue: 'veas' }).errors[0]).toMatchObject({
+      path: '/issue',
+      keyword: 'pattern',
+    })
+    expect(validateSchema(refSchema, { size: 12 }).errors[0]).toMatchObject({ path: '/size', keyword: 'oneOf' })
+  })
+
+  it('should summarize errors in SchemaValidationError', () => {
+    const { errors } = validateSchema(schema, { limit: 0 })
+    const error = new SchemaValidationError('Input', errors)
+
+    expect(error.message).toBe('Input validation failed at /project_id: is required (and 1 more)')
+    expect(error.code).toBe('SCHEMA_VALIDATION_FAILED')
+    expect(error.errors).toHaveLength(2)
+  })
+})
@@ -0,0 +1,334 @@
+/**
+ * JSON Schema Validation
+ *
+ * Validates task inputs and outputs against the JSON Schema subset used by task
+ * definitions: types, properties, required, additionalProperties, items, enum,
+ * const, numeric/string/array bounds, pattern, format, anyOf/oneOf/allOf and local
+ * $refs. Validation can also apply defaults and coerce values to the declared type.
+ */
+
+export type JsonSchema = Record<string, any> | boolean
+
+export interface SchemaError {
+  /** JSON Pointer to the invalid value, '' for the root */
+  path: string
+  /** Schema keyword that failed, e.g. 'required' or 'type' */
+  keyword: string
+  message: string
+}
+
+export interface SchemaValidationOptions {
+  /** Fill missing properties from their schema's `default` */
+  applyDefaults?: boolean
+  /**
+   * Convert values to the declared type where unambiguous ('42' to 42, 'true' to true, ...);
+   * 'numbers' only converts numeric strings
+   */
+  coerceTypes?: boolean | 'numbers'
+}
+
+export interface SchemaValidationResult {
+  valid: boolean
+  /** The validated value, with defaults applied and types coerced */
+  value: unknown
+  errors: SchemaError[]
+}
+
+export class SchemaValidationError extends Error {
+  code = 'SCHEMA_VALIDATION_FAILED'
+  errors: SchemaError[]
+
+  constructor(label: string, errors: SchemaError[]) {
+    const [first] = errors
+    const location = first?.path ? ` at ${first.path}` : ''
+    const more = errors.length > 1 ? ` (and ${errors.length - 1} more)` : ''
+    super(`${label} validation failed${location}: ${first?.message ?? 'invalid value'}${more}`)
+    this.name = 'SchemaValidationError'
+    this.errors = errors
+  }
+}
+
+const FORMATS: Record<string, RegExp> = {
+  'date-time': /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[a-z][a-z\d+.-]*:\S+$/i,
+  uuid: /^[\da-f]{8}-[\da-f]{4}-[\da-f]{4}-[\da-f]{4}-[\da-f]{12}$/i,
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number'
+  return typeof value
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value)
+  return actual === type || (type === 'number' && actual === 'integer')
+}
+
+function escapePointer(segment: string | number): string {
+  return String(segment).replace(/~/g, '~0').replace(/\//g, '~1')
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Convert a value to one of the allowed types, or return it unchanged
+ */
+function coerce(value: unknown, types: string[], numbersOnly: boolean): unknown {
+  for (const type of types) {
+    if (numbersOnly && (typeof value !== 'string' || (type !== 'number' && type !== 'integer'))) continue
+    switch (type) {
+      case 'number':
+      case 'integer':
+        if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) {
+          const number = Number(value)
+          if (type === 'number' || Number.isInteger(number)) return number
+        }
+        if (typeof value === 'boolean') return value ? 1 : 0
+        break
+      case 'boolean':
+        if (value === 'true' || value === '1' || value === 1) return true
+        if (value === 'false' || value === '0' || value === 0) return false
+        break
+      case 'string':
+        if (typeof value === 'number' || typeof value === 'boolean') return String(value)
+        break
+      case 'null':
+        if (value === '' || value === 'null') return null
+        break
+      case 'array':
+        if (!Array.isArray(value) && value !== undefined) return [value]
+        break
+    }
+  }
+  return value
+}
+
+class Validator {
+  private root: JsonSchema
+  private options: SchemaValidationOptions
+
+  constructor(root: JsonSchema, options: SchemaValidationOptions) {
+    this.root = root
+    this.options = options
+  }
+
+  /**
+   * Validate a value, returning it with defaults and coercions applied
+   */
+  visit(schema: JsonSchema, value: unknown, path: string, errors: SchemaError[]): unknown {
+    if (schema === true) return value
+    if (schema === false) {
+      errors.push({ path, keyword: 'false', message: 'no value is allowed here' })
+      return value
+    }
+
+    if (typeof schema.$ref === 'string') {
+      return this.visit(this.resolveRef(schema.$ref), value, path, errors)
+    }
+
+    let result = value
+    if (result === undefined && this.options.applyDefaults && schema.default !== undefined) {
+      result = structuredClone(schema.default)
+    }
+
+    if (schema.type !== undefined) {
+      const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type]
+      if (!types.some(type => matchesType(result, type)) && this.options.coerceTypes) {
+        result = coerce(result, types, this.options.coerceTypes === 'numbers')
+      }
+      if (!types.some(type => matchesType(result, type))) {
+        errors.push({ path, keyword: 'type', message: `must be ${types.join(' or ')}, got ${typeOf(result)}` })
+        return result
+      }
+    }
+
+    if (schema.enum && !schema.enum.some((option: unknown) => deepEqual(option, result))) {
+      errors.push({
+        path,
+        keyword: 'enum',
+        message: `must be one of ${schema.enum.map((option: unknown) => JSON.stringify(option)).join(', ')}`,
+      })
+    }
+    if ('const' in schema && !deepEqual(schema.const, result)) {
+      errors.push({ path, keyword: 'const', message: `must be ${JSON.stringify(schema.const)}` })
+    }
+
+    if (typeof result === 'number') {
+      this.checkNumber(schema, result, path, errors)
+    } else if (typeof result === 'string') {
+      this.checkString(schema, result, path, errors)
+    } else if (Array.isArray(result)) {
+      result = this.checkArray(schema, result, path, errors)
+    } else if (typeOf(result) === 'object') {
+      result = this.checkObject(schema, result as Record<string, unknown>, path, errors)
+    }
+
+    return this.checkCombinators(schema, result, path, errors)
+  }
+
+  private resolveRef(ref: string): JsonSchema {
+    if (!ref.startsWith('#')) {
+      throw new Error(`Only local schema references are supported: ${ref}`)
+    }
+
+    let target: any = this.root
+    for (const segment of ref.slice(1).split('/').filter(Boolean)) {
+      target = target?.[segment.replace(/~1/g, '/').replace(/~0/g, '~')]
+    }
+    if (target === undefined) {
+      throw new Error(`Unresolvable schema reference: ${ref}`)
+    }
+    return target
+  }
+
+  private checkNumber(schema: Record<string, any>, value: number, path: string, errors: SchemaError[]): void {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ path, keyword: 'minimum', message: `must be >= ${schema.minimum}` })
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ path, keyword: 'maximum', message: `must be <= ${schema.maximum}` })
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      errors.push({ path, keyword: 'exclusiveMinimum', message: `must be > ${schema.exclusiveMinimum}` })
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      errors.push({ path, keyword: 'exclusiveMaximum', message: `must be < ${schema.exclusiveMaximum}` })
+    }
+    if (
+      schema.multipleOf !== undefined &&
+      Math.abs(value / schema.multipleOf - Math.round(value / schema.multipleOf)) > 1e-9
+    ) {
+      errors.push({ path, keyword: 'multipleOf', message: `must be a multiple of ${schema.multipleOf}` })
+    }
+  }
+
+  private checkString(schema: Record<string, any>, value: string, path: string, errors: SchemaError[]): void {
+    const length = [...value].length
+    if (schema.minLength !== undefined && length < schema.minLength) {
+      errors.push({ path, keyword: 'minLength', message: `must have at least ${schema.minLength} characters` })
+    }
+    if (schema.maxLength !== undefined && length > schema.maxLength) {
+      errors.push({ path, keyword: 'maxLength', message: `must have at most ${schema.maxLength} characters` })
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+      errors.push({ path, keyword: 'pattern', message: `must match pattern ${schema.pattern}` })
+    }
+    const format = schema.format ? FORMATS[schema.format] : undefined
+    if (format && !format.test(value)) {
+      errors.push({ path, keyword: 'format', message: `must be a valid ${schema.format}` })
+    }
+  }
+
+  private checkArray(schema: Record<string, any>, value: unknown[], path: string, errors: SchemaError[]): unknown[] {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({ path, keyword: 'minItems', message: `must have at least ${schema.minItems} items` })
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push({ path, keyword: 'maxItems', message: `must have at most ${schema.maxItems} items` })
+    }
+    if (schema.uniqueItems && new Set(value.map(item => JSON.stringify(item))).size !== value.length) {
+      errors.push({ path, keyword: 'uniqueItems', message: 'must not contain duplicate items' })
+    }
+
+    if (schema.items === undefined) {
+      return value
+    }
+    return value.map((item, index) => this.visit(schema.items, item, `${path}/${index}`, errors))
+  }
+
+  private checkObject(
+    schema: Record<string, any>,
+    value: Record<string, unknown>,
+    path: string,
+    errors: SchemaError[],
+  ): Record<string, unknown> {
+    const result: Record<string, unknown> = { ...value }
+    const properties: Record<string, JsonSchema> = schema.properties || {}
+
+    if (this.options.applyDefaults) {
+      for (const [name, property] of Object.entries(properties)) {
+        if (result[name] === undefined && typeof property === 'object' && property.default !== undefined) {
+          result[name] = structuredClone(property.default)
+        }
+      }
+    }
+
+    for (const name of schema.required || []) {
+      if (result[name] === undefined) {
+        errors.push({
+          path: `${path}/${escapePointer(name)}`,
+          keyword: 'required',
+          message: 'is required',
+        })
+      }
+    }
+
+    for (const [name, propertyValue] of Object.entries(result)) {
+      const propertyPath = `${path}/${escapePointer(name)}`
+      const property = Object.hasOwn(properties, name) ? properties[name] : undefined
+
+      if (property !== undefined) {
+        result[name] = this.visit(property, propertyValue, propertyPath, errors)
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: propertyPath, keyword: 'additionalProperties', message: 'is not an allowed property' })
+      } else if (typeof schema.additionalProperties === 'object') {
+        result[name] = this.visit(schema.additionalProperties, propertyValue, propertyPath, errors)
+      }
+    }
+
+    return result
+  }
+
+  private checkCombinators(schema: Record<string, any>, value: unknown, path: string, errors: SchemaError[]): unknown {
+    let result = value
+
+    for (const subschema of schema.allOf || []) {
+      result = this.visit(subschema, result, path, errors)
+    }
+
+    if (schema.anyOf || schema.oneOf) {
+      const options: JsonSchema[] = schema.anyOf || schema.oneOf
+      const matches: unknown[] = []
+      let closest: SchemaError[] | undefined
+
+      for (const option of options) {
+        const optionErrors: SchemaError[] = []
+        const optionValue = this.visit(option, result, path, optionErrors)
+        if (optionErrors.length === 0) {
+          matches.push(optionValue)
+        } else if (!closest || optionErrors.length < closest.length) {
+          closest = optionErrors
+        }
+      }
+
+      if (matches.length === 0) {
+        errors.push(...(closest || [{ path, keyword: 'anyOf', message: 'must match a schema' }]))
+      } else if (schema.oneOf && matches.length > 1) {
+        errors.push({ path, keyword: 'oneOf', message: `must match exactly one schema, matched ${matches.length}` })
+      } else {
+        result = matches[0]
+      }
+    }
+
+    return result
+  }
+}
+
+/**
+ * Validate a value against a JSON Schema
+ */
+export function validateSchema(
+  schema: JsonSchema,
+  value: unknown,
+  options: SchemaValidationOptions = {},
+): SchemaValidationResult {
+  const errors: SchemaError[] = []
+  const result = new Validator(schema, options).visit(schema, value, '', errors)
+  return { valid: errors.length === 0, value: result, errors }
+}
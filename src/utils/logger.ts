@@ -5,6 +5,7 @@ export enum LogLevel {
   INFO = 1,
   WARN = 2,
   ERROR = 3,
+  SILENT = 4,
 }
 
 class Logger {